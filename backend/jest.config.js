@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { isolatedModules: true }]
+  },
+  moduleNameMapper: {
+    '^@liqpro/shared/(.*)$': '<rootDir>/../shared/$1'
+  }
+};
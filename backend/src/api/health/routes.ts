@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { LeaderElection, getLeaderElection } from '../../core/cluster/leader-election';
+
+/**
+ * 健康检查路由，由运行主节点选举的进程挂载（如 /health）
+ * 包含本实例是否为主节点（运行定时任务和监控服务）以及最近一次选举检查时的主节点，不查询数据库
+ * @param election - 主节点选举实例，默认为进程共享的实例
+ */
+export const createHealthRouter = (election: LeaderElection = getLeaderElection()): Router => {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    try {
+      const cluster = election.getStatus();
+      res.json({ status: 'ok', timestamp: new Date().toISOString(), cluster });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
@@ -1,27 +1,29 @@
 import { Request, Response } from 'express';
 import { PoolService } from '../../core/data/pool-service';
 import { PositionMonitor } from '../../core/data/position-monitor';
-import { MeteoraService } from '../../services/meteora';
-import { ApiError, ApiErrorCode, ApiResponse, PoolQueryParams, MonitoredPoolQueryParams } from '@liqpro/shared/src/types/api';
+import { BinWindow } from '../../services/meteora';
+import { RequestPriority } from '../../utils/request-scheduler';
+import { ApiError, ApiErrorCode, ApiResponse, PoolQueryParams, PoolDetailQueryParams, MonitoredPoolQueryParams } from '@liqpro/shared/src/types/api';
 import logger from '../../utils/logger';
+import { config } from '../../config';
+import { PgPoolAnalyticsStore, PoolAnalytics, PoolAnalyticsStore } from '../../core/analytics/pool-analytics-store';
+import { DataTransformers } from '../../core/data/transformers';
 
 export class PoolController {
   private poolService: PoolService;
   private positionMonitor: PositionMonitor;
-  private meteoraService: MeteoraService;
+  private analyticsStore: PoolAnalyticsStore | null;
 
-  constructor() {
-    // 初始化MeteoraService
-    this.meteoraService = new MeteoraService(
-      process.env.METEORA_API_URL || 'https://api.meteora.ag',
-      process.env.METEORA_API_KEY || ''
-    );
-
-    // 初始化PoolService
-    this.poolService = new PoolService(this.meteoraService);
+  /**
+   * @param poolService - 进程共享的池子服务，与定时任务使用同一个 MeteoraService（请求并发、限流和熔断按进程计算）
+   * @param positionMonitor - 进程共享的持仓监控
+   */
+  constructor(poolService: PoolService, positionMonitor: PositionMonitor) {
+    this.poolService = poolService;
+    this.positionMonitor = positionMonitor;
 
-    // 初始化PositionMonitor
-    this.positionMonitor = new PositionMonitor(this.poolService);
+    // 池子分析结果由分析任务写入 pools 表，无数据库的演示模式下不提供
+    this.analyticsStore = config.dataRepository.mode === 'postgres' ? new PgPoolAnalyticsStore() : null;
   }
 
   /**
@@ -30,12 +32,28 @@ export class PoolController {
    * @apiName GetRecommendedPools
    * @apiGroup Pools
    * @apiVersion 1.0.0
+   * @apiParam {Number} [limit=100] 每页数量
+   * @apiParam {Number} [offset=0] 偏移量
+   * @apiParam {Number} [minTvl=10000] 最小TVL
+   * @apiParam {Number} [minVolume=20000] 最小24小时成交量
+   * @apiParam {String="volume","apy","tvl"} [sortBy=volume] 排序字段
+   * @apiParam {String="asc","desc"} [order=desc] 排序方向
+   * @apiParam {String} [tokenMint] 包含该代币的池子
+   * @apiParam {Number} [minBinStep] 最小bin step
+   * @apiParam {Number} [maxBinStep] 最大bin step
+   * @apiParam {Number} [maxBaseFee] 最大基础费率（百分比）
+   * @apiParam {Boolean} [excludeHidden=true] 排除被隐藏的池子
+   * @apiParam {Boolean} [excludeBlacklisted=true] 排除黑名单池子
    */
   public getRecommendedPools = async (req: Request, res: Response) => {
     try {
       const query = req.query as unknown as PoolQueryParams;
       
-      const pools = await this.poolService.getTop100Pools();
+      const page = await this.poolService.queryPools(query);
+      const pools = {
+        ...page,
+        items: page.items.map(pool => DataTransformers.toPoolResponse(pool))
+      };
 
       const response: ApiResponse<typeof pools> = {
         success: true,
@@ -59,11 +77,19 @@ export class PoolController {
    * @apiName GetPoolDetail
    * @apiGroup Pools
    * @apiVersion 1.0.0
+   * @apiParam {Number} [binWindow] 只返回活跃bin两侧各N个bin
+   * @apiParam {Number} [lowerBinId] 只返回给定区间的bin（需与upperBinId同时提供）
+   * @apiParam {Number} [upperBinId] 只返回给定区间的bin（需与lowerBinId同时提供）
+   * @apiSuccess {Object} data.analytics 30天价格统计、成交量/流动性变化和机会评分，分析任务未处理过时为null
    */
   public getPoolDetail = async (req: Request, res: Response) => {
     try {
       const { address } = req.params;
-      const poolDetail = await this.poolService.getPoolDetail(address);
+      const poolDetail = await this.poolService.getPoolDetail(
+        address,
+        RequestPriority.NORMAL,
+        this.parseBinWindow(req.query)
+      );
       
       if (!poolDetail) {
         throw new ApiError(
@@ -73,9 +99,14 @@ export class PoolController {
         );
       }
 
-      const response: ApiResponse<typeof poolDetail> = {
+      const detail = {
+        ...DataTransformers.toPoolResponse(poolDetail),
+        analytics: await this.getPoolAnalytics(address)
+      };
+
+      const response: ApiResponse<typeof detail> = {
         success: true,
-        data: poolDetail
+        data: detail
       };
 
       res.json(response);
@@ -92,6 +123,29 @@ export class PoolController {
     }
   };
 
+  // 分析结果只是附加信息，数据库不可用时不影响详情接口
+  private async getPoolAnalytics(address: string): Promise<PoolAnalytics | null> {
+    if (!this.analyticsStore) return null;
+    try {
+      return await this.analyticsStore.get(address);
+    } catch (error) {
+      logger.warn(`Failed to load analytics for pool ${address}:`, error);
+      return null;
+    }
+  }
+
+  // 查询参数已由 getPoolDetailQuerySchema 校验并转换为数字
+  private parseBinWindow(query: Request['query']): BinWindow | undefined {
+    const { binWindow, lowerBinId, upperBinId } = query as unknown as PoolDetailQueryParams;
+    if (binWindow !== undefined) {
+      return { binsPerSide: binWindow };
+    }
+    if (lowerBinId !== undefined && upperBinId !== undefined) {
+      return { lowerBinId, upperBinId };
+    }
+    return undefined;
+  }
+
   /**
    * 获取监控的池子列表
    * @api {get} /api/pools/monitored 获取监控的池子列表
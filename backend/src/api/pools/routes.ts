@@ -1,30 +1,42 @@
 import { Router } from 'express';
 import { PoolController } from './controller';
+import { PoolService } from '../../core/data/pool-service';
+import { PositionMonitor } from '../../core/data/position-monitor';
 import { validateRequest } from '../../middleware/validation';
 import { poolSchemas } from './schemas';
 
-const router = Router();
-const controller = new PoolController();
+/**
+ * 池子查询路由，由创建核心服务的进程挂载（如 /api/v1/pools）
+ * @param poolService - 进程共享的池子服务
+ * @param positionMonitor - 进程共享的持仓监控
+ */
+export const createPoolRouter = (poolService: PoolService, positionMonitor: PositionMonitor): Router => {
+  const router = Router();
+  const controller = new PoolController(poolService, positionMonitor);
 
-// 获取推荐池子列表
-router.get(
-  '/recommended',
-  validateRequest({ query: poolSchemas.getRecommendedPoolsSchema }),
-  controller.getRecommendedPools
-);
+  // 获取推荐池子列表
+  router.get(
+    '/recommended',
+    validateRequest({ query: poolSchemas.getRecommendedPoolsSchema }),
+    controller.getRecommendedPools
+  );
 
-// 获取池子详情
-router.get(
-  '/:address',
-  validateRequest({ params: poolSchemas.getPoolDetailSchema }),
-  controller.getPoolDetail
-);
+  // 获取池子详情
+  router.get(
+    '/:address',
+    validateRequest({
+      params: poolSchemas.getPoolDetailSchema,
+      query: poolSchemas.getPoolDetailQuerySchema
+    }),
+    controller.getPoolDetail
+  );
 
-// 获取监控的池子列表
-router.get(
-  '/monitored',
-  validateRequest({ query: poolSchemas.getMonitoredPoolsSchema }),
-  controller.getMonitoredPools
-);
+  // 获取监控的池子列表
+  router.get(
+    '/monitored',
+    validateRequest({ query: poolSchemas.getMonitoredPoolsSchema }),
+    controller.getMonitoredPools
+  );
 
-export default router; 
\ No newline at end of file
+  return router;
+};
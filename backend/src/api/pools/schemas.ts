@@ -1,40 +1,78 @@
 import { z } from 'zod';
 import { PublicKey } from '@solana/web3.js';
 
+const isPublicKey = (val: string): boolean => {
+  try {
+    new PublicKey(val);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 单侧最多返回的bin数量
+const MAX_BIN_WINDOW = 500;
+
+// 分页参数的上限
+const MAX_PAGE_SIZE = 100;
+
+// 数字查询参数使用 z.coerce.number() 按整个字符串转换，NaN、Infinity 和 "12abc" 这类输入校验失败
+
 // 获取推荐池子列表的查询参数schema
 export const getRecommendedPoolsSchema = z.object({
-  limit: z.string().optional().transform(val => val ? parseInt(val) : 100),
-  offset: z.string().optional().transform(val => val ? parseInt(val) : 0),
-  minTvl: z.string().optional().transform(val => val ? parseFloat(val) : 10000),
-  minVolume: z.string().optional().transform(val => val ? parseFloat(val) : 20000),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  minTvl: z.coerce.number().finite().min(0).default(10000),
+  minVolume: z.coerce.number().finite().min(0).default(20000),
   sortBy: z.enum(['volume', 'apy', 'tvl']).optional().default('volume'),
-  order: z.enum(['asc', 'desc']).optional().default('desc')
-});
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+  tokenMint: z.string().optional().refine(
+    (val) => val === undefined || isPublicKey(val),
+    { message: 'Invalid token mint' }
+  ),
+  minBinStep: z.coerce.number().int().min(1).optional(),
+  maxBinStep: z.coerce.number().int().min(1).optional(),
+  maxBaseFee: z.coerce.number().finite().min(0).optional(),
+  excludeHidden: z.enum(['true', 'false']).optional().default('true').transform(val => val === 'true'),
+  excludeBlacklisted: z.enum(['true', 'false']).optional().default('true').transform(val => val === 'true')
+}).refine(
+  (val) => val.minBinStep === undefined || val.maxBinStep === undefined || val.minBinStep <= val.maxBinStep,
+  { message: 'minBinStep must not exceed maxBinStep' }
+);
 
 // 获取池子详情的参数schema
 export const getPoolDetailSchema = z.object({
-  address: z.string().refine(
-    (val) => {
-      try {
-        new PublicKey(val);
-        return true;
-      } catch {
-        return false;
-      }
-    },
-    { message: 'Invalid Solana address' }
-  )
+  address: z.string().refine(isPublicKey, { message: 'Invalid Solana address' })
 });
 
+// 获取池子详情的查询参数schema
+// binWindow：只返回活跃bin两侧各N个bin；lowerBinId/upperBinId：只返回给定区间（如持仓范围）的bin
+export const getPoolDetailQuerySchema = z.object({
+  binWindow: z.coerce.number().int().min(0).max(MAX_BIN_WINDOW).optional(),
+  lowerBinId: z.coerce.number().int().optional(),
+  upperBinId: z.coerce.number().int().optional()
+}).refine(
+  (val) => (val.lowerBinId === undefined) === (val.upperBinId === undefined),
+  { message: 'lowerBinId and upperBinId must be provided together' }
+).refine(
+  (val) => val.lowerBinId === undefined || val.upperBinId === undefined ||
+    (val.upperBinId >= val.lowerBinId && val.upperBinId - val.lowerBinId <= MAX_BIN_WINDOW * 2),
+  { message: 'Invalid bin range' }
+).refine(
+  (val) => val.binWindow === undefined || val.lowerBinId === undefined,
+  { message: 'binWindow cannot be combined with lowerBinId/upperBinId' }
+);
+
 // 获取监控池子列表的查询参数schema
 export const getMonitoredPoolsSchema = z.object({
-  limit: z.string().optional().transform(val => val ? parseInt(val) : 50),
-  offset: z.string().optional().transform(val => val ? parseInt(val) : 0),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
   status: z.enum(['active', 'inactive', 'all']).optional().default('all')
 });
 
 export const poolSchemas = {
   getRecommendedPoolsSchema,
   getPoolDetailSchema,
+  getPoolDetailQuerySchema,
   getMonitoredPoolsSchema
 }; 
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { DataScheduler, TaskStatus } from '../../core/data/scheduler';
+import { ApiError, ApiErrorCode, ApiResponse } from '@liqpro/shared/src/types/api';
+import logger from '../../utils/logger';
+
+export class SchedulerController {
+  private scheduler: DataScheduler;
+
+  constructor(scheduler: DataScheduler) {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * 获取所有任务状态，从任务状态存储读取，任一实例上都能查看主节点保存的状态
+   * @api {get} /api/admin/scheduler/tasks 获取所有任务状态
+   * @apiName ListTasks
+   * @apiGroup Scheduler
+   * @apiVersion 1.0.0
+   * @apiHeader {String} Authorization Bearer 管理令牌
+   */
+  public listTasks = async (req: Request, res: Response) => {
+    const response: ApiResponse<TaskStatus[]> = {
+      success: true,
+      data: await this.scheduler.loadAllTaskStatus()
+    };
+    res.json(response);
+  };
+
+  /**
+   * 获取任务状态
+   * @api {get} /api/admin/scheduler/tasks/:taskId 获取任务状态
+   * @apiName GetTask
+   * @apiGroup Scheduler
+   * @apiVersion 1.0.0
+   * @apiHeader {String} Authorization Bearer 管理令牌
+   */
+  public getTask = async (req: Request, res: Response) => {
+    const response: ApiResponse<TaskStatus> = {
+      success: true,
+      data: this.requireTask(await this.scheduler.loadTaskStatus(req.params.taskId))
+    };
+    res.json(response);
+  };
+
+  /**
+   * 暂停任务，暂停期间不按计划执行；写入任务状态存储，主节点在下一次检查时生效
+   * @api {post} /api/admin/scheduler/tasks/:taskId/pause 暂停任务
+   * @apiName PauseTask
+   * @apiGroup Scheduler
+   * @apiVersion 1.0.0
+   * @apiHeader {String} Authorization Bearer 管理令牌
+   */
+  public pauseTask = async (req: Request, res: Response) => {
+    const status = this.requireTask(await this.scheduler.pauseTask(req.params.taskId));
+    logger.info(`Scheduler task ${status.taskId} paused`);
+
+    const response: ApiResponse<TaskStatus> = { success: true, data: status };
+    res.json(response);
+  };
+
+  /**
+   * 恢复任务；写入任务状态存储，主节点在下一次检查时生效
+   * @api {post} /api/admin/scheduler/tasks/:taskId/resume 恢复任务
+   * @apiName ResumeTask
+   * @apiGroup Scheduler
+   * @apiVersion 1.0.0
+   * @apiHeader {String} Authorization Bearer 管理令牌
+   */
+  public resumeTask = async (req: Request, res: Response) => {
+    const status = this.requireTask(await this.scheduler.resumeTask(req.params.taskId));
+    logger.info(`Scheduler task ${status.taskId} resumed`);
+
+    const response: ApiResponse<TaskStatus> = { success: true, data: status };
+    res.json(response);
+  };
+
+  /**
+   * 立即执行任务
+   * 本实例运行调度（主节点）时执行并等待执行结束；否则记录执行请求，由主节点在下一次检查时执行并返回 202
+   * @api {post} /api/admin/scheduler/tasks/:taskId/trigger 立即执行任务
+   * @apiName TriggerTask
+   * @apiGroup Scheduler
+   * @apiVersion 1.0.0
+   * @apiHeader {String} Authorization Bearer 管理令牌
+   * @apiSuccess {Object} data 执行后的任务状态，执行失败时 lastError 为错误信息；请求转交主节点时为记录请求后的状态
+   */
+  public triggerTask = async (req: Request, res: Response) => {
+    if (!this.scheduler.isScheduling()) {
+      const status = this.requireTask(await this.scheduler.requestRun(req.params.taskId));
+      logger.info(`Scheduler task ${status.taskId} run requested`);
+
+      const response: ApiResponse<TaskStatus> = { success: true, data: status };
+      res.status(202).json(response);
+      return;
+    }
+
+    const task = this.requireTask(this.scheduler.getTaskStatus(req.params.taskId));
+    if (task.isRunning) {
+      throw new ApiError(
+        `Task ${task.taskId} is already running`,
+        409,
+        ApiErrorCode.BAD_REQUEST
+      );
+    }
+
+    try {
+      logger.info(`Scheduler task ${task.taskId} triggered manually`);
+      const status = await this.scheduler.triggerTask(task.taskId);
+
+      const response: ApiResponse<TaskStatus> = { success: true, data: status };
+      res.json(response);
+    } catch (error) {
+      logger.error(`Failed to trigger task ${task.taskId}:`, error);
+      throw new ApiError(
+        'Failed to trigger task',
+        500,
+        ApiErrorCode.INTERNAL_ERROR
+      );
+    }
+  };
+
+  private requireTask(status: TaskStatus | null): TaskStatus {
+    if (!status) {
+      throw new ApiError(
+        'Task not found',
+        404,
+        ApiErrorCode.NOT_FOUND
+      );
+    }
+    return status;
+  }
+}
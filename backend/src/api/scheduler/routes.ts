@@ -0,0 +1,74 @@
+import { NextFunction, Request, RequestHandler, Response, Router } from 'express';
+import { ApiError, ApiErrorCode, ApiResponse } from '@liqpro/shared/src/types/api';
+import { SchedulerController } from './controller';
+import { DataScheduler } from '../../core/data/scheduler';
+import { validateRequest } from '../../middleware/validation';
+import { requireAdminToken } from '../../middleware/admin-auth';
+import { schedulerSchemas } from './schemas';
+import { config } from '../../config';
+import logger from '../../utils/logger';
+
+// 异步处理函数抛出的错误交给路由的错误处理，Express 4 不会捕获被拒绝的 Promise
+const handle = (handler: RequestHandler): RequestHandler =>
+  (req, res, next) => Promise.resolve(handler(req, res, next)).catch(next);
+
+// 挂载调度器的进程不一定配置了全局错误处理，管理接口自行返回 ApiResponse 格式的错误
+const handleError = (error: Error, req: Request, res: Response, _next: NextFunction): void => {
+  const apiError = error instanceof ApiError
+    ? error
+    : new ApiError('Internal server error', 500, ApiErrorCode.INTERNAL_ERROR);
+  if (!(error instanceof ApiError)) {
+    logger.error('Scheduler admin request failed:', error);
+  }
+  const response: ApiResponse<never> = {
+    success: false,
+    error: { code: apiError.code, message: apiError.message }
+  };
+  res.status(apiError.statusCode).json(response);
+};
+
+/**
+ * 调度任务管理路由，由运行调度器的进程挂载（如 /api/v1/admin/scheduler）
+ * @param scheduler - 调度器实例
+ */
+export const createSchedulerRouter = (scheduler: DataScheduler): Router => {
+  const router = Router();
+  const controller = new SchedulerController(scheduler);
+
+  router.use(requireAdminToken(config.scheduler.adminToken));
+
+  // 获取所有任务状态
+  router.get('/tasks', handle(controller.listTasks));
+
+  // 获取任务状态
+  router.get(
+    '/tasks/:taskId',
+    validateRequest({ params: schedulerSchemas.taskIdSchema }),
+    handle(controller.getTask)
+  );
+
+  // 暂停任务
+  router.post(
+    '/tasks/:taskId/pause',
+    validateRequest({ params: schedulerSchemas.taskIdSchema }),
+    handle(controller.pauseTask)
+  );
+
+  // 恢复任务
+  router.post(
+    '/tasks/:taskId/resume',
+    validateRequest({ params: schedulerSchemas.taskIdSchema }),
+    handle(controller.resumeTask)
+  );
+
+  // 立即执行任务
+  router.post(
+    '/tasks/:taskId/trigger',
+    validateRequest({ params: schedulerSchemas.taskIdSchema }),
+    handle(controller.triggerTask)
+  );
+
+  router.use(handleError);
+
+  return router;
+};
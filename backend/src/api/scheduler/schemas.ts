@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// 任务ID的参数schema
+export const taskIdSchema = z.object({
+  taskId: z.string().regex(/^[a-z0-9_]{1,64}$/, { message: 'Invalid task id' })
+});
+
+export const schedulerSchemas = {
+  taskIdSchema
+};
@@ -6,6 +6,7 @@ import { json, urlencoded } from 'body-parser';
 import { errorHandler } from './utils/errors';
 import { requestLogger } from './utils/logger';
 import config from './config';
+import { createHealthRouter } from './api/health/routes';
 
 const app = express();
 
@@ -25,9 +26,7 @@ app.use('/api/v1/auth', require('./api/auth'));
 app.use('/api/v1/pools', require('./api/pools'));
 
 // 健康检查
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+app.use('/health', createHealthRouter());
 
 // 404处理
 app.use((req, res, next) => {
@@ -3,17 +3,143 @@
  * @module config
  */
 
+import { hostname } from 'os';
+
 export const config = {
+  logLevel: process.env.LOG_LEVEL || 'info', // winston 日志级别
   meteora: {
     baseUrl: process.env.METEORA_API_URL || 'https://api.meteora.ag',
     apiKey: process.env.METEORA_API_KEY || '',
-    rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+    timeout: Number(process.env.METEORA_API_TIMEOUT) || 30000, // 请求超时（毫秒）
+    maxConcurrentRequests: 5, // 最大并发请求数
+    dlmmPoolCacheSize: 200, // 缓存的DLMM实例数上限（按 RPC节点|池子地址），超出时淘汰最久未使用的实例
+    retry: {
+      maxAttempts: Number(process.env.METEORA_API_MAX_RETRIES) || 3, // 最大尝试次数
+      backoff: {
+        initialDelay: 1000, // 首次重试延迟上限（毫秒）
+        maxDelay: 5000, // 最大重试延迟（毫秒）
+        factor: 2 // 指数增长因子
+      }
+    },
+    rateLimit: {
+      maxRequests: Number(process.env.METEORA_API_RATE_LIMIT_MAX) || 100, // 时间窗口内最大请求数
+      windowMs: Number(process.env.METEORA_API_RATE_LIMIT_WINDOW) || 60000 // 时间窗口（1分钟）
+    },
+    circuitBreaker: {
+      failureThreshold: 5, // 连续失败次数
+      errorRateThreshold: 0.5, // 错误率阈值
+      minimumRequests: 10, // 按错误率熔断的最少请求数
+      windowSize: 20, // 错误率滑动窗口（请求数）
+      openTimeout: 30000, // 熔断持续时间（30秒）
+      halfOpenMaxCalls: 1 // 半开状态试探请求数
+    },
+    fixtures: {
+      // off：直连上游；record：录制上游响应；replay：只从录制的快照返回数据
+      mode: (process.env.METEORA_FIXTURE_MODE || 'off') as 'off' | 'record' | 'replay',
+      dir: process.env.METEORA_FIXTURE_DIR || 'fixtures/meteora' // 快照目录
+    }
+  },
+  jupiter: {
+    apiUrl: process.env.JUPITER_API_URL || 'https://quote-api.jup.ag/v6',
+    timeout: Number(process.env.JUPITER_API_TIMEOUT) || 30000, // 请求超时（毫秒）
+    priceCacheTtl: 30000 // 代币价格缓存时间（30秒）
   },
   pools: {
     minTVL: 10000, // 最小TVL（美元）
     minVolume: 20000, // 最小24小时成交量（美元）
     updateInterval: 300000, // 更新间隔（5分钟）
-    maxRetries: 3, // 最大重试次数
-    retryDelay: 1000 // 重试延迟（毫秒）
+    queryCacheTtl: 60000 // 池子查询使用的完整池子列表缓存时间（1分钟）
+  },
+  dataManager: {
+    updateInterval: 60000, // 刷新间隔（1分钟）
+    refreshConcurrency: 5, // 同时刷新的池子数量上限
+    sourceListTtl: 60000, // 数据源池子列表的复用时间，一轮刷新共用一次列表请求
+    validation: {
+      maxPriceChange: 0.5, // 相对上一次快照的最大价格变化比例（50%）
+      maxStaleness: 3600000, // lastUpdate 的最大滞后时间（1小时）
+      quarantineLimit: 1000, // 最多保留的隔离记录数
+      priceConfirmations: 3 // 价格连续多少轮偏离上一次快照且彼此一致时，认为价格确实发生了变化
+    }
+  },
+  analytics: {
+    updateInterval: 3600000, // 池子分析间隔（1小时）
+    concentrationBinsPerSide: 10 // 统计流动性集中度时活跃bin每侧的bin数量
+  },
+  metrics: {
+    // 各时间粒度的保留时长（毫秒），0 表示永久保留
+    retention: {
+      raw: 7 * 86400000,
+      '5m': 30 * 86400000,
+      '1h': 180 * 86400000,
+      '1d': 0
+    },
+    cleanupSchedule: '30 3 * * *' // 归档和清理时间（每天 03:30 UTC，cron 表达式）
+  },
+  cluster: {
+    instanceId: process.env.INSTANCE_ID || `${hostname()}-${process.pid}`, // 实例标识，在健康检查中显示当前主节点
+    leaderLockKey: Number(process.env.LEADER_LOCK_KEY) || 73010001, // 主节点选举使用的 Postgres advisory lock 键
+    leaseRenewInterval: 10000 // 主节点续约和从节点尝试获取锁的间隔（10秒）
+  },
+  scheduler: {
+    tickInterval: 5000, // 检查到期任务的间隔（5秒）
+    defaultTimeout: 600000, // 任务默认超时（10分钟）
+    defaultJitter: 10000, // 默认随机延迟上限（10秒），避免多个任务同时触发
+    // 连续失败后的退避，下次执行时间不早于 initialDelay * factor^(连续失败次数-1)
+    backoff: {
+      initialDelay: 60000, // 首次失败后的退避（1分钟）
+      maxDelay: 3600000, // 最大退避（1小时）
+      factor: 2 // 指数增长因子
+    },
+    adminToken: process.env.SCHEDULER_ADMIN_TOKEN || '' // 管理接口的 Bearer 令牌，未配置时管理接口拒绝所有请求
+  },
+  dataRepository: {
+    // postgres: 使用数据库；memory: 无数据库的演示模式，数据保存在进程内
+    mode: (process.env.DATA_REPOSITORY_MODE || 'postgres') as 'postgres' | 'memory',
+    snapshotPath: process.env.DATA_SNAPSHOT_PATH, // memory 模式的快照文件，启动时恢复
+    snapshotInterval: 300000 // memory 模式的自动快照间隔（5分钟）
+  },
+  cache: {
+    // memory: 进程内缓存；redis: 多个 API 副本共享的缓存
+    backend: (process.env.CACHE_BACKEND || 'memory') as 'memory' | 'redis',
+    maxEntries: Number(process.env.CACHE_MAX_ENTRIES) || 1000, // 最大条目数，超出时淘汰最久未使用的条目
+    maxBytes: Number(process.env.CACHE_MAX_BYTES) || 0, // 近似内存预算（字节），0 表示不限制，此时不估算条目大小
+    cleanupInterval: 300000, // 过期条目清理间隔（5分钟）
+    staleTtl: 60000, // getOrLoad 在条目过期后继续返回旧值的宽限期（1分钟），期间在后台刷新
+    redis: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: Number(process.env.REDIS_PORT) || 6379,
+      password: process.env.REDIS_PASSWORD || undefined,
+      keyPrefix: process.env.CACHE_REDIS_PREFIX || 'liqpro:cache:' // 缓存键的命名空间
+    }
+  },
+  database: {
+    host: process.env.DB_HOST || 'localhost',
+    port: Number(process.env.DB_PORT) || 5432,
+    name: process.env.DB_NAME || 'liqpro',
+    user: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASSWORD,
+    maxConnections: 10, // 连接池上限
+    idleTimeoutMillis: 30000 // 空闲连接回收时间
+  },
+  signals: {
+    strategy: (process.env.SIGNAL_STRATEGY || 'balanced') as 'conservative' | 'balanced' | 'aggressive',
+    hysteresis: 5, // 升降级需越过阈值的分数，避免在阈值附近来回跳动
+    volatilityWindow: 12, // 计算波动率的价格采样数（每5分钟一次，即1小时）
+    whaleActivityTtl: 86400000, // 大户活动影响评分的时长（24小时）
+    // 各策略的因子权重（和为1）与分级阈值（0-100分）
+    strategies: {
+      conservative: {
+        weights: { feeTvl: 0.25, volumeTrend: 0.1, concentration: 0.15, whaleActivity: 0.2, volatility: 0.3 },
+        thresholds: { T1: 80, T2: 65, T3: 50 }
+      },
+      balanced: {
+        weights: { feeTvl: 0.3, volumeTrend: 0.2, concentration: 0.15, whaleActivity: 0.15, volatility: 0.2 },
+        thresholds: { T1: 75, T2: 60, T3: 45 }
+      },
+      aggressive: {
+        weights: { feeTvl: 0.4, volumeTrend: 0.25, concentration: 0.15, whaleActivity: 0.1, volatility: 0.1 },
+        thresholds: { T1: 70, T2: 55, T3: 40 }
+      }
+    }
   }
 }; 
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * @file 池子分析测试
+ * @module core/analytics/__tests__/pool-analytics
+ * @description 成交量、手续费和收益取自列表数据，bin快照取自池子详情
+ */
+
+import { Bin, PoolData } from '../../data/types/PoolData';
+import { PoolService } from '../../data/pool-service';
+import { pool } from '../../data/__tests__/fixtures';
+import { PoolAnalyticsJob } from '../pool-analytics';
+import { PoolAnalytics, PoolAnalyticsStore } from '../pool-analytics-store';
+
+const bin = (binId: number, totalLiquidity: number, isActive = false): Bin => ({
+  binId: String(binId),
+  price: '150',
+  amountX: '0',
+  amountY: '0',
+  valueX: '0',
+  valueY: String(totalLiquidity),
+  totalLiquidity: String(totalLiquidity),
+  isActive
+});
+
+class MemoryAnalyticsStore implements PoolAnalyticsStore {
+  readonly saved = new Map<string, PoolAnalytics>();
+
+  async save(analytics: PoolAnalytics): Promise<boolean> {
+    this.saved.set(analytics.poolAddress, analytics);
+    return true;
+  }
+
+  async get(poolAddress: string): Promise<PoolAnalytics | null> {
+    return this.saved.get(poolAddress) ?? null;
+  }
+}
+
+describe('PoolAnalyticsJob', () => {
+  // 列表数据：TVL 250000，24小时成交量为TVL的2倍，手续费/TVL 为1%
+  const listed: PoolData = {
+    ...pool('pool-1'),
+    volume: { last24h: 500000, cumulative: '900000' },
+    yields: { apr: 12, apy: 12.7, fees24hTvl: 1 },
+    bins: []
+  };
+  // 池子详情：成交量、手续费和收益为0，活跃bin附近的流动性占一半
+  const detail: PoolData = {
+    ...listed,
+    volume: { last24h: 0, cumulative: '0' },
+    yields: { apr: 0, apy: 0, fees24hTvl: 0 },
+    parameters: { ...listed.parameters, activeBinId: 100 },
+    bins: [bin(100, 1000, true), bin(200, 1000)]
+  };
+
+  let store: MemoryAnalyticsStore;
+  let job: PoolAnalyticsJob;
+
+  beforeEach(() => {
+    store = new MemoryAnalyticsStore();
+    const poolService = { getPoolDetail: async () => detail } as unknown as PoolService;
+    job = new PoolAnalyticsJob(poolService, { getMarketMetrics: async () => [] }, store);
+  });
+
+  it('scores volume and fees from the listed pool and concentration from the detail bins', async () => {
+    const result = await job.run([listed]);
+
+    expect(result).toMatchObject({ analyzed: 1, saved: 1, failed: [] });
+    expect(store.saved.get('pool-1')).toMatchObject({
+      liquidityConcentration: 0.5,
+      activityScore: 5,
+      // 手续费/TVL 0.5、活跃度 1，成交量趋势、集中度和价格稳定性均为 0.5
+      opportunityScore: 60
+    });
+  });
+});
@@ -0,0 +1,2 @@
+export * from './pool-analytics-store';
+export * from './pool-analytics';
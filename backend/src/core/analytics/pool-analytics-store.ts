@@ -0,0 +1,130 @@
+/**
+ * @file 池子分析结果持久化
+ * @module core/analytics/pool-analytics-store
+ * @description 把分析任务的结果写回 pools 表的价格统计、趋势和评分字段，并供详情接口读取；
+ * 写入时间记录在 analytics_updated_at，不改动表示池子数据更新时间的 last_update
+ */
+
+import { Pool as DbPool } from 'pg';
+import { getDbPool } from '../../db';
+
+/**
+ * 成交量趋势（按天）
+ */
+export interface VolumeTrend {
+  direction: 'up' | 'down' | 'flat';
+  change7d: number;                              // 最近一天相对7天前的变化比例
+  daily: Array<{ date: string; volume: number }>; // 每天最后一次采样的24小时成交量
+}
+
+/**
+ * 池子分析结果
+ */
+export interface PoolAnalytics {
+  poolAddress: string;
+  tokenAPrice30d: {
+    high: number | null;
+    low: number | null;
+    avg: number | null;
+  };
+  volumeTrend: VolumeTrend;
+  volumeChange24h: number;        // 24小时成交量变化比例
+  liquidityChange24h: number;     // 24小时流动性变化比例
+  liquidityConcentration: number; // 活跃bin附近的流动性占比（0-1）
+  activityScore: number;          // 活跃度评分（1.0-5.0）
+  opportunityScore: number;       // 机会评分（0-100）
+  updatedAt: Date;
+}
+
+/**
+ * 分析结果持久化接口
+ */
+export interface PoolAnalyticsStore {
+  // 写回池子记录；池子不在 pools 表中时返回 false
+  save(analytics: PoolAnalytics): Promise<boolean>;
+  get(poolAddress: string): Promise<PoolAnalytics | null>;
+}
+
+interface PoolAnalyticsRow {
+  address: string;
+  token_a_price_30d_high: string | null;
+  token_a_price_30d_low: string | null;
+  token_a_price_30d_avg: string | null;
+  volume_trend: VolumeTrend | null;
+  volume_change_24h: string | null;
+  liquidity_change_24h: string | null;
+  liquidity_concentration: string | null;
+  activity_score: string | null;
+  opportunity_score: string | null;
+  analytics_updated_at: Date | null;
+}
+
+const toNumber = (value: string | null): number | null => (value === null ? null : Number(value));
+
+export class PgPoolAnalyticsStore implements PoolAnalyticsStore {
+  private readonly db: DbPool;
+
+  constructor(db: DbPool = getDbPool()) {
+    this.db = db;
+  }
+
+  async save(analytics: PoolAnalytics): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE pools SET
+         token_a_price_30d_high = $2,
+         token_a_price_30d_low = $3,
+         token_a_price_30d_avg = $4,
+         volume_trend = $5,
+         volume_change_24h = $6,
+         liquidity_change_24h = $7,
+         liquidity_concentration = $8,
+         activity_score = $9,
+         opportunity_score = $10,
+         analytics_updated_at = $11
+       WHERE address = $1`,
+      [
+        analytics.poolAddress,
+        analytics.tokenAPrice30d.high,
+        analytics.tokenAPrice30d.low,
+        analytics.tokenAPrice30d.avg,
+        JSON.stringify(analytics.volumeTrend),
+        analytics.volumeChange24h,
+        analytics.liquidityChange24h,
+        analytics.liquidityConcentration,
+        analytics.activityScore,
+        analytics.opportunityScore,
+        analytics.updatedAt
+      ]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async get(poolAddress: string): Promise<PoolAnalytics | null> {
+    const { rows } = await this.db.query<PoolAnalyticsRow>(
+      `SELECT address, token_a_price_30d_high, token_a_price_30d_low, token_a_price_30d_avg,
+              volume_trend, volume_change_24h, liquidity_change_24h, liquidity_concentration,
+              activity_score, opportunity_score, analytics_updated_at
+       FROM pools WHERE address = $1`,
+      [poolAddress]
+    );
+    const row = rows[0];
+    // 分析任务尚未处理过的池子没有趋势数据
+    if (!row || !row.volume_trend || !row.analytics_updated_at) return null;
+
+    return {
+      poolAddress: row.address,
+      tokenAPrice30d: {
+        high: toNumber(row.token_a_price_30d_high),
+        low: toNumber(row.token_a_price_30d_low),
+        avg: toNumber(row.token_a_price_30d_avg)
+      },
+      volumeTrend: row.volume_trend,
+      volumeChange24h: toNumber(row.volume_change_24h) ?? 0,
+      liquidityChange24h: toNumber(row.liquidity_change_24h) ?? 0,
+      liquidityConcentration: toNumber(row.liquidity_concentration) ?? 0,
+      activityScore: toNumber(row.activity_score) ?? 1,
+      opportunityScore: toNumber(row.opportunity_score) ?? 0,
+      updatedAt: row.analytics_updated_at
+    };
+  }
+}
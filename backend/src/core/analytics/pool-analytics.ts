@@ -0,0 +1,221 @@
+/**
+ * @file 池子分析任务
+ * @module core/analytics/pool-analytics
+ * @description 根据历史市场指标和最新的bin快照计算30天价格统计、成交量/流动性变化、集中度、活跃度和机会评分
+ */
+
+import { PoolData } from '../data/types/PoolData';
+import { MarketMetrics, MarketMetricsCandle } from '../data/data-types';
+import { IDataRepository } from '../data/data-repository';
+import { BinUtils } from '../data/bin-utils';
+import { PoolService } from '../data/pool-service';
+import { RequestPriority } from '../../utils/request-scheduler';
+import { config } from '../../config';
+import { PoolAnalytics, PoolAnalyticsStore, VolumeTrend } from './pool-analytics-store';
+
+// 历史指标由 IDataRepository 提供；每条指标是一次刷新时的快照，volume/fees 为滚动24小时值，liquidity 为TVL
+// 30天历史按1小时粒度查询，原始采样只保留较短时间
+export type MarketMetricsSource = Pick<IDataRepository, 'getMarketMetrics'>;
+
+/**
+ * 一轮分析的统计
+ */
+export interface PoolAnalyticsRunResult {
+  analyzed: number;
+  saved: number;
+  failed: string[];
+  analytics: PoolAnalytics[];  // 本轮计算成功的分析结果
+  timestamp: Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 30;
+const TREND_DAYS = 7;
+// 成交量趋势变化在 ±5% 以内视为持平
+const FLAT_TREND = 0.05;
+// 24小时成交量达到TVL的2倍时活跃度为满分
+const FULL_ACTIVITY_TURNOVER = 2;
+// 24小时手续费/TVL 达到2%时收益因子为满分
+const FULL_FEE_TVL = 2;
+// 30天价格振幅达到均价的50%时稳定性因子为0
+const MAX_PRICE_RANGE = 0.5;
+// 变化比例字段为 DECIMAL(10, 6)
+const MAX_CHANGE_RATIO = 9999;
+
+const OPPORTUNITY_WEIGHTS = {
+  feeTvl: 0.35,
+  activity: 0.2,
+  volumeTrend: 0.15,
+  concentration: 0.15,
+  priceStability: 0.15
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+export class PoolAnalyticsJob {
+  private readonly poolService: PoolService;
+  private readonly metrics: MarketMetricsSource;
+  private readonly store: PoolAnalyticsStore;
+
+  constructor(poolService: PoolService, metrics: MarketMetricsSource, store: PoolAnalyticsStore) {
+    this.poolService = poolService;
+    this.metrics = metrics;
+    this.store = store;
+  }
+
+  /**
+   * 分析一批池子并写回 pools 表
+   * 每个池子单独获取完整的bin快照，单个池子失败不影响其他池子
+   * @param pools - pair/all 列表中的池子（通常为缓存的Top 100），提供成交量、手续费和收益
+   * @returns 本轮统计
+   */
+  async run(pools: PoolData[]): Promise<PoolAnalyticsRunResult> {
+    const timestamp = new Date();
+    const result: PoolAnalyticsRunResult = { analyzed: 0, saved: 0, failed: [], analytics: [], timestamp };
+
+    for (const pool of pools) {
+      try {
+        const analytics = await this.analyzePool(pool, timestamp);
+        result.analyzed++;
+        result.analytics.push(analytics);
+        if (await this.store.save(analytics)) {
+          result.saved++;
+        }
+      } catch (error) {
+        console.error(`Error analyzing pool ${pool.address}:`, error);
+        result.failed.push(pool.address);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 分析单个池子
+   * 池子详情不含成交量、手续费和收益（均为0），只取其中的bin快照和活跃bin，其余字段使用列表数据
+   * @param pool - pair/all 列表中的池子
+   */
+  async analyzePool(pool: PoolData, now: Date = new Date()): Promise<PoolAnalytics> {
+    const [detail, history] = await Promise.all([
+      this.poolService.getPoolDetail(pool.address, RequestPriority.LOW),
+      this.metrics.getMarketMetrics(pool.address, {
+        startTime: new Date(now.getTime() - HISTORY_DAYS * DAY),
+        endTime: now,
+        resolution: '1h'
+      })
+    ]);
+    const snapshot: PoolData = {
+      ...pool,
+      parameters: { ...pool.parameters, activeBinId: detail.parameters.activeBinId },
+      bins: detail.bins
+    };
+    return this.compute(snapshot, history, now);
+  }
+
+  /**
+   * 由池子快照和历史指标计算分析结果
+   * @param pool - 含列表数据和bin快照的池子数据
+   * @param history - 最近30天的市场指标
+   * @param now - 计算时间
+   */
+  compute(pool: PoolData, history: MarketMetrics[], now: Date = new Date()): PoolAnalytics {
+    const samples = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const latest = samples[samples.length - 1];
+    const dayAgo = this.sampleAt(samples, now.getTime() - DAY);
+
+    const tvl = parseFloat(pool.liquidity.total) || latest?.liquidity || 0;
+    const volume24h = pool.volume.last24h || latest?.volume || 0;
+
+    const tokenAPrice30d = this.priceStats(samples);
+    const volumeTrend = this.volumeTrend(samples, now);
+    const volumeChange24h = this.change(volume24h, dayAgo?.volume);
+    const liquidityChange24h = this.change(tvl, dayAgo?.liquidity);
+    const liquidityConcentration = round(this.concentration(pool), 4);
+    const activityScore = round(1 + 4 * clamp(tvl > 0 ? volume24h / tvl / FULL_ACTIVITY_TURNOVER : 0, 0, 1), 1);
+
+    // 各因子统一换算为 0-1 后加权
+    const priceRange = tokenAPrice30d.avg && tokenAPrice30d.high !== null && tokenAPrice30d.low !== null
+      ? (tokenAPrice30d.high - tokenAPrice30d.low) / tokenAPrice30d.avg
+      : MAX_PRICE_RANGE / 2;
+    const factors = {
+      feeTvl: clamp(pool.yields.fees24hTvl / FULL_FEE_TVL, 0, 1),
+      activity: (activityScore - 1) / 4,
+      volumeTrend: clamp(0.5 + volumeTrend.change7d / 2, 0, 1),
+      concentration: liquidityConcentration,
+      priceStability: 1 - clamp(priceRange / MAX_PRICE_RANGE, 0, 1)
+    };
+    const opportunityScore = round(
+      (Object.keys(OPPORTUNITY_WEIGHTS) as Array<keyof typeof OPPORTUNITY_WEIGHTS>)
+        .reduce((sum, factor) => sum + factors[factor] * OPPORTUNITY_WEIGHTS[factor], 0) * 100,
+      2
+    );
+
+    return {
+      poolAddress: pool.address,
+      tokenAPrice30d,
+      volumeTrend,
+      volumeChange24h,
+      liquidityChange24h,
+      liquidityConcentration,
+      activityScore,
+      opportunityScore,
+      updatedAt: now
+    };
+  }
+
+  // 聚合数据取时间桶内的最高/最低价，均价按收盘价计算
+  private priceStats(samples: MarketMetrics[]): PoolAnalytics['tokenAPrice30d'] {
+    const valid = samples.filter(sample => Number.isFinite(sample.price) && sample.price > 0);
+    if (valid.length === 0) {
+      return { high: null, low: null, avg: null };
+    }
+    const highs = valid.map(sample => (sample as Partial<MarketMetricsCandle>).high ?? sample.price);
+    const lows = valid.map(sample => (sample as Partial<MarketMetricsCandle>).low ?? sample.price);
+    return {
+      high: Math.max(...highs),
+      low: Math.min(...lows),
+      avg: valid.reduce((sum, sample) => sum + sample.price, 0) / valid.length
+    };
+  }
+
+  // 取每天最后一次采样的24小时成交量，比较最近一天与7天前
+  private volumeTrend(samples: MarketMetrics[], now: Date): VolumeTrend {
+    const since = now.getTime() - TREND_DAYS * DAY;
+    const byDay = new Map<string, number>();
+    samples
+      .filter(sample => sample.timestamp.getTime() >= since)
+      .forEach(sample => byDay.set(sample.timestamp.toISOString().slice(0, 10), sample.volume));
+
+    const daily = Array.from(byDay.entries()).map(([date, volume]) => ({ date, volume }));
+    const change7d = daily.length >= 2 ? this.change(daily[daily.length - 1].volume, daily[0].volume) : 0;
+    const direction = change7d > FLAT_TREND ? 'up' : change7d < -FLAT_TREND ? 'down' : 'flat';
+
+    return { direction, change7d, daily };
+  }
+
+  private concentration(pool: PoolData): number {
+    if (pool.bins.length === 0) return 0;
+    const nearActive = BinUtils.sliceByBinCount(
+      pool.bins,
+      config.analytics.concentrationBinsPerSide,
+      pool.parameters.activeBinId
+    );
+    return BinUtils.liquidityShare(nearActive, pool.bins);
+  }
+
+  // 距离目标时间最近、且不晚于目标时间的采样
+  private sampleAt(samples: MarketMetrics[], time: number): MarketMetrics | undefined {
+    let found: MarketMetrics | undefined;
+    for (const sample of samples) {
+      if (sample.timestamp.getTime() > time) break;
+      found = sample;
+    }
+    return found;
+  }
+
+  private change(current: number, previous?: number): number {
+    if (!previous || previous <= 0) return 0;
+    return round(clamp(current / previous - 1, -MAX_CHANGE_RATIO, MAX_CHANGE_RATIO), 6);
+  }
+}
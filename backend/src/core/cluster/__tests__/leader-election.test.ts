@@ -0,0 +1,88 @@
+/**
+ * @file 主节点选举测试
+ * @module core/cluster/__tests__/leader-election
+ * @description 主节点服务随锁的获取和丢失启停，健康检查读取缓存的选举状态
+ */
+
+import { LeaderElection, LeaderService } from '../leader-election';
+import { LeaderLock } from '../leader-lock';
+
+// 由测试控制的锁，记录查询当前主节点的次数
+class FakeLeaderLock implements LeaderLock {
+  available = true;
+  held = false;
+  holder: string | null = 'instance-b';
+  holderQueries = 0;
+
+  async tryAcquire(): Promise<boolean> {
+    this.held = this.available;
+    return this.held;
+  }
+
+  async renew(): Promise<boolean> {
+    return this.held && this.available;
+  }
+
+  async release(): Promise<void> {
+    this.held = false;
+  }
+
+  async currentHolder(): Promise<string | null> {
+    this.holderQueries++;
+    return this.holder;
+  }
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const service = (name: string, calls: string[]): LeaderService => ({
+  name,
+  start: () => { calls.push(`start:${name}`); },
+  stop: () => { calls.push(`stop:${name}`); }
+});
+
+describe('LeaderElection', () => {
+  let lock: FakeLeaderLock;
+  let election: LeaderElection;
+
+  beforeEach(() => {
+    lock = new FakeLeaderLock();
+    election = new LeaderElection(lock, { instanceId: 'instance-a', renewInterval: 20 });
+  });
+
+  afterEach(async () => {
+    await election.stop();
+  });
+
+  it('starts services on becoming leader and stops them in reverse order on losing the lock', async () => {
+    const calls: string[] = [];
+    await election.registerService(service('DataScheduler', calls));
+    await election.registerService(service('WhaleActivityMonitor', calls));
+
+    await election.start();
+    lock.available = false;
+    await sleep(50);
+
+    expect(calls).toEqual([
+      'start:DataScheduler',
+      'start:WhaleActivityMonitor',
+      'stop:WhaleActivityMonitor',
+      'stop:DataScheduler'
+    ]);
+    expect(election.isLeader()).toBe(false);
+  });
+
+  it('reports the leader seen by the last check without querying the lock', async () => {
+    lock.available = false;
+    await election.start();
+    await election.stop();
+    const queries = lock.holderQueries;
+
+    const status = election.getStatus();
+    election.getStatus();
+
+    expect(status).toMatchObject({ instanceId: 'instance-a', isLeader: false, leader: 'instance-b' });
+    expect(status.checkedAt).toBeInstanceOf(Date);
+    expect(lock.holderQueries).toBe(queries);
+  });
+});
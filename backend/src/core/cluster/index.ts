@@ -0,0 +1,2 @@
+export * from './leader-lock';
+export * from './leader-election';
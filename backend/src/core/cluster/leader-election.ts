@@ -0,0 +1,225 @@
+/**
+ * @file 主节点选举
+ * @module core/cluster/leader-election
+ * @description 多实例部署时只有持有主节点锁的实例运行定时任务和监控服务；主节点失联后锁被释放，其他实例在下一次检查时接管
+ */
+
+import { EventEmitter } from 'events';
+import { config } from '../../config';
+import { LeaderLock, createLeaderLock } from './leader-lock';
+import logger from '../../utils/logger';
+
+/**
+ * 只在主节点上运行的服务
+ */
+export interface LeaderService {
+  name: string;
+  start(): void | Promise<void>;
+  stop(): void | Promise<void>;
+}
+
+/**
+ * 本实例看到的选举状态，主节点信息为最近一次检查时的结果
+ */
+export interface LeaderStatus {
+  instanceId: string;
+  isLeader: boolean;
+  leader: string | null;    // 当前主节点的实例标识，查询失败时为 null
+  leaderSince: Date | null; // 本实例成为主节点的时间
+  checkedAt: Date | null;   // 最近一次检查的时间，尚未检查时为 null
+  services: string[];       // 注册的主节点服务
+}
+
+export interface LeadershipChangeEvent {
+  instanceId: string;
+  isLeader: boolean;
+  timestamp: Date;
+}
+
+export interface LeaderElectionOptions {
+  instanceId: string;
+  renewInterval: number;  // 续约/尝试获取锁的间隔（毫秒）
+}
+
+export class LeaderElection extends EventEmitter {
+  private readonly lock: LeaderLock;
+  private readonly options: LeaderElectionOptions;
+  private services: LeaderService[] = [];
+  private leader = false;
+  private leaderSince: Date | null = null;
+  private currentLeader: string | null = null;
+  private checkedAt: Date | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  // 同一时间只进行一次检查，避免获取锁和启停服务交错
+  private checking: Promise<void> | null = null;
+
+  constructor(
+    lock: LeaderLock = createLeaderLock(),
+    options: LeaderElectionOptions = {
+      instanceId: config.cluster.instanceId,
+      renewInterval: config.cluster.leaseRenewInterval
+    }
+  ) {
+    super();
+    this.lock = lock;
+    this.options = options;
+  }
+
+  /**
+   * 注册只在主节点上运行的服务，本实例已是主节点时立即启动
+   * 如 DataScheduler（start/stop）、DataManager 的更新服务（startUpdateService/stopUpdateService）、WhaleActivityMonitor（start/stop）
+   */
+  async registerService(service: LeaderService): Promise<void> {
+    this.services.push(service);
+    if (this.leader) {
+      await this.startService(service);
+    }
+  }
+
+  /**
+   * 开始参与选举
+   */
+  async start(): Promise<void> {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      this.check().catch(error => {
+        logger.error('Error checking leadership:', error);
+      });
+    }, this.options.renewInterval);
+    await this.check();
+  }
+
+  /**
+   * 退出选举：停止主节点服务并释放锁，其他实例在下一次检查时接管
+   */
+  async stop(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    await this.checking;
+    if (this.leader) {
+      await this.stepDown();
+    }
+    await this.lock.release();
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * 最近一次检查时的选举状态，不查询数据库，可用于频繁调用的健康检查
+   */
+  getStatus(): LeaderStatus {
+    return {
+      instanceId: this.options.instanceId,
+      isLeader: this.leader,
+      leader: this.leader ? this.options.instanceId : this.currentLeader,
+      leaderSince: this.leaderSince,
+      checkedAt: this.checkedAt,
+      services: this.services.map(service => service.name)
+    };
+  }
+
+  // 订阅本实例成为或不再是主节点的事件
+  subscribeToLeadership(callback: (event: LeadershipChangeEvent) => void): () => void {
+    this.on('leadershipChange', callback);
+    return () => this.off('leadershipChange', callback);
+  }
+
+  private check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.checkOnce().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * 主节点续约，续约失败时立即停止服务；从节点尝试获取锁，未获取时记录当前主节点
+   * 原主节点与数据库断开后，新主节点最早在锁释放时接管，原主节点最迟在下一次续约时停止，两者可能重叠一个续约间隔
+   */
+  private async checkOnce(): Promise<void> {
+    if (this.leader) {
+      const renewed = await this.lock.renew().catch(() => false);
+      if (!renewed) {
+        logger.warn(`Instance ${this.options.instanceId} lost leadership`);
+        await this.stepDown();
+      }
+      this.checkedAt = new Date();
+      return;
+    }
+
+    let acquired = false;
+    try {
+      acquired = await this.lock.tryAcquire();
+    } catch (error) {
+      logger.error('Error acquiring leader lock:', error);
+    }
+    if (acquired) {
+      logger.info(`Instance ${this.options.instanceId} became leader`);
+      await this.stepUp();
+    } else {
+      this.currentLeader = await this.lock.currentHolder().catch(error => {
+        logger.warn('Error reading current leader:', error);
+        return null;
+      });
+    }
+    this.checkedAt = new Date();
+  }
+
+  private async stepUp(): Promise<void> {
+    this.leader = true;
+    this.leaderSince = new Date();
+    for (const service of this.services) {
+      await this.startService(service);
+    }
+    this.emitChange();
+  }
+
+  private async stepDown(): Promise<void> {
+    this.leader = false;
+    this.leaderSince = null;
+    this.currentLeader = null;
+    for (const service of [...this.services].reverse()) {
+      try {
+        await service.stop();
+      } catch (error) {
+        logger.error(`Error stopping leader service ${service.name}:`, error);
+      }
+    }
+    this.emitChange();
+  }
+
+  // 单个服务启动失败不影响其他服务
+  private async startService(service: LeaderService): Promise<void> {
+    try {
+      await service.start();
+    } catch (error) {
+      logger.error(`Error starting leader service ${service.name}:`, error);
+    }
+  }
+
+  private emitChange(): void {
+    const event: LeadershipChangeEvent = {
+      instanceId: this.options.instanceId,
+      isLeader: this.leader,
+      timestamp: new Date()
+    };
+    this.emit('leadershipChange', event);
+  }
+}
+
+let election: LeaderElection | null = null;
+
+/**
+ * 获取进程共享的主节点选举实例
+ */
+export const getLeaderElection = (): LeaderElection => {
+  if (!election) {
+    election = new LeaderElection();
+  }
+  return election;
+};
@@ -0,0 +1,179 @@
+/**
+ * @file 主节点锁
+ * @module core/cluster/leader-lock
+ * @description 主节点选举使用的锁：默认为 Postgres 会话级 advisory lock，持有锁的连接断开时数据库自动释放
+ */
+
+import { Client } from 'pg';
+import { config } from '../../config';
+import logger from '../../utils/logger';
+
+/**
+ * 主节点锁接口
+ */
+export interface LeaderLock {
+  // 尝试获取锁，已被其他实例持有时返回 false
+  tryAcquire(): Promise<boolean>;
+  // 确认仍持有锁（续约），连接已断开或锁已丢失时返回 false
+  renew(): Promise<boolean>;
+  release(): Promise<void>;
+  // 当前持有锁的实例标识，无人持有时为 null
+  currentHolder(): Promise<string | null>;
+}
+
+// application_name 的前缀，用于从 pg_stat_activity 识别持有锁的实例
+const APPLICATION_NAME_PREFIX = 'liqpro:';
+
+export interface PgAdvisoryLeaderLockOptions {
+  instanceId: string;
+  key: number;            // advisory lock 键，需在 32 位整数范围内
+  queryTimeout: number;   // 续约查询超时（毫秒），数据库无响应时视为丢失锁
+}
+
+/**
+ * Postgres advisory lock
+ * 使用独立连接（不经过连接池），锁与该连接的会话绑定；实例退出或网络中断后数据库关闭会话并释放锁，其他实例随即可以获取
+ */
+export class PgAdvisoryLeaderLock implements LeaderLock {
+  private readonly options: PgAdvisoryLeaderLockOptions;
+  private client: Client | null = null;
+  private held = false;
+
+  constructor(options: PgAdvisoryLeaderLockOptions) {
+    this.options = options;
+  }
+
+  async tryAcquire(): Promise<boolean> {
+    const client = await this.connect();
+    const { rows } = await client.query<{ acquired: boolean }>(
+      'SELECT pg_try_advisory_lock($1) AS acquired',
+      [this.options.key]
+    );
+    this.held = rows[0].acquired;
+    return this.held;
+  }
+
+  async renew(): Promise<boolean> {
+    if (!this.client || !this.held) return false;
+    try {
+      const { rows } = await this.client.query<{ held: boolean }>(
+        `SELECT EXISTS (
+           SELECT 1 FROM pg_locks
+           WHERE locktype = 'advisory' AND classid = 0 AND objid = $1 AND objsubid = 1
+             AND pid = pg_backend_pid() AND granted
+         ) AS held`,
+        [this.options.key]
+      );
+      this.held = rows[0].held;
+    } catch (error) {
+      logger.error('Error renewing leader lock:', error);
+      this.held = false;
+      await this.disconnect();
+    }
+    return this.held;
+  }
+
+  async release(): Promise<void> {
+    if (this.client && this.held) {
+      await this.client.query('SELECT pg_advisory_unlock($1)', [this.options.key]).catch(error => {
+        logger.error('Error releasing leader lock:', error);
+      });
+    }
+    this.held = false;
+    await this.disconnect();
+  }
+
+  async currentHolder(): Promise<string | null> {
+    const client = await this.connect();
+    const { rows } = await client.query<{ application_name: string }>(
+      `SELECT a.application_name
+       FROM pg_locks l
+       JOIN pg_stat_activity a ON a.pid = l.pid
+       WHERE l.locktype = 'advisory' AND l.classid = 0 AND l.objid = $1 AND l.objsubid = 1 AND l.granted`,
+      [this.options.key]
+    );
+    if (rows.length === 0) return null;
+    return rows[0].application_name.startsWith(APPLICATION_NAME_PREFIX)
+      ? rows[0].application_name.slice(APPLICATION_NAME_PREFIX.length)
+      : rows[0].application_name;
+  }
+
+  private async connect(): Promise<Client> {
+    if (this.client) return this.client;
+
+    const client = new Client({
+      host: config.database.host,
+      port: config.database.port,
+      database: config.database.name,
+      user: config.database.user,
+      password: config.database.password,
+      application_name: `${APPLICATION_NAME_PREFIX}${this.options.instanceId}`,
+      query_timeout: this.options.queryTimeout,
+      keepAlive: true
+    });
+    // 连接错误在下一次续约时处理
+    client.on('error', error => {
+      logger.error('Leader lock connection error:', error.message);
+      this.held = false;
+    });
+    client.on('end', () => {
+      if (this.client === client) {
+        this.client = null;
+        this.held = false;
+      }
+    });
+
+    await client.connect();
+    this.client = client;
+    return client;
+  }
+
+  private async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      await client.end().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * 进程内锁，无数据库的演示模式只有单个实例，总是获取成功
+ */
+export class MemoryLeaderLock implements LeaderLock {
+  private readonly instanceId: string;
+  private held = false;
+
+  constructor(instanceId: string) {
+    this.instanceId = instanceId;
+  }
+
+  async tryAcquire(): Promise<boolean> {
+    this.held = true;
+    return true;
+  }
+
+  async renew(): Promise<boolean> {
+    return this.held;
+  }
+
+  async release(): Promise<void> {
+    this.held = false;
+  }
+
+  async currentHolder(): Promise<string | null> {
+    return this.held ? this.instanceId : null;
+  }
+}
+
+/**
+ * 按数据仓储模式创建主节点锁
+ */
+export const createLeaderLock = (instanceId: string = config.cluster.instanceId): LeaderLock =>
+  config.dataRepository.mode === 'postgres'
+    ? new PgAdvisoryLeaderLock({
+      instanceId,
+      key: config.cluster.leaderLockKey,
+      queryTimeout: config.cluster.leaseRenewInterval
+    })
+    : new MemoryLeaderLock(instanceId);
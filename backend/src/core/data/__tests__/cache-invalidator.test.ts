@@ -0,0 +1,84 @@
+/**
+ * @file 缓存失效测试
+ * @module core/data/__tests__/cache-invalidator
+ * @description DataManager 保存数据后删除带有对应标签的缓存条目
+ */
+
+import { Cache } from '../../../utils/cache';
+import { CacheInvalidator } from '../cache-invalidator';
+import { CacheKeys, poolListCacheTags } from '../cache-keys';
+import { DataManager } from '../data-manager';
+import { MemoryDataRepository } from '../memory-data-repository';
+import { pool, token } from './fixtures';
+
+// 刷新在事件回调中异步删除条目
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('CacheInvalidator', () => {
+  const cache = Cache.getInstance();
+  let repository: MemoryDataRepository;
+  let invalidator: CacheInvalidator;
+
+  beforeEach(async () => {
+    await cache.clear();
+    repository = new MemoryDataRepository();
+    invalidator = new CacheInvalidator(cache);
+  });
+
+  afterEach(() => {
+    invalidator.stop();
+  });
+
+  afterAll(async () => {
+    await cache.close();
+  });
+
+  it('drops cached pool lists when DataManager saves one of their pools', async () => {
+    const stored = pool('pool-1', { lastUpdate: new Date().toISOString() });
+    await repository.savePoolData(stored);
+    const manager = new DataManager(repository, {
+      fetchPoolData: async () => ({ ...stored, liquidity: { total: '300000' } }),
+      fetchTokenData: async () => null
+    });
+    invalidator.watchDataUpdates(manager);
+    await cache.set(CacheKeys.topPools(), [stored], 60000, { tags: poolListCacheTags([stored]) });
+
+    await manager.refreshPoolData('pool-1');
+    await flush();
+
+    expect(await cache.has(CacheKeys.topPools())).toBe(false);
+  });
+
+  it('drops entries that depend on a refreshed token', async () => {
+    const stored = pool('pool-1');
+    await repository.saveTokenData(token('sol'));
+    const manager = new DataManager(repository, {
+      fetchPoolData: async () => null,
+      fetchTokenData: async () => ({ price: 1.6 })
+    });
+    invalidator.watchDataUpdates(manager);
+    await cache.set(CacheKeys.topPools(), [stored], 60000, { tags: poolListCacheTags([stored]) });
+
+    await manager.refreshTokenData('sol');
+    await flush();
+
+    expect(await cache.has(CacheKeys.topPools())).toBe(false);
+  });
+
+  it('stops invalidating after stop', async () => {
+    const stored = pool('pool-1', { lastUpdate: new Date().toISOString() });
+    await repository.savePoolData(stored);
+    const manager = new DataManager(repository, {
+      fetchPoolData: async () => ({ ...stored, name: 'renamed' }),
+      fetchTokenData: async () => null
+    });
+    invalidator.watchDataUpdates(manager);
+    invalidator.stop();
+    await cache.set(CacheKeys.topPools(), [stored], 60000, { tags: poolListCacheTags([stored]) });
+
+    await manager.refreshPoolData('pool-1');
+    await flush();
+
+    expect(await cache.has(CacheKeys.topPools())).toBe(true);
+  });
+});
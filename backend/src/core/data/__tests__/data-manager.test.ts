@@ -0,0 +1,190 @@
+/**
+ * @file 数据管理器测试
+ * @module core/data/__tests__/data-manager
+ * @description 使用内存仓储和固定返回值的数据源测试刷新、变更检测和隔离区
+ */
+
+import { DataManager } from '../data-manager';
+import { IDataSource } from '../data-source';
+import { DataUpdateEvent, PoolData, TokenInfo } from '../data-types';
+import { MemoryDataRepository } from '../memory-data-repository';
+import { pool, token } from './fixtures';
+
+// 按地址返回预设数据的数据源，未预设的地址视为不存在
+class StubDataSource implements IDataSource {
+  pools = new Map<string, PoolData>();
+  tokens = new Map<string, Partial<TokenInfo>>();
+
+  async fetchPoolData(poolId: string): Promise<PoolData | null> {
+    return this.pools.get(poolId) ?? null;
+  }
+
+  async fetchTokenData(tokenAddress: string): Promise<Partial<TokenInfo> | null> {
+    return this.tokens.get(tokenAddress) ?? null;
+  }
+
+  async listPoolIds(): Promise<string[]> {
+    return Array.from(this.pools.keys());
+  }
+}
+
+const freshPool = (address: string, overrides: Partial<PoolData> = {}): PoolData =>
+  pool(address, { lastUpdate: new Date().toISOString(), ...overrides });
+
+describe('DataManager', () => {
+  let repository: MemoryDataRepository;
+  let source: StubDataSource;
+  let manager: DataManager;
+
+  beforeEach(() => {
+    repository = new MemoryDataRepository();
+    source = new StubDataSource();
+    manager = new DataManager(repository, source, 2);
+  });
+
+  describe('refreshPoolData', () => {
+    it('throws when no data source is configured', async () => {
+      await expect(new DataManager(repository).refreshPoolData('pool-1')).rejects.toThrow('No data source');
+    });
+
+    it('returns missing when the source does not know the pool', async () => {
+      expect(await manager.refreshPoolData('pool-1')).toBe('missing');
+    });
+
+    it('saves a new pool and emits a creation event', async () => {
+      const events: DataUpdateEvent[] = [];
+      manager.subscribeToUpdates(event => events.push(event));
+      source.pools.set('pool-1', freshPool('pool-1'));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('created');
+      expect((await manager.getPoolData('pool-1')).name).toBe('SOL-USDC');
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'POOL_UPDATE', isNew: true, changedFields: [] });
+    });
+
+    it('ignores lastUpdate when comparing with the stored pool', async () => {
+      await repository.savePoolData(freshPool('pool-1', { lastUpdate: new Date(Date.now() - 60000).toISOString() }));
+      source.pools.set('pool-1', freshPool('pool-1'));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('unchanged');
+    });
+
+    it('reports the changed fields of an updated pool', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      source.pools.set('pool-1', freshPool('pool-1', { liquidity: { total: '300000' } }));
+      const events: DataUpdateEvent[] = [];
+      manager.subscribeToUpdates(event => events.push(event));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('updated');
+      expect(events[0].changedFields).toEqual(['liquidity.total']);
+      expect((await manager.getPoolData('pool-1')).liquidity.total).toBe('300000');
+    });
+
+    it('keeps known token decimals and prices when the source only has placeholders', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      source.pools.set('pool-1', freshPool('pool-1', {
+        tokens: { tokenX: token('sol', { decimals: 0, price: 0 }), tokenY: token('usdc', { decimals: 0, price: 0 }) }
+      }));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('unchanged');
+
+      await repository.savePoolData(source.pools.get('pool-1') as PoolData);
+      expect(await repository.getTokenData('sol')).toMatchObject({ decimals: 6, price: 1.5 });
+    });
+
+    it('compares numeric strings by value', async () => {
+      await repository.savePoolData(freshPool('pool-1', { liquidity: { total: '250000.000000000' } }));
+      source.pools.set('pool-1', freshPool('pool-1', { liquidity: { total: '250000' } }));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('unchanged');
+    });
+
+    it('quarantines a pool whose price moved beyond the limit and keeps the stored pool', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      const moved = freshPool('pool-1');
+      moved.parameters = { ...moved.parameters, currentPrice: 300 };
+      source.pools.set('pool-1', moved);
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('quarantined');
+      expect(manager.getQuarantinedRecord('pool-1')?.report.violations[0].rule).toBe('price_sanity');
+      expect((await manager.getPoolData('pool-1')).parameters.currentPrice).toBe(150);
+    });
+  });
+
+  describe('price changes', () => {
+    const movedPool = (price: number): PoolData => {
+      const moved = freshPool('pool-1');
+      moved.parameters = { ...moved.parameters, currentPrice: price };
+      return moved;
+    };
+
+    it('accepts a price change that persists for the configured number of refreshes', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      source.pools.set('pool-1', movedPool(300));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('quarantined');
+      source.pools.set('pool-1', movedPool(310));
+      expect(await manager.refreshPoolData('pool-1')).toBe('quarantined');
+      expect(manager.getQuarantinedRecord('pool-1')?.occurrences).toBe(2);
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('updated');
+      expect((await manager.getPoolData('pool-1')).parameters.currentPrice).toBe(310);
+      expect(manager.getQuarantinedRecord('pool-1')).toBeNull();
+    });
+
+    it('restarts the count when the quarantined prices disagree', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      source.pools.set('pool-1', movedPool(300));
+      await manager.refreshPoolData('pool-1');
+      source.pools.set('pool-1', movedPool(30));
+      await manager.refreshPoolData('pool-1');
+
+      expect(manager.getQuarantinedRecord('pool-1')?.occurrences).toBe(1);
+    });
+
+    it('clears the quarantined record once the data validates again', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      source.pools.set('pool-1', movedPool(300));
+      await manager.refreshPoolData('pool-1');
+      source.pools.set('pool-1', movedPool(150));
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('unchanged');
+      expect(manager.getQuarantinedRecords()).toEqual([]);
+    });
+  });
+
+  describe('refreshTokenData', () => {
+    it('keeps stored fields the source does not return', async () => {
+      await repository.saveTokenData(token('sol', { price: 150 }));
+      source.tokens.set('sol', { price: 160 });
+
+      expect(await manager.refreshTokenData('sol')).toBe('updated');
+      expect(await manager.getTokenInfo('sol')).toEqual(token('sol', { price: 160 }));
+    });
+  });
+
+  describe('runRefreshCycle', () => {
+    it('refreshes every stored pool and counts the outcomes', async () => {
+      await repository.savePoolData(freshPool('pool-1'));
+      await repository.savePoolData(freshPool('pool-2'));
+      await repository.savePoolData(freshPool('pool-3'));
+      source.pools.set('pool-1', freshPool('pool-1', { name: 'renamed' }));
+      source.pools.set('pool-2', freshPool('pool-2'));
+
+      const stats = await manager.runRefreshCycle();
+
+      expect(stats).toMatchObject({ total: 3, updated: 1, unchanged: 1, missing: 1, failed: 0 });
+      expect(manager.getLastCycleStats()).toBe(stats);
+    });
+
+    it('adds the pools listed by the source to an empty repository', async () => {
+      source.pools.set('pool-1', freshPool('pool-1'));
+      source.pools.set('pool-2', freshPool('pool-2'));
+
+      const stats = await manager.runRefreshCycle();
+
+      expect(stats).toMatchObject({ total: 2, created: 2, failed: 0 });
+      expect((await manager.getAllPools()).map(stored => stored.address).sort()).toEqual(['pool-1', 'pool-2']);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * @file 数据模块测试数据
+ * @module core/data/__tests__/fixtures
+ * @description 构造池子和代币测试数据，默认值可按字段覆盖
+ */
+
+import { PoolData, TokenInfo } from '../data-types';
+
+export const token = (mint: string, overrides: Partial<TokenInfo> = {}): TokenInfo => ({
+  mint,
+  reserve: `${mint}-reserve`,
+  amount: 1000,
+  symbol: mint.toUpperCase(),
+  decimals: 6,
+  price: 1.5,
+  ...overrides
+});
+
+export const pool = (address: string, overrides: Partial<PoolData> = {}): PoolData => ({
+  version: 1,
+  id: address,
+  address,
+  name: 'SOL-USDC',
+  tokens: { tokenX: token('sol'), tokenY: token('usdc', { price: 1 }) },
+  fees: { base: '0.25', max: '2.5', protocol: '0.05', today: 12.5, last24h: 30 },
+  volume: { last24h: 15000, cumulative: '900000' },
+  liquidity: { total: '250000' },
+  rewards: { mintX: '', mintY: '', farmApr: 0, farmApy: 0 },
+  yields: { apr: 12, apy: 12.7, fees24hTvl: 0.012 },
+  parameters: { binStep: 10, currentPrice: 150, hide: false, isBlacklisted: false },
+  tags: [],
+  lastUpdate: '2026-10-01T00:00:00.000Z',
+  ...overrides
+});
@@ -0,0 +1,157 @@
+/**
+ * @file PostgreSQL 数据仓储测试
+ * @module core/data/__tests__/pg-data-repository
+ * @description 需要本地 PostgreSQL，通过 TEST_DATABASE_URL 指定；每次运行在独立 schema 中执行迁移，结束后删除
+ */
+
+import { Pool as DbPool } from 'pg';
+import { runMigrations } from '../../../db/migrate';
+import { Cache } from '../../../utils/cache';
+import { DataManager } from '../data-manager';
+import { PgDataRepository, REPOSITORY_CACHE_PREFIX } from '../pg-data-repository';
+import { MarketMetrics } from '../data-types';
+import { pool, token } from './fixtures';
+
+const DATABASE_URL = process.env.TEST_DATABASE_URL;
+const SCHEMA = `test_repo_${process.pid}`;
+
+const describeWithDb = DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('PgDataRepository', () => {
+  let db: DbPool;
+  let repository: PgDataRepository;
+  let cache: Cache;
+
+  beforeAll(async () => {
+    // 在 beforeAll 中创建，跳过测试时不创建缓存的清理定时器
+    cache = Cache.getInstance();
+    const admin = new DbPool({ connectionString: DATABASE_URL });
+    try {
+      // 扩展建在 public 中，测试 schema 通过 search_path 使用
+      await admin.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
+      await admin.query('CREATE EXTENSION IF NOT EXISTS btree_gist');
+      await admin.query(`DROP SCHEMA IF EXISTS ${SCHEMA} CASCADE`);
+      await admin.query(`CREATE SCHEMA ${SCHEMA}`);
+    } finally {
+      await admin.end();
+    }
+
+    db = new DbPool({ connectionString: DATABASE_URL, options: `-c search_path=${SCHEMA},public` });
+    await runMigrations(db);
+    repository = new PgDataRepository(db, undefined, cache);
+  });
+
+  afterAll(async () => {
+    if (db) {
+      await db.query(`DROP SCHEMA IF EXISTS ${SCHEMA} CASCADE`);
+      await db.end();
+    }
+    if (cache) {
+      await cache.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await db.query('TRUNCATE pools, pools_archive, tokens, market_metrics CASCADE');
+    await cache.clear();
+  });
+
+  describe('savePoolData', () => {
+    it('inserts a pool and updates it on conflict, keeping the given lastUpdate', async () => {
+      await repository.savePoolData(pool('pool-1'));
+      await repository.savePoolData(pool('pool-1', {
+        liquidity: { total: '300000' },
+        lastUpdate: '2026-10-02T00:00:00.000Z'
+      }));
+      await cache.clear();
+
+      const saved = await repository.getPoolData('pool-1');
+      expect(Number(saved?.liquidity.total)).toBe(300000);
+      expect(saved?.lastUpdate).toBe('2026-10-02T00:00:00.000Z');
+
+      const { rows } = await db.query('SELECT COUNT(*)::int AS count FROM pools');
+      expect(rows[0].count).toBe(1);
+    });
+
+    it('reads token prices from the tokens table', async () => {
+      await repository.savePoolData(pool('pool-1'));
+      await repository.saveTokenData(token('sol', { price: 160 }));
+
+      const saved = await repository.getPoolData('pool-1');
+      expect(saved?.tokens.tokenX.price).toBe(160);
+    });
+
+    it('does not overwrite known token decimals and prices with placeholders', async () => {
+      await repository.savePoolData(pool('pool-1'));
+      await repository.savePoolData(pool('pool-1', {
+        tokens: { tokenX: token('sol', { decimals: 0, price: 0, amount: 2000 }), tokenY: token('usdc', { price: 1 }) }
+      }));
+      await cache.clear();
+
+      expect(await repository.getTokenData('sol')).toMatchObject({ decimals: 6, price: 1.5, amount: 2000 });
+    });
+
+    it('reports an unchanged pool when DataManager refreshes it with the same raw data', async () => {
+      const raw = pool('pool-1', { lastUpdate: new Date().toISOString() });
+      await repository.savePoolData(raw);
+      await cache.clear();
+      const manager = new DataManager(repository, {
+        fetchPoolData: async () => ({ ...raw, tokens: { tokenX: token('sol', { decimals: 0, price: 0 }), tokenY: token('usdc', { decimals: 0, price: 0 }) } }),
+        fetchTokenData: async () => null
+      });
+
+      expect(await manager.refreshPoolData('pool-1')).toBe('unchanged');
+    });
+  });
+
+  describe('saveMarketMetricsBatch', () => {
+    it('saves all metrics and returns the newest first', async () => {
+      await repository.savePoolData(pool('pool-1'));
+      const metrics: MarketMetrics[] = [0, 1, 2].map(i => ({
+        poolId: 'pool-1',
+        timestamp: new Date(Date.UTC(2026, 9, 1, 0, i)),
+        price: 150 + i,
+        volume: 1000,
+        liquidity: 250000,
+        fees: 10
+      }));
+
+      await repository.saveMarketMetricsBatch(metrics);
+
+      const saved = await repository.getMarketMetrics('pool-1');
+      expect(saved.map(metric => metric.price)).toEqual([152, 151, 150]);
+      expect(saved[0].timestamp).toEqual(metrics[2].timestamp);
+    });
+  });
+
+  describe('archiveData', () => {
+    it('moves pools not updated since the given date to pools_archive and evicts them from the cache', async () => {
+      await repository.savePoolData(pool('old-pool', { lastUpdate: '2026-01-01T00:00:00.000Z' }));
+      await repository.savePoolData(pool('new-pool', { lastUpdate: '2026-10-01T00:00:00.000Z' }));
+      await repository.getAllPoolData();
+
+      await repository.archiveData(new Date('2026-06-01T00:00:00.000Z'));
+
+      const { rows } = await db.query<{ address: string }>('SELECT address FROM pools_archive');
+      expect(rows.map(row => row.address)).toEqual(['old-pool']);
+      expect(await repository.getPoolData('old-pool')).toBeNull();
+      expect((await repository.getAllPoolData()).map(data => data.address)).toEqual(['new-pool']);
+    });
+  });
+
+  describe('invalidateCache', () => {
+    it('drops the cached pool and the pool list', async () => {
+      await repository.savePoolData(pool('pool-1'));
+      await repository.getAllPoolData();
+      await db.query(`UPDATE pools SET name = 'renamed' WHERE address = 'pool-1'`);
+
+      expect((await repository.getPoolData('pool-1'))?.name).toBe('SOL-USDC');
+
+      await repository.invalidateCache('pool:pool-1');
+
+      expect(await cache.has(`${REPOSITORY_CACHE_PREFIX}pools`)).toBe(false);
+      expect((await repository.getPoolData('pool-1'))?.name).toBe('renamed');
+      expect((await repository.getAllPoolData())[0].name).toBe('renamed');
+    });
+  });
+});
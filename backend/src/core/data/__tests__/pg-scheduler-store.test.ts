@@ -0,0 +1,89 @@
+/**
+ * @file PostgreSQL 任务状态存储测试
+ * @module core/data/__tests__/pg-scheduler-store
+ * @description 需要本地 PostgreSQL，通过 TEST_DATABASE_URL 指定；每次运行在独立 schema 中执行迁移，结束后删除
+ */
+
+import { Pool as DbPool } from 'pg';
+import { runMigrations } from '../../../db/migrate';
+import { PgSchedulerStore, TaskState } from '../scheduler-store';
+
+const DATABASE_URL = process.env.TEST_DATABASE_URL;
+const SCHEMA = `test_scheduler_${process.pid}`;
+
+const describeWithDb = DATABASE_URL ? describe : describe.skip;
+
+const state = (overrides: Partial<TaskState> = {}): TaskState => ({
+  taskId: 'task',
+  schedule: 'every 60000ms',
+  paused: false,
+  runRequestedAt: null,
+  lastRun: null,
+  nextRun: new Date('2026-10-01T00:00:00.000Z'),
+  lastSuccess: null,
+  lastError: null,
+  consecutiveFailures: 0,
+  totalRuns: 0,
+  totalFailures: 0,
+  ...overrides
+});
+
+describeWithDb('PgSchedulerStore', () => {
+  let db: DbPool;
+  let store: PgSchedulerStore;
+
+  beforeAll(async () => {
+    const admin = new DbPool({ connectionString: DATABASE_URL });
+    try {
+      await admin.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
+      await admin.query('CREATE EXTENSION IF NOT EXISTS btree_gist');
+      await admin.query(`DROP SCHEMA IF EXISTS ${SCHEMA} CASCADE`);
+      await admin.query(`CREATE SCHEMA ${SCHEMA}`);
+    } finally {
+      await admin.end();
+    }
+
+    db = new DbPool({ connectionString: DATABASE_URL, options: `-c search_path=${SCHEMA},public` });
+    await runMigrations(db);
+    store = new PgSchedulerStore(db);
+  });
+
+  afterAll(async () => {
+    if (db) {
+      await db.query(`DROP SCHEMA IF EXISTS ${SCHEMA} CASCADE`);
+      await db.end();
+    }
+  });
+
+  beforeEach(async () => {
+    await db.query('TRUNCATE scheduler_tasks');
+  });
+
+  it('keeps the stored pause and run request when the task state is saved again', async () => {
+    await store.save(state());
+    await store.setPaused('task', true);
+    await store.requestRun('task');
+
+    await store.save(state({ totalRuns: 1 }));
+
+    const [saved] = await store.loadAll();
+    expect(saved).toMatchObject({ paused: true, totalRuns: 1 });
+    expect(saved.runRequestedAt).toBeInstanceOf(Date);
+  });
+
+  it('returns null for tasks that were never saved', async () => {
+    expect(await store.setPaused('unknown', true)).toBeNull();
+    expect(await store.requestRun('unknown')).toBeNull();
+  });
+
+  it('clears a run request only up to the time it was read', async () => {
+    await store.save(state());
+    const requested = await store.requestRun('task');
+
+    await store.clearRunRequest('task', new Date(requested!.runRequestedAt!.getTime() - 1));
+    expect((await store.loadAll())[0].runRequestedAt).toEqual(requested!.runRequestedAt);
+
+    await store.clearRunRequest('task', requested!.runRequestedAt!);
+    expect((await store.loadAll())[0].runRequestedAt).toBeNull();
+  });
+});
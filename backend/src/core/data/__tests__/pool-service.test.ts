@@ -0,0 +1,50 @@
+/**
+ * @file 池子服务测试
+ * @module core/data/__tests__/pool-service
+ * @description 池子查询在缓存的完整列表上过滤和排序
+ */
+
+import { MeteoraService } from '../../../services/meteora';
+import { Cache } from '../../../utils/cache';
+import { PoolService } from '../pool-service';
+import { PoolData } from '../types/PoolData';
+import { pool } from './fixtures';
+
+const listed = (address: string, volume: number): PoolData => ({
+  ...pool(address),
+  volume: { last24h: volume, cumulative: '0' },
+  bins: []
+});
+
+describe('PoolService', () => {
+  const cache = Cache.getInstance();
+  let getAllPools: jest.Mock<Promise<PoolData[]>, []>;
+  let service: PoolService;
+
+  beforeEach(async () => {
+    await cache.clear();
+    getAllPools = jest.fn(async () => [listed('pool-1', 30000), listed('pool-2', 90000), listed('pool-3', 5000)]);
+    service = new PoolService({ getAllPools } as unknown as MeteoraService, cache);
+  });
+
+  afterAll(async () => {
+    await cache.close();
+  });
+
+  describe('queryPools', () => {
+    it('filters and sorts the pool list', async () => {
+      const page = await service.queryPools({ sortBy: 'volume', order: 'desc' });
+
+      expect(page.items.map(item => item.address)).toEqual(['pool-2', 'pool-1']);
+      expect(page.total).toBe(2);
+    });
+
+    it('serves repeated queries from the cached list', async () => {
+      await service.queryPools();
+      const page = await service.queryPools({ order: 'asc' });
+
+      expect(getAllPools).toHaveBeenCalledTimes(1);
+      expect(page.items.map(item => item.address)).toEqual(['pool-1', 'pool-2']);
+    });
+  });
+});
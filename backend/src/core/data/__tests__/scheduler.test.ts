@@ -0,0 +1,120 @@
+/**
+ * @file 调度器测试
+ * @module core/data/__tests__/scheduler
+ * @description 任务状态按变更顺序保存；管理操作通过任务状态存储在实例之间生效
+ */
+
+import { config } from '../../../config';
+import { Cache } from '../../../utils/cache';
+import { PoolService } from '../pool-service';
+import { PositionMonitor } from '../position-monitor';
+import { DataScheduler, TaskDefinition } from '../scheduler';
+import { MemorySchedulerStore, TaskState } from '../scheduler-store';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// 每个任务的第一次保存比之后的保存慢，未排队时后发的保存会先完成
+class SlowFirstSaveStore extends MemorySchedulerStore {
+  readonly saved: TaskState[] = [];
+  private readonly saving = new Set<string>();
+
+  async save(state: TaskState): Promise<void> {
+    const first = !this.saving.has(state.taskId);
+    this.saving.add(state.taskId);
+    await sleep(first ? 30 : 0);
+    this.saved.push(state);
+    await super.save(state);
+  }
+}
+
+describe('DataScheduler', () => {
+  const poolService = { subscribeToCircuitState: () => () => undefined } as unknown as PoolService;
+  const tickInterval = config.scheduler.tickInterval;
+  const schedulers: DataScheduler[] = [];
+
+  const createScheduler = (store: MemorySchedulerStore): DataScheduler => {
+    const scheduler = new DataScheduler(poolService, {} as PositionMonitor, { store });
+    schedulers.push(scheduler);
+    return scheduler;
+  };
+
+  const task = (execute: TaskDefinition['execute'] = async () => undefined): TaskDefinition => ({
+    id: 'task',
+    name: 'Task',
+    schedule: { interval: 60000 },
+    execute
+  });
+
+  beforeAll(() => {
+    config.scheduler.tickInterval = 10;
+  });
+
+  afterEach(() => {
+    schedulers.splice(0).forEach(scheduler => scheduler.stop());
+  });
+
+  afterAll(async () => {
+    config.scheduler.tickInterval = tickInterval;
+    await Cache.getInstance().close();
+  });
+
+  it('saves the states of a task in the order they changed', async () => {
+    const store = new SlowFirstSaveStore();
+    const scheduler = createScheduler(store);
+    await scheduler.start();
+    scheduler.registerTask(task());
+
+    await scheduler.triggerTask('task');
+    await sleep(60);
+
+    const states = store.saved.filter(state => state.taskId === 'task');
+    expect(states.map(state => state.totalRuns)).toEqual([0, 1, 1]);
+    expect(states.map(state => state.lastSuccess !== null)).toEqual([false, false, true]);
+  });
+
+  it('applies a pause made through an instance that is not scheduling', async () => {
+    const store = new MemorySchedulerStore();
+    const leader = createScheduler(store);
+    const follower = createScheduler(store);
+    await leader.start();
+    leader.registerTask(task());
+    await sleep(20);
+
+    expect((await follower.loadAllTaskStatus()).map(status => status.taskId)).toContain('task');
+    expect(await follower.pauseTask('task')).toMatchObject({ taskId: 'task', paused: true });
+    await sleep(50);
+
+    expect(leader.getTaskStatus('task')?.paused).toBe(true);
+    expect(await follower.pauseTask('unknown')).toBeNull();
+  });
+
+  it('keeps the stored pause when the scheduling instance saves the task', async () => {
+    const store = new MemorySchedulerStore();
+    const scheduler = createScheduler(store);
+    await scheduler.start();
+    scheduler.registerTask(task());
+    await sleep(20);
+    await store.setPaused('task', true);
+
+    await scheduler.triggerTask('task');
+    await sleep(20);
+
+    expect((await store.loadAll()).find(state => state.taskId === 'task')?.paused).toBe(true);
+  });
+
+  it('runs a task requested through an instance that is not scheduling', async () => {
+    const store = new MemorySchedulerStore();
+    const leader = createScheduler(store);
+    const follower = createScheduler(store);
+    const execute = jest.fn(async () => undefined);
+    await leader.start();
+    leader.registerTask(task(execute));
+    await sleep(20);
+
+    expect((await follower.requestRun('task'))?.runRequestedAt).toBeInstanceOf(Date);
+    await sleep(50);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(await follower.loadTaskStatus('task')).toMatchObject({ runRequestedAt: null, totalRuns: 1 });
+  });
+});
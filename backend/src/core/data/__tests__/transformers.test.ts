@@ -0,0 +1,102 @@
+/**
+ * @file 数据转换测试
+ * @module core/data/__tests__/transformers
+ * @description 各数据格式之间往返转换后数据不变
+ */
+
+import { POOL_MODEL_VERSION, PoolSummary } from '@liqpro/shared/src/types/poolModel';
+import { meteoraPairSchema } from '../../../services/schemas/meteora-pair.schema';
+import { MarketMetrics } from '../data-types';
+import { DataTransformers } from '../transformers';
+import { pool } from './fixtures';
+
+// pair/all 接口的原始数据，部分数值字段以字符串返回
+const PAIR_PAYLOAD = {
+  address: '5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6',
+  name: 'SOL-USDC',
+  mint_x: 'So11111111111111111111111111111111111111112',
+  mint_y: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  reserve_x: 'EYj9xKw6ZszwpyNibHY7JD5o3QgTVrSdcBp1fMJhrR9o',
+  reserve_y: 'CoaxzEh8p5YyGLcj36Eo3cUThVJxeKCs7qvLAGDYwBcz',
+  reserve_x_amount: 1520.5,
+  reserve_y_amount: '228075.25',
+  bin_step: 10,
+  base_fee_percentage: '0.1',
+  max_fee_percentage: '2.5',
+  protocol_fee_percentage: '0.05',
+  liquidity: '456151.3',
+  fees_24h: 820.4,
+  today_fees: 310.2,
+  trade_volume_24h: 820400,
+  cumulative_trade_volume: '98000000.5',
+  current_price: '150.02',
+  apr: 0.18,
+  apy: 0.2,
+  fee_tvl_ratio: { min_30: 0, hour_1: 0.01, hour_2: 0.02, hour_4: 0.04, hour_12: 0.1, hour_24: 0.18 },
+  tags: ['featured']
+};
+
+describe('DataTransformers', () => {
+  describe('pool rows', () => {
+    it('round-trips a Meteora pair through the pools table row', () => {
+      const pair = meteoraPairSchema.parse(PAIR_PAYLOAD);
+      const summary = DataTransformers.toPoolSummary(
+        DataTransformers.fromMeteoraPair(pair, new Date('2026-10-01T00:00:00.000Z'))
+      );
+
+      const row = DataTransformers.toPoolRow(summary);
+
+      expect(row.current_price).toBe('150.02');
+      expect(DataTransformers.fromPoolRow(row)).toEqual(summary);
+    });
+
+    it('rejects rows written by an unknown model version', () => {
+      const row = { ...DataTransformers.toPoolRow(pool('pool-1')), model_version: POOL_MODEL_VERSION + 1 };
+
+      expect(() => DataTransformers.fromPoolRow(row)).toThrow('Unsupported pool model version');
+    });
+  });
+
+  describe('pool responses', () => {
+    it('round-trips a pool model through the API response', () => {
+      const model = { ...pool('pool-1'), bins: [] };
+      const response = DataTransformers.toPoolResponse(model);
+
+      expect(response.parameters.currentPrice).toBe('150');
+      expect(DataTransformers.fromPoolResponse(response)).toEqual(model);
+    });
+  });
+
+  describe('upgradePoolSummary', () => {
+    it('upgrades an unversioned summary to the current model version', () => {
+      const yields = { apr: 12, fees24hTvl: 0.012 } as PoolSummary['yields'];
+      const legacy: Omit<PoolSummary, 'version'> & { version?: number } = { ...pool('pool-1'), yields };
+      delete legacy.version;
+
+      const upgraded = DataTransformers.upgradePoolSummary(legacy);
+
+      expect(upgraded).toEqual({ ...pool('pool-1'), yields: { ...yields, apy: 0 } });
+    });
+
+    it('keeps a current summary and rejects an unknown version', () => {
+      expect(DataTransformers.upgradePoolSummary(pool('pool-1'))).toEqual(pool('pool-1'));
+      expect(() => DataTransformers.upgradePoolSummary({ ...pool('pool-1'), version: POOL_MODEL_VERSION + 1 }))
+        .toThrow('Unsupported pool model version');
+    });
+  });
+
+  describe('market metrics rows', () => {
+    it('round-trips market metrics through the market_metrics row', () => {
+      const metrics: MarketMetrics = {
+        poolId: 'pool-1',
+        timestamp: new Date('2026-10-01T00:05:00.000Z'),
+        price: 150.02,
+        volume: 820400,
+        liquidity: 456151.3,
+        fees: 820.4
+      };
+
+      expect(DataTransformers.toMarketMetrics(DataTransformers.fromMarketMetrics(metrics))).toEqual(metrics);
+    });
+  });
+});
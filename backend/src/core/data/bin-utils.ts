@@ -0,0 +1,135 @@
+/**
+ * @file Bin 工具类
+ * @module core/data/bin-utils
+ * @description 以活跃 bin 为中心按价格区间或 bin 数量截取流动性分布，并汇总截取范围内的代币数量和 USD 价值
+ */
+
+import { Bin } from './types/PoolData';
+
+/**
+ * bin 范围汇总
+ */
+export interface BinRangeSummary {
+  binCount: number;
+  lowerBinId?: number;
+  upperBinId?: number;
+  amountX: number;   // tokenX 总数量
+  amountY: number;   // tokenY 总数量
+  valueUsd: number;  // 总 USD 价值
+}
+
+/**
+ * Bin 工具类
+ * 所有方法都不修改传入的数组，返回结果按 binId 升序排列
+ */
+export class BinUtils {
+  /**
+   * 获取活跃 bin
+   * @param bins - bin 列表
+   * @returns 活跃 bin，不存在时返回 undefined
+   */
+  static getActiveBin(bins: Bin[]): Bin | undefined {
+    return bins.find(bin => bin.isActive);
+  }
+
+  /**
+   * 截取活跃 bin 两侧各若干个 bin
+   * @param bins - bin 列表
+   * @param binsPerSide - 每侧 bin 数量
+   * @param activeBinId - 活跃 bin，默认取 isActive 标记的 bin
+   * @returns 截取的 bin 列表，找不到活跃 bin 时返回空数组
+   */
+  static sliceByBinCount(bins: Bin[], binsPerSide: number, activeBinId?: number): Bin[] {
+    if (binsPerSide < 0) {
+      throw new Error('Invalid binsPerSide: must be non-negative');
+    }
+    const center = activeBinId ?? BinUtils.activeBinId(bins);
+    if (center === undefined) return [];
+
+    return BinUtils.sortByBinId(
+      bins.filter(bin => Math.abs(Number(bin.binId) - center) <= binsPerSide)
+    );
+  }
+
+  /**
+   * 截取价格区间内的 bin
+   * @param bins - bin 列表
+   * @param lowerPrice - 价格下限（含）
+   * @param upperPrice - 价格上限（含）
+   * @returns 截取的 bin 列表
+   */
+  static sliceByPriceRange(bins: Bin[], lowerPrice: number, upperPrice: number): Bin[] {
+    if (lowerPrice > upperPrice) {
+      throw new Error('Invalid price range: lowerPrice must not exceed upperPrice');
+    }
+    return BinUtils.sortByBinId(
+      bins.filter(bin => {
+        const price = parseFloat(bin.price);
+        return price >= lowerPrice && price <= upperPrice;
+      })
+    );
+  }
+
+  /**
+   * 截取活跃 bin 价格上下一定比例内的 bin
+   * @param bins - bin 列表
+   * @param percent - 价格偏离比例（0.05 表示 ±5%）
+   * @returns 截取的 bin 列表，找不到活跃 bin 时返回空数组
+   */
+  static sliceByPricePercent(bins: Bin[], percent: number): Bin[] {
+    if (percent < 0) {
+      throw new Error('Invalid percent: must be non-negative');
+    }
+    const activeBin = BinUtils.getActiveBin(bins);
+    if (!activeBin) return [];
+
+    const activePrice = parseFloat(activeBin.price);
+    return BinUtils.sliceByPriceRange(bins, activePrice * (1 - percent), activePrice * (1 + percent));
+  }
+
+  /**
+   * 汇总 bin 的代币数量和 USD 价值
+   * @param bins - bin 列表
+   * @returns 汇总结果
+   */
+  static summarize(bins: Bin[]): BinRangeSummary {
+    const ids = bins.map(bin => Number(bin.binId));
+    return bins.reduce<BinRangeSummary>(
+      (summary, bin) => ({
+        ...summary,
+        amountX: summary.amountX + parseFloat(bin.amountX || '0'),
+        amountY: summary.amountY + parseFloat(bin.amountY || '0'),
+        valueUsd: summary.valueUsd + parseFloat(bin.totalLiquidity || '0')
+      }),
+      {
+        binCount: bins.length,
+        lowerBinId: ids.length > 0 ? Math.min(...ids) : undefined,
+        upperBinId: ids.length > 0 ? Math.max(...ids) : undefined,
+        amountX: 0,
+        amountY: 0,
+        valueUsd: 0
+      }
+    );
+  }
+
+  /**
+   * 计算部分 bin 占全部流动性的比例
+   * @param subset - 部分 bin
+   * @param bins - 全部 bin
+   * @returns USD 价值占比（0-1）
+   */
+  static liquidityShare(subset: Bin[], bins: Bin[]): number {
+    const total = BinUtils.summarize(bins).valueUsd;
+    if (total === 0) return 0;
+    return BinUtils.summarize(subset).valueUsd / total;
+  }
+
+  private static activeBinId(bins: Bin[]): number | undefined {
+    const activeBin = BinUtils.getActiveBin(bins);
+    return activeBin ? Number(activeBin.binId) : undefined;
+  }
+
+  private static sortByBinId(bins: Bin[]): Bin[] {
+    return [...bins].sort((a, b) => Number(a.binId) - Number(b.binId));
+  }
+}
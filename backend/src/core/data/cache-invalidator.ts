@@ -0,0 +1,92 @@
+/**
+ * @file 缓存失效
+ * @module core/data/cache-invalidator
+ * @description 订阅 DataManager 的数据更新事件和 PositionMonitor 的持仓更新事件，按标签删除依赖变化数据的缓存条目
+ */
+
+import { Cache } from '../../utils/cache';
+import { CacheTags } from './cache-keys';
+import { DataUpdateEvent, PoolData, TokenInfo } from './data-types';
+import { PositionUpdateEvent } from './position-monitor';
+
+interface DataUpdateSource {
+  subscribeToUpdates(callback: (event: DataUpdateEvent) => void): () => void;
+}
+
+interface PositionUpdateSource {
+  subscribeToUpdates(callback: (event: PositionUpdateEvent) => void): () => void;
+}
+
+export class CacheInvalidator {
+  private readonly cache: Cache;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(cache: Cache = Cache.getInstance()) {
+    this.cache = cache;
+  }
+
+  /**
+   * 池子或代币数据保存后，删除带有对应池子/代币标签的条目
+   * @param source - DataManager 或其他实现 IDataService 的数据服务
+   * @returns 取消订阅函数
+   */
+  watchDataUpdates(source: DataUpdateSource): () => void {
+    return this.track(source.subscribeToUpdates(event => {
+      this.run(this.tagsForDataUpdate(event));
+    }));
+  }
+
+  /**
+   * 持仓池子数据变化后，删除依赖该池子和该 Agent 持仓的条目
+   * @param monitor - PositionMonitor
+   * @returns 取消订阅函数
+   */
+  watchPositionUpdates(monitor: PositionUpdateSource): () => void {
+    return this.track(monitor.subscribeToUpdates(event => {
+      this.run([CacheTags.pool(event.poolAddress), CacheTags.agent(event.agentAddress)]);
+    }));
+  }
+
+  /**
+   * 按标签删除条目
+   * @returns 删除的条目数
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    const counts = await Promise.all(tags.map(tag => this.cache.invalidateByTag(tag)));
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  // 取消所有订阅
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  // 市场指标不在应用缓存中，其更新不影响缓存条目
+  private tagsForDataUpdate(event: DataUpdateEvent): string[] {
+    switch (event.type) {
+      case 'POOL_UPDATE':
+        return [CacheTags.pool((event.data as PoolData).address)];
+      case 'TOKEN_UPDATE':
+        return [CacheTags.token((event.data as TokenInfo).mint)];
+      default:
+        return [];
+    }
+  }
+
+  // 事件回调是同步的，失效失败只记录警告，条目按有效期自然过期
+  private run(tags: string[]): void {
+    if (tags.length === 0) return;
+    this.invalidateTags(tags).catch(error => {
+      console.warn(`Cache invalidation failed for tags ${tags.join(', ')}:`, error);
+    });
+  }
+
+  private track(unsubscribe: () => void): () => void {
+    this.unsubscribers.push(unsubscribe);
+    return () => {
+      unsubscribe();
+      this.unsubscribers = this.unsubscribers.filter(item => item !== unsubscribe);
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @file 应用缓存键和失效标签
+ * @module core/data/cache-keys
+ * @description 集中定义池子、持仓等缓存条目的键和标签，数据更新时由 CacheInvalidator 按标签删除依赖条目
+ */
+
+import { PoolData } from './data-types';
+
+/**
+ * 缓存键，格式为 <前缀>:<id>，前缀用于缓存统计
+ */
+export const CacheKeys = {
+  topPools: (): string => 'top_pools',
+  allPools: (): string => 'all_pools',
+  agentPositions: (agentAddress: string): string => `agent_positions:${agentAddress}`
+};
+
+/**
+ * 失效标签，标记缓存条目依赖的数据
+ */
+export const CacheTags = {
+  pool: (address: string): string => `pool:${address}`,
+  token: (mint: string): string => `token:${mint}`,
+  agent: (agentAddress: string): string => `agent:${agentAddress}`
+};
+
+/**
+ * 包含池子数据的条目依赖池子本身及其两个代币（池子数据中带有代币价格）
+ */
+export const poolCacheTags = (pool: PoolData): string[] => [
+  CacheTags.pool(pool.address),
+  CacheTags.token(pool.tokens.tokenX.mint),
+  CacheTags.token(pool.tokens.tokenY.mint)
+];
+
+/**
+ * 池子列表依赖列表中的每个池子
+ */
+export const poolListCacheTags = (pools: PoolData[]): string[] =>
+  Array.from(new Set(pools.flatMap(poolCacheTags)));
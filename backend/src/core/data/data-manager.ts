@@ -1,16 +1,53 @@
-import { PublicKey } from '@solana/web3.js';
 import { IDataService } from './data-service';
 import { IDataRepository } from './data-repository';
-import { PoolData, TokenInfo, MarketMetrics, DataQueryOptions, DataUpdateEvent } from './data-types';
+import { IDataSource } from './data-source';
+import { DataUtils } from './data-utils';
+import { DataValidator } from './data-validator';
+import { DataTransformers } from './transformers';
+import {
+  PoolData,
+  TokenInfo,
+  MarketMetrics,
+  DataQueryOptions,
+  DataUpdateEvent,
+  RefreshOutcome,
+  RefreshCycleStats,
+  ValidationReport,
+  QuarantinedRecord
+} from './data-types';
 import { EventEmitter } from 'events';
+import { config } from '../../config';
+
+// 每次拉取都会变化、不代表数据变化的字段
+const IGNORED_FIELDS = ['lastUpdate'];
 
 export class DataManager extends EventEmitter implements IDataService {
   private repository: IDataRepository;
+  private source: IDataSource | null;
+  private readonly refreshConcurrency: number;
+  private readonly validator: DataValidator;
+  private quarantine: Map<string, QuarantinedRecord> = new Map();
   private updateInterval: NodeJS.Timeout | null = null;
+  private cycleRunning = false;
+  private lastCycleStats: RefreshCycleStats | null = null;
 
-  constructor(repository: IDataRepository) {
+  /**
+   * @param repository - 数据仓储
+   * @param source - 外部数据源，不提供时刷新方法会抛出错误
+   * @param refreshConcurrency - 一轮刷新中同时刷新的池子数量上限
+   * @param validator - 保存前使用的数据验证器
+   */
+  constructor(
+    repository: IDataRepository,
+    source: IDataSource | null = null,
+    refreshConcurrency: number = config.dataManager.refreshConcurrency,
+    validator: DataValidator = new DataValidator()
+  ) {
     super();
     this.repository = repository;
+    this.source = source;
+    this.refreshConcurrency = Math.max(1, refreshConcurrency);
+    this.validator = validator;
   }
 
   // 池子数据相关实现
@@ -24,9 +61,9 @@ export class DataManager extends EventEmitter implements IDataService {
 
   async getPoolsByToken(tokenAddress: string): Promise<PoolData[]> {
     const pools = await this.repository.getAllPoolData();
-    return pools.filter(pool => 
-      pool.tokenA.address.equals(new PublicKey(tokenAddress)) ||
-      pool.tokenB.address.equals(new PublicKey(tokenAddress))
+    return pools.filter(pool =>
+      pool.tokens.tokenX.mint === tokenAddress ||
+      pool.tokens.tokenY.mint === tokenAddress
     );
   }
 
@@ -67,53 +104,272 @@ export class DataManager extends EventEmitter implements IDataService {
     return () => this.off('dataUpdate', callback);
   }
 
-  async refreshPoolData(poolId: string): Promise<void> {
-    // TODO: 实现从外部API获取最新池子数据
-    const poolData = await this.getPoolData(poolId);
-    await this.repository.savePoolData(poolData);
-    this.emit('dataUpdate', {
-      type: 'POOL_UPDATE',
-      data: poolData,
-      timestamp: new Date()
+  /**
+   * 从数据源拉取池子最新数据，与仓储中的数据比较，有变化时保存并发出更新事件
+   * 验证失败的数据不保存，放入隔离区
+   * @param poolId - 池子地址
+   * @returns 刷新结果
+   */
+  async refreshPoolData(poolId: string): Promise<RefreshOutcome> {
+    const fetched = await this.requireSource().fetchPoolData(poolId);
+    if (!fetched) return 'missing';
+
+    const stored = await this.repository.getPoolData(poolId);
+    // 数据源未提供的代币精度和价格沿用仓储中的值，不算作变化
+    const fresh: PoolData = stored
+      ? {
+          ...fetched,
+          tokens: {
+            tokenX: DataTransformers.mergePoolToken(fetched.tokens.tokenX, stored.tokens.tokenX),
+            tokenY: DataTransformers.mergePoolToken(fetched.tokens.tokenY, stored.tokens.tokenY)
+          }
+        }
+      : fetched;
+    const report = await this.validatePoolData(fresh, stored);
+    if (!this.passesValidation('POOL_UPDATE', poolId, fresh, report, previous => this.validator.validatePool(fresh, previous as PoolData))) {
+      return 'quarantined';
+    }
+    return this.persistIfChanged('POOL_UPDATE', stored, fresh, data => this.repository.savePoolData(data));
+  }
+
+  /**
+   * 从数据源拉取代币最新数据，数据源返回的字段覆盖仓储中保存的字段
+   * 验证失败的数据不保存，放入隔离区
+   * @param tokenAddress - 代币地址
+   * @returns 刷新结果
+   */
+  async refreshTokenData(tokenAddress: string): Promise<RefreshOutcome> {
+    const fresh = await this.requireSource().fetchTokenData(tokenAddress);
+    if (!fresh) return 'missing';
+
+    const stored = await this.repository.getTokenData(tokenAddress);
+    const merged: TokenInfo = {
+      ...(stored ?? { mint: tokenAddress, reserve: '', amount: 0, symbol: '', decimals: 0, price: 0 }),
+      ...fresh,
+      mint: tokenAddress
+    };
+    const report = await this.validateTokenData(merged, stored);
+    if (!this.passesValidation('TOKEN_UPDATE', tokenAddress, merged, report, previous => this.validator.validateToken(merged, previous as TokenInfo))) {
+      return 'quarantined';
+    }
+    return this.persistIfChanged('TOKEN_UPDATE', stored, merged, data => this.repository.saveTokenData(data));
+  }
+
+  /**
+   * 刷新仓储中的全部池子和数据源列出的池子，同时刷新的数量不超过并发上限
+   * 数据源列出的新池子在本轮中加入仓储，空仓储也能开始刷新
+   * @returns 本轮统计
+   */
+  async runRefreshCycle(): Promise<RefreshCycleStats> {
+    const startedAt = new Date();
+    const stored = await this.getAllPools();
+    const listed = this.source?.listPoolIds ? await this.source.listPoolIds() : [];
+    const poolIds = Array.from(new Set([...stored.map(pool => pool.address), ...listed]));
+    const stats: RefreshCycleStats = {
+      startedAt,
+      duration: 0,
+      total: poolIds.length,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      missing: 0,
+      quarantined: 0,
+      failed: 0,
+      errors: []
+    };
+
+    await this.forEachConcurrent(poolIds, async poolId => {
+      try {
+        const outcome = await this.refreshPoolData(poolId);
+        stats[outcome]++;
+      } catch (error) {
+        stats.failed++;
+        stats.errors.push({
+          poolId,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
     });
+
+    stats.duration = Date.now() - startedAt.getTime();
+    this.lastCycleStats = stats;
+    this.emit('refreshCycle', stats);
+    return stats;
+  }
+
+  // 最近一轮刷新的统计
+  getLastCycleStats(): RefreshCycleStats | null {
+    return this.lastCycleStats;
+  }
+
+  // 订阅每轮刷新的统计
+  subscribeToRefreshCycles(callback: (stats: RefreshCycleStats) => void): () => void {
+    this.on('refreshCycle', callback);
+    return () => this.off('refreshCycle', callback);
+  }
+
+  /**
+   * 隔离区中的记录，按隔离时间从早到晚排列
+   */
+  getQuarantinedRecords(): QuarantinedRecord[] {
+    return Array.from(this.quarantine.values());
+  }
+
+  getQuarantinedRecord(id: string): QuarantinedRecord | null {
+    return this.quarantine.get(id) ?? null;
+  }
+
+  /**
+   * 检查完成后从隔离区移除记录，记录不会被保存，下一轮刷新会重新验证（价格变化的连续轮数重新计算）
+   * @returns 是否存在该记录
+   */
+  releaseQuarantined(id: string): boolean {
+    return this.quarantine.delete(id);
   }
 
-  async refreshTokenData(tokenAddress: string): Promise<void> {
-    // TODO: 实现从外部API获取最新代币数据
-    const tokenData = await this.getTokenInfo(tokenAddress);
-    await this.repository.saveTokenData(tokenData);
-    this.emit('dataUpdate', {
-      type: 'TOKEN_UPDATE',
-      data: tokenData,
+  clearQuarantine(): void {
+    this.quarantine.clear();
+  }
+
+  // 订阅新隔离的记录
+  subscribeToQuarantine(callback: (record: QuarantinedRecord) => void): () => void {
+    this.on('quarantine', callback);
+    return () => this.off('quarantine', callback);
+  }
+
+  /**
+   * 验证失败的数据放入隔离区；验证通过后移除同一记录的隔离
+   * 只有价格相对仓储快照变化超出上限、且与隔离中的数据价格一致时，连续轮数累加，
+   * 达到 priceConfirmations 后认为价格确实发生了变化，数据照常保存
+   * @param recheck - 以隔离中的数据作为上一次快照重新验证
+   * @returns 数据是否可以保存
+   */
+  private passesValidation(
+    type: QuarantinedRecord['type'],
+    id: string,
+    data: QuarantinedRecord['data'],
+    report: ValidationReport,
+    recheck: (previous: QuarantinedRecord['data']) => ValidationReport
+  ): boolean {
+    const previous = this.quarantine.get(id);
+    if (report.valid) {
+      this.quarantine.delete(id);
+      return true;
+    }
+
+    const onlyPriceChanged = (checked: ValidationReport): boolean =>
+      checked.violations.every(v => v.rule === 'price_sanity');
+    const consistent = !!previous && onlyPriceChanged(report) && onlyPriceChanged(previous.report) &&
+      !recheck(previous.data).violations.some(v => v.rule === 'price_sanity');
+    const occurrences = consistent ? previous.occurrences + 1 : 1;
+
+    if (occurrences >= config.dataManager.validation.priceConfirmations) {
+      console.warn(`Accepting ${type} ${id}: price change persisted for ${occurrences} refreshes`);
+      this.quarantine.delete(id);
+      return true;
+    }
+    this.quarantineRecord(type, id, data, report, occurrences);
+    return false;
+  }
+
+  // 同一记录只保留最近一次的验证结果，超出上限时丢弃最早的记录
+  private quarantineRecord(
+    type: QuarantinedRecord['type'],
+    id: string,
+    data: QuarantinedRecord['data'],
+    report: ValidationReport,
+    occurrences: number
+  ): void {
+    const record: QuarantinedRecord = { type, id, data, report, quarantinedAt: new Date(), occurrences };
+    this.quarantine.delete(id);
+    this.quarantine.set(id, record);
+    while (this.quarantine.size > config.dataManager.validation.quarantineLimit) {
+      const oldest = this.quarantine.keys().next().value as string;
+      this.quarantine.delete(oldest);
+    }
+
+    console.warn(`Quarantined ${type} ${id}:`, report.violations.map(v => v.message).join('; '));
+    this.emit('quarantine', record);
+  }
+
+  private async persistIfChanged<T extends PoolData | TokenInfo>(
+    type: 'POOL_UPDATE' | 'TOKEN_UPDATE',
+    stored: T | null,
+    fresh: T,
+    save: (data: T) => Promise<void>
+  ): Promise<RefreshOutcome> {
+    // 仓储读出的数值可能是 DECIMAL 字符串，按数值比较
+    const changedFields = stored
+      ? DataUtils.diffFields(DataUtils.normalizeNumbers(stored), DataUtils.normalizeNumbers(fresh), IGNORED_FIELDS)
+      : [];
+    if (stored && changedFields.length === 0) return 'unchanged';
+
+    await save(fresh);
+    const event: DataUpdateEvent = {
+      type,
+      data: fresh,
+      changedFields,
+      isNew: !stored,
       timestamp: new Date()
+    };
+    this.emit('dataUpdate', event);
+    return stored ? 'updated' : 'created';
+  }
+
+  private requireSource(): IDataSource {
+    if (!this.source) {
+      throw new Error('No data source configured for DataManager');
+    }
+    return this.source;
+  }
+
+  private async forEachConcurrent<T>(items: T[], handler: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(this.refreshConcurrency, items.length) }, async () => {
+      while (next < items.length) {
+        await handler(items[next++]);
+      }
     });
+    await Promise.all(workers);
   }
 
-  // 数据验证相关实现
-  async validatePoolData(data: PoolData): Promise<boolean> {
-    // TODO: 实现池子数据验证逻辑
-    return true;
+  // 数据验证相关实现，未提供上一次快照时从仓储读取
+  async validatePoolData(data: PoolData, previous?: PoolData | null): Promise<ValidationReport> {
+    const snapshot = previous !== undefined ? previous : await this.repository.getPoolData(data.address);
+    return this.validator.validatePool(data, snapshot);
   }
 
-  async validateTokenData(data: TokenInfo): Promise<boolean> {
-    // TODO: 实现代币数据验证逻辑
-    return true;
+  async validateTokenData(data: TokenInfo, previous?: TokenInfo | null): Promise<ValidationReport> {
+    const snapshot = previous !== undefined ? previous : await this.repository.getTokenData(data.mint);
+    return this.validator.validateToken(data, snapshot);
   }
 
-  async validateMetricsData(data: MarketMetrics): Promise<boolean> {
-    // TODO: 实现市场指标数据验证逻辑
-    return true;
+  async validateMetricsData(data: MarketMetrics, previous?: MarketMetrics | null): Promise<ValidationReport> {
+    let snapshot = previous;
+    if (snapshot === undefined) {
+      const [latest] = await this.repository.getMarketMetrics(data.poolId, { limit: 1 });
+      snapshot = latest ?? null;
+    }
+    return this.validator.validateMetrics(data, snapshot);
   }
 
-  // 启动数据更新服务
-  startUpdateService(interval: number = 60000): void {
+  // 启动数据更新服务，上一轮未结束时跳过本轮
+  startUpdateService(interval: number = config.dataManager.updateInterval): void {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
     }
     this.updateInterval = setInterval(async () => {
-      const pools = await this.getAllPools();
-      for (const pool of pools) {
-        await this.refreshPoolData(pool.id);
+      if (this.cycleRunning) {
+        console.warn('Previous refresh cycle still running, skipping');
+        return;
+      }
+      this.cycleRunning = true;
+      try {
+        await this.runRefreshCycle();
+      } catch (error) {
+        console.error('Error running refresh cycle:', error);
+      } finally {
+        this.cycleRunning = false;
       }
     }, interval);
   }
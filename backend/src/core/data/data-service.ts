@@ -1,4 +1,12 @@
-import { PoolData, TokenInfo, MarketMetrics, DataQueryOptions, DataUpdateEvent } from './data-types';
+import {
+  PoolData,
+  TokenInfo,
+  MarketMetrics,
+  DataQueryOptions,
+  DataUpdateEvent,
+  RefreshOutcome,
+  ValidationReport
+} from './data-types';
 
 export interface IDataService {
   // 池子数据相关
@@ -16,11 +24,11 @@ export interface IDataService {
   
   // 数据更新相关
   subscribeToUpdates(callback: (event: DataUpdateEvent) => void): () => void;
-  refreshPoolData(poolId: string): Promise<void>;
-  refreshTokenData(tokenAddress: string): Promise<void>;
+  refreshPoolData(poolId: string): Promise<RefreshOutcome>;
+  refreshTokenData(tokenAddress: string): Promise<RefreshOutcome>;
   
   // 数据验证相关
-  validatePoolData(data: PoolData): Promise<boolean>;
-  validateTokenData(data: TokenInfo): Promise<boolean>;
-  validateMetricsData(data: MarketMetrics): Promise<boolean>;
+  validatePoolData(data: PoolData, previous?: PoolData | null): Promise<ValidationReport>;
+  validateTokenData(data: TokenInfo, previous?: TokenInfo | null): Promise<ValidationReport>;
+  validateMetricsData(data: MarketMetrics, previous?: MarketMetrics | null): Promise<ValidationReport>;
 } 
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { PoolData, TokenInfo } from './data-types';
+
+/**
+ * 外部数据源接口
+ * DataManager 从数据源拉取最新数据，与仓储中保存的数据比较后再写入
+ */
+export interface IDataSource {
+  // 获取池子最新数据，池子不存在时返回 null
+  fetchPoolData(poolId: string): Promise<PoolData | null>;
+
+  // 获取代币最新数据，返回的字段覆盖仓储中保存的同名字段（如只返回价格时保留储备信息）
+  fetchTokenData(tokenAddress: string): Promise<Partial<TokenInfo> | null>;
+
+  // 数据源当前提供的池子地址，DataManager 的每轮刷新把仓储中尚不存在的池子加入仓储；不提供时只刷新仓储中已有的池子
+  listPoolIds?(): Promise<string[]>;
+}
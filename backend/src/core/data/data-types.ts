@@ -4,76 +4,23 @@
  * @description 定义数据与监控模块所需的所有接口和类型
  */
 
-import { PublicKey } from '@solana/web3.js';
+import { PoolSummary, TokenModel, TimeSeriesData as PoolTimeSeriesData } from '@liqpro/shared/src/types/poolModel';
 
 /**
  * 代币信息接口
  */
-export interface TokenInfo {
-  mint: string;           // 代币合约地址
-  reserve: string;        // 储备账户地址
-  amount: number;         // 当前储备量
-  symbol: string;         // 代币符号
-  decimals: number;       // 代币精度
-  price: number;         // 代币价格
-}
+export type TokenInfo = TokenModel;
 
 /**
  * 时间序列数据接口
  */
-export interface TimeSeriesData {
-  min_30: number;        // 30分钟数据
-  hour_1: number;        // 1小时数据
-  hour_2: number;        // 2小时数据
-  hour_4: number;        // 4小时数据
-  hour_12: number;       // 12小时数据
-  hour_24: number;       // 24小时数据
-}
+export type TimeSeriesData = PoolTimeSeriesData;
 
 /**
  * 池子数据接口
+ * 仓储保存的池子汇总数据，完整模型（含bin分布）见 shared 中的 PoolModel
  */
-export interface PoolData {
-  id: string;
-  address: string;
-  name: string;
-  tokens: {
-    tokenX: TokenInfo;
-    tokenY: TokenInfo;
-  };
-  fees: {
-    base: string;
-    max: string;
-    protocol: string;
-    today: number;
-    last24h: number;
-  };
-  volume: {
-    last24h: number;
-    cumulative: string;
-  };
-  liquidity: {
-    total: string;
-  };
-  rewards: {
-    mintX: string;
-    mintY: string;
-    farmApr: number;
-    farmApy: number;
-  };
-  yields: {
-    apr: number;
-    fees24hTvl: number;
-  };
-  parameters: {
-    binStep: number;
-    currentPrice: number;
-    hide: boolean;
-    isBlacklisted: boolean;
-  };
-  tags: string[];
-  lastUpdate: string;
-}
+export type PoolData = PoolSummary;
 
 /**
  * 市场指标接口
@@ -87,15 +34,97 @@ export interface MarketMetrics {
   fees: number;         // 费用
 }
 
+/**
+ * 市场指标时间粒度
+ */
+export type MetricsResolution = 'raw' | '5m' | '1h' | '1d';
+
+/**
+ * 聚合后的市场指标
+ * price 为时间桶内的收盘价，volume/liquidity/fees 为时间桶内最后一次采样
+ */
+export interface MarketMetricsCandle extends MarketMetrics {
+  resolution: Exclude<MetricsResolution, 'raw'>;
+  open: number;         // 开盘价
+  high: number;         // 最高价
+  low: number;          // 最低价
+  close: number;        // 收盘价
+  sampleCount: number;  // 原始采样数
+}
+
 /**
  * 数据更新事件接口
  */
 export interface DataUpdateEvent {
   type: 'POOL_UPDATE' | 'TOKEN_UPDATE' | 'METRICS_UPDATE'; // 更新类型
   data: PoolData | TokenInfo | MarketMetrics;              // 更新数据
+  changedFields: string[];                                 // 相对上次保存变化的字段路径，新增数据时为空
+  isNew: boolean;                                          // 是否为首次保存
   timestamp: Date;                                         // 时间戳
 }
 
+/**
+ * 数据验证规则
+ */
+export type ValidationRule =
+  | 'format'               // 字段类型
+  | 'fee_range'            // 基础费率不超过最大费率（对应 pools.check_fees 约束）
+  | 'decimals_range'       // 代币精度在 0-18 之间
+  | 'non_negative'         // 流动性、成交量、价格等不能为负
+  | 'price_sanity'         // 价格相对上一次快照的变化不超过上限
+  | 'stale';               // lastUpdate 过旧
+
+/**
+ * 单条规则违反记录
+ */
+export interface ValidationViolation {
+  rule: ValidationRule;
+  field: string;        // 字段路径（如 fees.base）
+  message: string;
+}
+
+/**
+ * 验证报告
+ */
+export interface ValidationReport {
+  valid: boolean;
+  violations: ValidationViolation[];
+  checkedAt: Date;
+}
+
+/**
+ * 因验证失败被隔离、未写入仓储的记录
+ */
+export interface QuarantinedRecord {
+  type: DataUpdateEvent['type'];
+  id: string;           // 池子地址、代币地址或 池子地址@时间戳
+  data: PoolData | TokenInfo | MarketMetrics;
+  report: ValidationReport;
+  quarantinedAt: Date;
+  occurrences: number;  // 连续被隔离的刷新轮数，价格变化一致时累加，达到 priceConfirmations 后接受新价格
+}
+
+/**
+ * 单次刷新结果
+ */
+export type RefreshOutcome = 'created' | 'updated' | 'unchanged' | 'missing' | 'quarantined';
+
+/**
+ * 一轮刷新的统计
+ */
+export interface RefreshCycleStats {
+  startedAt: Date;      // 开始时间
+  duration: number;     // 耗时（毫秒）
+  total: number;        // 刷新的池子数
+  created: number;      // 首次保存
+  updated: number;      // 有字段变化并已保存
+  unchanged: number;    // 无变化，未写入
+  missing: number;      // 数据源中已不存在
+  quarantined: number;  // 验证失败，已隔离
+  failed: number;       // 刷新失败
+  errors: Array<{ poolId: string; message: string }>;
+}
+
 /**
  * 数据查询选项接口
  */
@@ -104,4 +133,5 @@ export interface DataQueryOptions {
   endTime?: Date;       // 结束时间
   limit?: number;       // 限制数量
   offset?: number;      // 偏移量
+  resolution?: MetricsResolution; // 时间粒度，仅用于市场指标查询，默认 raw
 } 
\ No newline at end of file
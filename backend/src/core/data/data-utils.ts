@@ -165,4 +165,47 @@ export class DataUtils {
   static compareTokenVolume(a: TokenInfo, b: TokenInfo): number {
     return b.amount - a.amount;
   }
+
+  /**
+   * 把数值字符串转换为数字，用于比较数据源的原始值和数据库读出的 DECIMAL 字符串（如 '0.25' 与 '0.2500'）
+   * @param value - 任意数据，对象和数组逐层转换
+   * @returns 转换后的副本
+   */
+  static normalizeNumbers(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => DataUtils.normalizeNumbers(item));
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, DataUtils.normalizeNumbers(item)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * 比较两个对象，列出值不同的字段
+   * @param previous - 旧数据
+   * @param current - 新数据
+   * @param ignore - 不参与比较的字段路径（如 lastUpdate）
+   * @returns 变化字段的路径（如 fees.last24h），数组按整体比较
+   */
+  static diffFields(previous: unknown, current: unknown, ignore: string[] = [], prefix = ''): string[] {
+    if (ignore.includes(prefix)) return [];
+
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+    if (isObject(previous) && isObject(current)) {
+      const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+      return Array.from(keys).flatMap(key =>
+        DataUtils.diffFields(previous[key], current[key], ignore, prefix ? `${prefix}.${key}` : key)
+      );
+    }
+
+    return JSON.stringify(previous) === JSON.stringify(current) ? [] : [prefix];
+  }
 } 
\ No newline at end of file
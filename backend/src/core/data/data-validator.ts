@@ -0,0 +1,172 @@
+/**
+ * @file 数据验证器
+ * @module core/data/data-validator
+ * @description 按规则检查池子、代币和市场指标数据，返回所有违反规则的字段；规则与数据库约束保持一致
+ */
+
+import { config } from '../../config';
+import { DataUtils } from './data-utils';
+import {
+  PoolData,
+  TokenInfo,
+  MarketMetrics,
+  ValidationReport,
+  ValidationRule,
+  ValidationViolation
+} from './data-types';
+
+export interface DataValidatorOptions {
+  maxPriceChange: number;  // 相对上一次快照的最大价格变化比例
+  maxStaleness: number;    // lastUpdate 的最大滞后时间（毫秒）
+}
+
+const MAX_DECIMALS = 18;
+
+const violation = (rule: ValidationRule, field: string, message: string): ValidationViolation => ({
+  rule,
+  field,
+  message
+});
+
+/**
+ * 数据验证器
+ * 格式检查失败时不再检查其他规则，避免对缺失字段重复报错
+ */
+export class DataValidator {
+  private readonly options: DataValidatorOptions;
+
+  constructor(options: Partial<DataValidatorOptions> = {}) {
+    this.options = {
+      maxPriceChange: config.dataManager.validation.maxPriceChange,
+      maxStaleness: config.dataManager.validation.maxStaleness,
+      ...options
+    };
+  }
+
+  /**
+   * 验证池子数据
+   * @param data - 待保存的池子数据
+   * @param previous - 仓储中的上一次快照
+   * @param now - 验证时间
+   */
+  validatePool(data: PoolData, previous: PoolData | null = null, now: Date = new Date()): ValidationReport {
+    const violations: ValidationViolation[] = [];
+
+    if (!DataUtils.isValidPoolData(data)) {
+      violations.push(violation('format', '', 'Pool data has missing or mistyped fields'));
+      return this.report(violations, now);
+    }
+
+    const baseFee = parseFloat(data.fees.base);
+    const maxFee = parseFloat(data.fees.max);
+    if (!(baseFee <= maxFee)) {
+      violations.push(violation('fee_range', 'fees.base', `Base fee ${data.fees.base} exceeds max fee ${data.fees.max}`));
+    }
+
+    violations.push(...this.checkDecimals(data.tokens.tokenX, 'tokens.tokenX.decimals'));
+    violations.push(...this.checkDecimals(data.tokens.tokenY, 'tokens.tokenY.decimals'));
+
+    violations.push(...this.checkNonNegative(parseFloat(data.liquidity.total), 'liquidity.total'));
+    violations.push(...this.checkNonNegative(data.volume.last24h, 'volume.last24h'));
+    violations.push(...this.checkNonNegative(data.fees.last24h, 'fees.last24h'));
+    violations.push(...this.checkNonNegative(data.parameters.currentPrice, 'parameters.currentPrice'));
+
+    if (previous) {
+      violations.push(...this.checkPriceChange(data.parameters.currentPrice, previous.parameters.currentPrice, 'parameters.currentPrice'));
+    }
+
+    const lastUpdate = new Date(data.lastUpdate).getTime();
+    if (Number.isNaN(lastUpdate)) {
+      violations.push(violation('format', 'lastUpdate', `Invalid lastUpdate ${data.lastUpdate}`));
+    } else if (now.getTime() - lastUpdate > this.options.maxStaleness) {
+      violations.push(violation('stale', 'lastUpdate', `lastUpdate ${data.lastUpdate} is older than ${this.options.maxStaleness}ms`));
+    }
+
+    return this.report(violations, now);
+  }
+
+  /**
+   * 验证代币数据
+   * @param data - 待保存的代币数据
+   * @param previous - 仓储中的上一次快照
+   * @param now - 验证时间
+   */
+  validateToken(data: TokenInfo, previous: TokenInfo | null = null, now: Date = new Date()): ValidationReport {
+    const violations: ValidationViolation[] = [];
+
+    if (!DataUtils.isValidTokenInfo(data)) {
+      violations.push(violation('format', '', 'Token data has missing or mistyped fields'));
+      return this.report(violations, now);
+    }
+
+    violations.push(...this.checkDecimals(data, 'decimals'));
+    violations.push(...this.checkNonNegative(data.amount, 'amount'));
+    violations.push(...this.checkNonNegative(data.price, 'price'));
+    if (previous) {
+      violations.push(...this.checkPriceChange(data.price, previous.price, 'price'));
+    }
+
+    return this.report(violations, now);
+  }
+
+  /**
+   * 验证市场指标
+   * @param data - 待保存的市场指标
+   * @param previous - 同一池子的上一条指标
+   * @param now - 验证时间
+   */
+  validateMetrics(data: MarketMetrics, previous: MarketMetrics | null = null, now: Date = new Date()): ValidationReport {
+    const violations: ValidationViolation[] = [];
+
+    if (!DataUtils.isValidMarketMetrics(data)) {
+      violations.push(violation('format', '', 'Market metrics have missing or mistyped fields'));
+      return this.report(violations, now);
+    }
+
+    violations.push(...this.checkNonNegative(data.price, 'price'));
+    violations.push(...this.checkNonNegative(data.volume, 'volume'));
+    violations.push(...this.checkNonNegative(data.liquidity, 'liquidity'));
+    violations.push(...this.checkNonNegative(data.fees, 'fees'));
+    if (previous) {
+      violations.push(...this.checkPriceChange(data.price, previous.price, 'price'));
+    }
+    if (now.getTime() - data.timestamp.getTime() > this.options.maxStaleness) {
+      violations.push(violation('stale', 'timestamp', `Metrics timestamp ${data.timestamp.toISOString()} is older than ${this.options.maxStaleness}ms`));
+    }
+
+    return this.report(violations, now);
+  }
+
+  private checkDecimals(token: TokenInfo, field: string): ValidationViolation[] {
+    if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > MAX_DECIMALS) {
+      return [violation('decimals_range', field, `Decimals ${token.decimals} of ${token.mint} must be an integer between 0 and ${MAX_DECIMALS}`)];
+    }
+    return [];
+  }
+
+  private checkNonNegative(value: number, field: string): ValidationViolation[] {
+    if (!Number.isFinite(value) || value < 0) {
+      return [violation('non_negative', field, `${field} must be a non-negative number, got ${value}`)];
+    }
+    return [];
+  }
+
+  // 上一次价格为0时没有可比较的基准
+  private checkPriceChange(price: number, previousPrice: number, field: string): ValidationViolation[] {
+    if (!(previousPrice > 0) || !Number.isFinite(price)) return [];
+
+    const change = Math.abs(price / previousPrice - 1);
+    if (change > this.options.maxPriceChange) {
+      return [violation(
+        'price_sanity',
+        field,
+        `${field} changed ${(change * 100).toFixed(2)}% from ${previousPrice} to ${price}, exceeding ${(this.options.maxPriceChange * 100).toFixed(0)}%`
+      )];
+    }
+    return [];
+  }
+
+  private report(violations: ValidationViolation[], checkedAt: Date): ValidationReport {
+    return { valid: violations.length === 0, violations, checkedAt };
+  }
+}
@@ -1,5 +1,17 @@
 export * from './data-types';
 export * from './data-service';
 export * from './data-repository';
+export * from './data-source';
 export * from './data-manager';
-export * from './data-utils'; 
\ No newline at end of file
+export * from './data-utils';
+export * from './bin-utils';
+export * from './metrics-rollup';
+export * from './metrics-store';
+export * from './pg-data-repository';
+export * from './memory-data-repository';
+export * from './repository-factory';
+export * from './data-validator';
+export * from './transformers';
+export * from './cache-keys';
+export * from './cache-invalidator';
+export * from './scheduler-store';
\ No newline at end of file
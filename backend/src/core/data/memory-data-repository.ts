@@ -0,0 +1,326 @@
+/**
+ * @file 内存数据仓储
+ * @module core/data/memory-data-repository
+ * @description 在进程内保存池子、代币和市场指标，查询语义与 PostgreSQL 仓储一致，可选快照到 JSON 文件，用于单元测试和无数据库的演示模式
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { IDataRepository } from './data-repository';
+import { DataQueryOptions, MarketMetrics, MarketMetricsCandle, PoolData, TokenInfo } from './data-types';
+import { MetricsRollup, ROLLUP_RESOLUTIONS, RollupCandle, RollupResolution } from './metrics-rollup';
+import { DataTransformers } from './transformers';
+import { config } from '../../config';
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * 快照文件结构
+ */
+export interface MemoryRepositorySnapshot {
+  version: number;
+  savedAt: string;
+  pools: PoolData[];
+  tokens: TokenInfo[];
+  metrics: MarketMetrics[];
+  rollups: RollupCandle[];
+  archive: {
+    pools: Array<PoolData & { archivedAt: string }>;
+    metrics: MarketMetrics[];
+  };
+}
+
+export interface MemoryDataRepositoryOptions {
+  snapshotPath?: string;      // 快照文件路径
+  snapshotInterval?: number;  // 自动快照间隔（毫秒），不设置时只在调用 saveSnapshot 时写入
+}
+
+export class MemoryDataRepository implements IDataRepository {
+  private pools: Map<string, PoolData> = new Map();
+  private tokens: Map<string, TokenInfo> = new Map();
+  private metrics: Map<string, MarketMetrics[]> = new Map();          // 池子地址 -> 按时间升序的原始指标
+  private rollups: Map<string, RollupCandle> = new Map();             // 池子:粒度:时间桶 -> 聚合结果
+  private archivedPools: Array<PoolData & { archivedAt: string }> = [];
+  private archivedMetrics: MarketMetrics[] = [];
+  private readonly snapshotPath?: string;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: MemoryDataRepositoryOptions = {}) {
+    this.snapshotPath = options.snapshotPath;
+    if (options.snapshotInterval && this.snapshotPath) {
+      this.snapshotTimer = setInterval(() => {
+        this.saveSnapshot().catch(error => console.error('Failed to save repository snapshot:', error));
+      }, options.snapshotInterval);
+      this.snapshotTimer.unref();
+    }
+  }
+
+  // 池子数据存储
+  async savePoolData(data: PoolData): Promise<void> {
+    this.pools.set(data.address, clone(data));
+    for (const token of [data.tokens.tokenX, data.tokens.tokenY]) {
+      this.tokens.set(token.mint, clone(DataTransformers.mergePoolToken(token, this.tokens.get(token.mint))));
+    }
+  }
+
+  async getPoolData(poolId: string): Promise<PoolData | null> {
+    const pool = this.pools.get(poolId);
+    return pool ? this.withTokenPrices(pool) : null;
+  }
+
+  async getAllPoolData(): Promise<PoolData[]> {
+    return Array.from(this.pools.values())
+      .map(pool => this.withTokenPrices(pool))
+      .sort((a, b) => parseFloat(b.liquidity.total) - parseFloat(a.liquidity.total));
+  }
+
+  // 代币数据存储
+  async saveTokenData(data: TokenInfo): Promise<void> {
+    this.tokens.set(data.mint, clone(data));
+  }
+
+  async getTokenData(tokenAddress: string): Promise<TokenInfo | null> {
+    const token = this.tokens.get(tokenAddress);
+    return token ? clone(token) : null;
+  }
+
+  // 市场指标存储
+  async saveMarketMetrics(data: MarketMetrics): Promise<void> {
+    await this.saveMarketMetricsBatch([data]);
+  }
+
+  async saveMarketMetricsBatch(data: MarketMetrics[]): Promise<void> {
+    const inserted: MarketMetrics[] = [];
+    for (const metrics of data) {
+      const series = this.metrics.get(metrics.poolId) ?? [];
+      // 与数据库主键一致：同一池子同一时间点只保留第一次写入
+      if (series.some(existing => existing.timestamp.getTime() === metrics.timestamp.getTime())) continue;
+
+      series.push({ ...metrics, timestamp: new Date(metrics.timestamp) });
+      series.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      this.metrics.set(metrics.poolId, series);
+      inserted.push(metrics);
+    }
+
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      for (const candle of MetricsRollup.rollup(inserted, resolution)) {
+        const key = this.rollupKey(candle.poolId, resolution, candle.timestamp);
+        const existing = this.rollups.get(key);
+        this.rollups.set(key, existing ? MetricsRollup.merge(existing, candle) : candle);
+      }
+    }
+  }
+
+  /**
+   * 查询市场指标，按时间倒序返回
+   */
+  async getMarketMetrics(poolId: string, options: DataQueryOptions = {}): Promise<MarketMetrics[]> {
+    const resolution = options.resolution ?? 'raw';
+    const series: MarketMetrics[] = resolution === 'raw'
+      ? this.metrics.get(poolId) ?? []
+      : Array.from(this.rollups.values())
+          .filter(candle => candle.poolId === poolId && candle.resolution === resolution)
+          .map(candle => this.toCandle(candle));
+
+    const offset = options.offset ?? 0;
+    const matched = series
+      .filter(metrics => this.inRange(metrics.timestamp, options))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    return clone(matched.slice(offset, options.limit !== undefined ? offset + options.limit : undefined));
+  }
+
+  // 缓存管理：数据本身就在内存中，没有额外的读缓存
+  async clearCache(): Promise<void> {
+    return;
+  }
+
+  async invalidateCache(_key: string): Promise<void> {
+    return;
+  }
+
+  // 数据清理
+  /**
+   * 删除早于给定时间的原始指标，并按各时间粒度的保留时长删除聚合数据；删除不再被池子引用的代币
+   */
+  async cleanupOldData(beforeDate: Date): Promise<void> {
+    for (const [poolId, series] of this.metrics) {
+      this.metrics.set(poolId, series.filter(metrics => metrics.timestamp >= beforeDate));
+    }
+
+    const now = Date.now();
+    for (const [key, candle] of this.rollups) {
+      const retention = config.metrics.retention[candle.resolution];
+      if (retention > 0 && candle.timestamp.getTime() < now - retention) {
+        this.rollups.delete(key);
+      }
+    }
+
+    const referenced = new Set<string>();
+    this.pools.forEach(pool => {
+      referenced.add(pool.tokens.tokenX.mint);
+      referenced.add(pool.tokens.tokenY.mint);
+    });
+    for (const mint of this.tokens.keys()) {
+      if (!referenced.has(mint)) {
+        this.tokens.delete(mint);
+      }
+    }
+  }
+
+  /**
+   * 把早于给定时间的原始指标和长时间未更新的池子移入归档
+   */
+  async archiveData(beforeDate: Date): Promise<void> {
+    for (const [poolId, series] of this.metrics) {
+      this.archivedMetrics.push(...series.filter(metrics => metrics.timestamp < beforeDate));
+      this.metrics.set(poolId, series.filter(metrics => metrics.timestamp >= beforeDate));
+    }
+
+    const archivedAt = new Date().toISOString();
+    for (const [address, pool] of this.pools) {
+      if (new Date(pool.lastUpdate) < beforeDate) {
+        this.archivedPools.push({ ...pool, archivedAt });
+        this.pools.delete(address);
+      }
+    }
+  }
+
+  /**
+   * 获取归档数据
+   */
+  getArchive(): MemoryRepositorySnapshot['archive'] {
+    return clone({ pools: this.archivedPools, metrics: this.archivedMetrics });
+  }
+
+  /**
+   * 把当前数据写入快照文件
+   * @param filePath - 快照路径，默认使用构造时配置的路径
+   */
+  async saveSnapshot(filePath: string | undefined = this.snapshotPath): Promise<void> {
+    if (!filePath) {
+      throw new Error('Snapshot path is not configured');
+    }
+
+    const snapshot: MemoryRepositorySnapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      pools: Array.from(this.pools.values()),
+      tokens: Array.from(this.tokens.values()),
+      metrics: Array.from(this.metrics.values()).flat(),
+      rollups: Array.from(this.rollups.values()),
+      archive: { pools: this.archivedPools, metrics: this.archivedMetrics }
+    };
+
+    // 先写临时文件再重命名，避免进程中断时留下不完整的快照
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(snapshot));
+    await fs.promises.rename(tmpPath, filePath);
+  }
+
+  /**
+   * 从快照文件恢复数据，覆盖当前内容
+   * @param filePath - 快照路径，默认使用构造时配置的路径
+   * @returns 快照文件不存在时返回 false
+   */
+  async restoreSnapshot(filePath: string | undefined = this.snapshotPath): Promise<boolean> {
+    if (!filePath) {
+      throw new Error('Snapshot path is not configured');
+    }
+    if (!fs.existsSync(filePath)) return false;
+
+    const snapshot = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as MemoryRepositorySnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version} in ${filePath}, expected ${SNAPSHOT_VERSION}`);
+    }
+
+    const toMetrics = (metrics: MarketMetrics): MarketMetrics => ({ ...metrics, timestamp: new Date(metrics.timestamp) });
+    // 快照中的池子可能是旧版本模型
+    this.pools = new Map(snapshot.pools.map(pool => [pool.address, DataTransformers.upgradePoolSummary(pool)]));
+    this.tokens = new Map(snapshot.tokens.map(token => [token.mint, token]));
+    this.metrics = new Map();
+    snapshot.metrics.map(toMetrics).forEach(metrics => {
+      const series = this.metrics.get(metrics.poolId) ?? [];
+      series.push(metrics);
+      this.metrics.set(metrics.poolId, series);
+    });
+    this.metrics.forEach(series => series.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+    this.rollups = new Map(
+      snapshot.rollups.map(candle => {
+        const restored: RollupCandle = {
+          ...candle,
+          timestamp: new Date(candle.timestamp),
+          firstSampleAt: new Date(candle.firstSampleAt),
+          lastSampleAt: new Date(candle.lastSampleAt)
+        };
+        return [this.rollupKey(restored.poolId, restored.resolution, restored.timestamp), restored];
+      })
+    );
+    this.archivedPools = snapshot.archive.pools.map(pool => ({
+      ...DataTransformers.upgradePoolSummary(pool),
+      archivedAt: pool.archivedAt
+    }));
+    this.archivedMetrics = snapshot.archive.metrics.map(toMetrics);
+    return true;
+  }
+
+  /**
+   * 停止自动快照
+   */
+  close(): void {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+  }
+
+  // 与数据库仓储一致：池子中的代币价格取自最新保存的代币数据
+  private withTokenPrices(pool: PoolData): PoolData {
+    const result = clone(pool);
+    const tokenX = this.tokens.get(pool.tokens.tokenX.mint);
+    const tokenY = this.tokens.get(pool.tokens.tokenY.mint);
+    if (tokenX) result.tokens.tokenX.price = tokenX.price;
+    if (tokenY) result.tokens.tokenY.price = tokenY.price;
+    return result;
+  }
+
+  // 去掉只用于合并的首末采样时间
+  private toCandle(candle: RollupCandle): MarketMetricsCandle {
+    return {
+      poolId: candle.poolId,
+      timestamp: candle.timestamp,
+      resolution: candle.resolution,
+      price: candle.price,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      liquidity: candle.liquidity,
+      fees: candle.fees,
+      sampleCount: candle.sampleCount
+    };
+  }
+
+  private inRange(timestamp: Date, options: DataQueryOptions): boolean {
+    if (options.startTime && timestamp < options.startTime) return false;
+    if (options.endTime && timestamp > options.endTime) return false;
+    return true;
+  }
+
+  private rollupKey(poolId: string, resolution: RollupResolution, bucketStart: Date): string {
+    return `${poolId}:${resolution}:${bucketStart.getTime()}`;
+  }
+}
+
+// 返回深拷贝，避免调用方修改仓储内部状态；Date 字段保持为 Date
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as unknown as T;
+  if (Array.isArray(value)) return value.map(item => clone(item)) as unknown as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, clone(item)])
+    ) as T;
+  }
+  return value;
+}
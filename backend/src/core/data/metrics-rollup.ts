@@ -0,0 +1,101 @@
+/**
+ * @file 市场指标聚合工具
+ * @module core/data/metrics-rollup
+ * @description 把原始市场指标按 5m/1h/1d 时间桶聚合为 OHLC 形式，并合并同一时间桶的多次聚合结果
+ */
+
+import { MarketMetrics, MarketMetricsCandle, MetricsResolution } from './data-types';
+
+export type RollupResolution = Exclude<MetricsResolution, 'raw'>;
+
+export const ROLLUP_RESOLUTIONS: RollupResolution[] = ['5m', '1h', '1d'];
+
+const RESOLUTION_MS: Record<RollupResolution, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+/**
+ * 带首末采样时间的聚合结果
+ */
+export interface RollupCandle extends MarketMetricsCandle {
+  firstSampleAt: Date;
+  lastSampleAt: Date;
+}
+
+/**
+ * 市场指标聚合工具
+ * 时间桶按 UTC 对齐；聚合结果额外记录桶内首末采样时间，用于乱序写入时合并
+ */
+export class MetricsRollup {
+  /**
+   * 计算采样所在时间桶的起始时间
+   */
+  static bucketStart(timestamp: Date, resolution: RollupResolution): Date {
+    const size = RESOLUTION_MS[resolution];
+    return new Date(Math.floor(timestamp.getTime() / size) * size);
+  }
+
+  /**
+   * 聚合原始采样
+   * @param samples - 原始采样，可包含多个池子、顺序任意
+   * @param resolution - 时间粒度
+   * @returns 聚合结果，按池子和时间桶升序排列
+   */
+  static rollup(samples: MarketMetrics[], resolution: RollupResolution): RollupCandle[] {
+    const buckets = new Map<string, RollupCandle>();
+    const sorted = [...samples].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const sample of sorted) {
+      const start = MetricsRollup.bucketStart(sample.timestamp, resolution);
+      const key = `${sample.poolId}:${start.getTime()}`;
+      const candle = MetricsRollup.fromSample(sample, resolution);
+      const existing = buckets.get(key);
+      buckets.set(key, existing ? MetricsRollup.merge(existing, candle) : candle);
+    }
+
+    return Array.from(buckets.values()).sort((a, b) =>
+      a.poolId === b.poolId ? a.timestamp.getTime() - b.timestamp.getTime() : a.poolId.localeCompare(b.poolId)
+    );
+  }
+
+  /**
+   * 合并同一池子、同一时间桶的两个聚合结果
+   */
+  static merge(a: RollupCandle, b: RollupCandle): RollupCandle {
+    const first = a.firstSampleAt <= b.firstSampleAt ? a : b;
+    const latest = a.lastSampleAt >= b.lastSampleAt ? a : b;
+    return {
+      ...latest,
+      timestamp: a.timestamp,
+      open: first.open,
+      high: Math.max(a.high, b.high),
+      low: Math.min(a.low, b.low),
+      close: latest.close,
+      price: latest.close,
+      sampleCount: a.sampleCount + b.sampleCount,
+      firstSampleAt: first.firstSampleAt,
+      lastSampleAt: latest.lastSampleAt
+    };
+  }
+
+  private static fromSample(sample: MarketMetrics, resolution: RollupResolution): RollupCandle {
+    return {
+      poolId: sample.poolId,
+      timestamp: MetricsRollup.bucketStart(sample.timestamp, resolution),
+      resolution,
+      price: sample.price,
+      open: sample.price,
+      high: sample.price,
+      low: sample.price,
+      close: sample.price,
+      volume: sample.volume,
+      liquidity: sample.liquidity,
+      fees: sample.fees,
+      sampleCount: 1,
+      firstSampleAt: sample.timestamp,
+      lastSampleAt: sample.timestamp
+    };
+  }
+}
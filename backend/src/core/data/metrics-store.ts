@@ -0,0 +1,218 @@
+/**
+ * @file 市场指标时间序列存储
+ * @module core/data/metrics-store
+ * @description 保存每次池子刷新的原始指标，写入时同步更新 5m/1h/1d 聚合，并按时间粒度提供区间查询和保留策略
+ */
+
+import { Pool as DbPool, PoolClient } from 'pg';
+import { getDbPool } from '../../db';
+import { config } from '../../config';
+import { IDataRepository } from './data-repository';
+import { DataQueryOptions, MarketMetrics, MarketMetricsCandle, MetricsResolution } from './data-types';
+import { MetricsRollup, ROLLUP_RESOLUTIONS, RollupCandle, RollupResolution } from './metrics-rollup';
+import { DataTransformers, MarketMetricsRow } from './transformers';
+
+/**
+ * 市场指标存储接口
+ * 与 IDataRepository 的市场指标和数据清理部分一致，供仓储实现直接委托
+ */
+export interface MarketMetricsStore
+  extends Pick<IDataRepository, 'saveMarketMetrics' | 'getMarketMetrics' | 'cleanupOldData' | 'archiveData'> {
+  // 批量写入原始指标
+  saveMarketMetricsBatch(data: MarketMetrics[]): Promise<void>;
+}
+
+interface RollupRow extends MarketMetricsRow {
+  resolution: RollupResolution;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  sample_count: number;
+}
+
+// 单条 INSERT 的最大行数，避免超出参数数量上限
+const BATCH_SIZE = 500;
+
+export class PgMarketMetricsStore implements MarketMetricsStore {
+  private readonly db: DbPool;
+
+  constructor(db: DbPool = getDbPool()) {
+    this.db = db;
+  }
+
+  async saveMarketMetrics(data: MarketMetrics): Promise<void> {
+    await this.saveMarketMetricsBatch([data]);
+  }
+
+  async saveMarketMetricsBatch(data: MarketMetrics[]): Promise<void> {
+    if (data.length === 0) return;
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      // 只聚合实际写入的采样，重复写入同一时间点不会重复计数
+      const inserted: MarketMetrics[] = [];
+      for (let i = 0; i < data.length; i += BATCH_SIZE) {
+        inserted.push(...await this.insertRaw(client, data.slice(i, i + BATCH_SIZE)));
+      }
+      for (const resolution of ROLLUP_RESOLUTIONS) {
+        const candles = MetricsRollup.rollup(inserted, resolution);
+        for (let i = 0; i < candles.length; i += BATCH_SIZE) {
+          await this.upsertRollups(client, candles.slice(i, i + BATCH_SIZE));
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * 查询市场指标，按时间倒序返回
+   * @param poolId - 池子地址
+   * @param options - 时间区间、分页和时间粒度
+   */
+  async getMarketMetrics(poolId: string, options: DataQueryOptions = {}): Promise<MarketMetrics[]> {
+    const resolution: MetricsResolution = options.resolution ?? 'raw';
+    const params: unknown[] = [poolId];
+    const conditions = ['pool_address = $1'];
+    const timeColumn = resolution === 'raw' ? 'timestamp' : 'bucket_start';
+
+    if (resolution !== 'raw') {
+      params.push(resolution);
+      conditions.push(`resolution = $${params.length}`);
+    }
+    if (options.startTime) {
+      params.push(options.startTime);
+      conditions.push(`${timeColumn} >= $${params.length}`);
+    }
+    if (options.endTime) {
+      params.push(options.endTime);
+      conditions.push(`${timeColumn} <= $${params.length}`);
+    }
+    params.push(options.limit ?? null, options.offset ?? 0);
+    const pagination = `LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+    if (resolution === 'raw') {
+      const { rows } = await this.db.query<MarketMetricsRow>(
+        `SELECT pool_address, timestamp, price, volume, liquidity, fees
+         FROM market_metrics WHERE ${conditions.join(' AND ')}
+         ORDER BY timestamp DESC ${pagination}`,
+        params
+      );
+      return rows.map(row => DataTransformers.toMarketMetrics(row));
+    }
+
+    const { rows } = await this.db.query<RollupRow>(
+      `SELECT pool_address, resolution, bucket_start AS timestamp, open, high, low, close,
+              close AS price, volume, liquidity, fees, sample_count
+       FROM market_metrics_rollups WHERE ${conditions.join(' AND ')}
+       ORDER BY bucket_start DESC ${pagination}`,
+      params
+    );
+    return rows.map(row => this.toCandle(row));
+  }
+
+  /**
+   * 删除早于给定时间的原始指标，并按各时间粒度的保留时长删除聚合数据
+   */
+  async cleanupOldData(beforeDate: Date): Promise<void> {
+    await this.db.query('DELETE FROM market_metrics WHERE timestamp < $1', [beforeDate]);
+
+    const now = Date.now();
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      const retention = config.metrics.retention[resolution];
+      if (retention <= 0) continue;
+      await this.db.query(
+        'DELETE FROM market_metrics_rollups WHERE resolution = $1 AND bucket_start < $2',
+        [resolution, new Date(now - retention)]
+      );
+    }
+  }
+
+  /**
+   * 把早于给定时间的原始指标移入归档表，聚合数据保留在原表中
+   */
+  async archiveData(beforeDate: Date): Promise<void> {
+    await this.db.query(
+      `WITH archived AS (
+         DELETE FROM market_metrics WHERE timestamp < $1
+         RETURNING pool_address, timestamp, price, volume, liquidity, fees
+       )
+       INSERT INTO market_metrics_archive (pool_address, timestamp, price, volume, liquidity, fees)
+       SELECT * FROM archived
+       ON CONFLICT DO NOTHING`,
+      [beforeDate]
+    );
+  }
+
+  private async insertRaw(client: PoolClient, data: MarketMetrics[]): Promise<MarketMetrics[]> {
+    const params: unknown[] = [];
+    const values = data.map(metrics => {
+      params.push(metrics.poolId, metrics.timestamp, metrics.price, metrics.volume, metrics.liquidity, metrics.fees);
+      const base = params.length - 6;
+      return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6})`;
+    });
+
+    const { rows } = await client.query<MarketMetricsRow>(
+      `INSERT INTO market_metrics (pool_address, timestamp, price, volume, liquidity, fees)
+       VALUES ${values.join(', ')}
+       ON CONFLICT (pool_address, timestamp) DO NOTHING
+       RETURNING pool_address, timestamp, price, volume, liquidity, fees`,
+      params
+    );
+    return rows.map(row => DataTransformers.toMarketMetrics(row));
+  }
+
+  // 与已有的时间桶合并：开盘价取最早采样，收盘价和其他指标取最晚采样
+  private async upsertRollups(client: PoolClient, candles: RollupCandle[]): Promise<void> {
+    const params: unknown[] = [];
+    const values = candles.map(candle => {
+      params.push(
+        candle.poolId, candle.resolution, candle.timestamp,
+        candle.open, candle.high, candle.low, candle.close,
+        candle.volume, candle.liquidity, candle.fees,
+        candle.sampleCount, candle.firstSampleAt, candle.lastSampleAt
+      );
+      const base = params.length - 13;
+      return `(${Array.from({ length: 13 }, (_, i) => `$${base + i + 1}`).join(', ')})`;
+    });
+
+    await client.query(
+      `INSERT INTO market_metrics_rollups AS r
+         (pool_address, resolution, bucket_start, open, high, low, close,
+          volume, liquidity, fees, sample_count, first_sample_at, last_sample_at)
+       VALUES ${values.join(', ')}
+       ON CONFLICT (pool_address, resolution, bucket_start) DO UPDATE SET
+         open = CASE WHEN EXCLUDED.first_sample_at < r.first_sample_at THEN EXCLUDED.open ELSE r.open END,
+         high = GREATEST(r.high, EXCLUDED.high),
+         low = LEAST(r.low, EXCLUDED.low),
+         close = CASE WHEN EXCLUDED.last_sample_at >= r.last_sample_at THEN EXCLUDED.close ELSE r.close END,
+         volume = CASE WHEN EXCLUDED.last_sample_at >= r.last_sample_at THEN EXCLUDED.volume ELSE r.volume END,
+         liquidity = CASE WHEN EXCLUDED.last_sample_at >= r.last_sample_at THEN EXCLUDED.liquidity ELSE r.liquidity END,
+         fees = CASE WHEN EXCLUDED.last_sample_at >= r.last_sample_at THEN EXCLUDED.fees ELSE r.fees END,
+         sample_count = r.sample_count + EXCLUDED.sample_count,
+         first_sample_at = LEAST(r.first_sample_at, EXCLUDED.first_sample_at),
+         last_sample_at = GREATEST(r.last_sample_at, EXCLUDED.last_sample_at)`,
+      params
+    );
+  }
+
+  private toCandle(row: RollupRow): MarketMetricsCandle {
+    return {
+      ...DataTransformers.toMarketMetrics(row),
+      resolution: row.resolution,
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      sampleCount: row.sample_count
+    };
+  }
+}
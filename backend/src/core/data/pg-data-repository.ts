@@ -0,0 +1,240 @@
+/**
+ * @file PostgreSQL 数据仓储
+ * @module core/data/pg-data-repository
+ * @description 把 PoolData、TokenInfo 映射到 pools/tokens 表，市场指标委托给时间序列存储，读取结果缓存在应用 Cache 中
+ */
+
+import { Pool as DbPool, PoolClient } from 'pg';
+import { getDbPool } from '../../db';
+import { Cache } from '../../utils/cache';
+import { IDataRepository } from './data-repository';
+import { DataQueryOptions, MarketMetrics, PoolData, TokenInfo } from './data-types';
+import { MarketMetricsStore, PgMarketMetricsStore } from './metrics-store';
+import { DataTransformers, PoolRow, TokenRow } from './transformers';
+
+/**
+ * 仓储缓存键前缀
+ * invalidateCache 接受去掉前缀的键：pools、pool:<address>、token:<mint>
+ */
+export const REPOSITORY_CACHE_PREFIX = 'repo:';
+
+const CACHE_TTL = 60000; // 1分钟
+
+// 关联 tokens 表读取的字段，不写入 pools 表
+const JOINED_POOL_COLUMNS: Array<keyof PoolRow> = ['token_x_price', 'token_y_price'];
+
+const POOL_SELECT = `
+  SELECT p.*, tx.price AS token_x_price, ty.price AS token_y_price
+  FROM pools p
+  LEFT JOIN tokens tx ON tx.mint = p.token_x_mint
+  LEFT JOIN tokens ty ON ty.mint = p.token_y_mint`;
+
+export class PgDataRepository implements IDataRepository {
+  private readonly db: DbPool;
+  private readonly metricsStore: MarketMetricsStore;
+  private readonly cache: Cache;
+
+  constructor(
+    db: DbPool = getDbPool(),
+    metricsStore: MarketMetricsStore = new PgMarketMetricsStore(db),
+    cache: Cache = Cache.getInstance()
+  ) {
+    this.db = db;
+    this.metricsStore = metricsStore;
+    this.cache = cache;
+  }
+
+  // 池子数据存储
+  async savePoolData(data: PoolData): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      await this.upsertToken(client, data.tokens.tokenX, true);
+      await this.upsertToken(client, data.tokens.tokenY, true);
+      await this.upsertPool(client, data);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await this.cache.set(this.cacheKey(`pool:${data.address}`), data, CACHE_TTL);
+    await this.cache.delete(this.cacheKey('pools'));
+    await this.cache.delete(this.cacheKey(`token:${data.tokens.tokenX.mint}`));
+    await this.cache.delete(this.cacheKey(`token:${data.tokens.tokenY.mint}`));
+  }
+
+  async getPoolData(poolId: string): Promise<PoolData | null> {
+    const key = this.cacheKey(`pool:${poolId}`);
+    const cached = await this.cache.get<PoolData>(key);
+    if (cached) return cached;
+
+    const { rows } = await this.db.query<PoolRow>(`${POOL_SELECT} WHERE p.address = $1`, [poolId]);
+    if (rows.length === 0) return null;
+
+    const pool = DataTransformers.fromPoolRow(rows[0]);
+    await this.cache.set(key, pool, CACHE_TTL);
+    return pool;
+  }
+
+  async getAllPoolData(): Promise<PoolData[]> {
+    const key = this.cacheKey('pools');
+    const cached = await this.cache.get<PoolData[]>(key);
+    if (cached) return cached;
+
+    const { rows } = await this.db.query<PoolRow>(`${POOL_SELECT} ORDER BY p.total_liquidity DESC`);
+    const pools = rows.map(row => DataTransformers.fromPoolRow(row));
+    await this.cache.set(key, pools, CACHE_TTL);
+    return pools;
+  }
+
+  // 代币数据存储
+  async saveTokenData(data: TokenInfo): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await this.upsertToken(client, data);
+    } finally {
+      client.release();
+    }
+
+    await this.cache.set(this.cacheKey(`token:${data.mint}`), data, CACHE_TTL);
+    // 池子数据中的代币价格来自 tokens 表
+    await this.invalidateByPrefix('pool');
+  }
+
+  async getTokenData(tokenAddress: string): Promise<TokenInfo | null> {
+    const key = this.cacheKey(`token:${tokenAddress}`);
+    const cached = await this.cache.get<TokenInfo>(key);
+    if (cached) return cached;
+
+    const { rows } = await this.db.query<TokenRow>(
+      'SELECT mint, symbol, decimals, price, reserve, amount FROM tokens WHERE mint = $1',
+      [tokenAddress]
+    );
+    if (rows.length === 0) return null;
+
+    const token = DataTransformers.fromTokenRow(rows[0]);
+    await this.cache.set(key, token, CACHE_TTL);
+    return token;
+  }
+
+  // 市场指标存储
+  async saveMarketMetrics(data: MarketMetrics): Promise<void> {
+    await this.metricsStore.saveMarketMetrics(data);
+  }
+
+  async saveMarketMetricsBatch(data: MarketMetrics[]): Promise<void> {
+    await this.metricsStore.saveMarketMetricsBatch(data);
+  }
+
+  async getMarketMetrics(poolId: string, options?: DataQueryOptions): Promise<MarketMetrics[]> {
+    return this.metricsStore.getMarketMetrics(poolId, options);
+  }
+
+  // 缓存管理
+  async clearCache(): Promise<void> {
+    await this.invalidateByPrefix('');
+  }
+
+  async invalidateCache(key: string): Promise<void> {
+    await this.cache.delete(this.cacheKey(key));
+    if (key.startsWith('pool:')) {
+      await this.cache.delete(this.cacheKey('pools'));
+    }
+  }
+
+  // 数据清理
+  /**
+   * 清理早于给定时间的市场指标，以及不再被任何池子引用、且长时间未更新的代币
+   */
+  async cleanupOldData(beforeDate: Date): Promise<void> {
+    await this.metricsStore.cleanupOldData(beforeDate);
+    await this.db.query(
+      `DELETE FROM tokens t
+       WHERE t.updated_at < $1
+         AND NOT EXISTS (SELECT 1 FROM pools p WHERE p.token_x_mint = t.mint OR p.token_y_mint = t.mint)`,
+      [beforeDate]
+    );
+    await this.invalidateByPrefix('token:');
+  }
+
+  /**
+   * 归档早于给定时间的市场指标，以及长时间未更新、且未被仓位/日志/大户活动引用的池子
+   */
+  async archiveData(beforeDate: Date): Promise<void> {
+    await this.metricsStore.archiveData(beforeDate);
+
+    // 按列名写入归档表：两个表后来补充的字段排在 archived_at 两侧，列顺序不一致
+    const { rows } = await this.db.query<{ address: string }>(
+      `WITH archived AS (
+         DELETE FROM pools p
+         WHERE p.last_update < $1
+           AND NOT EXISTS (SELECT 1 FROM positions WHERE pool_address = p.address)
+           AND NOT EXISTS (SELECT 1 FROM agent_logs WHERE pool_address = p.address)
+           AND NOT EXISTS (SELECT 1 FROM whale_activities WHERE pool_address = p.address)
+         RETURNING p.*
+       )
+       INSERT INTO pools_archive
+       SELECT (jsonb_populate_record(NULL::pools_archive, to_jsonb(archived) || jsonb_build_object('archived_at', NOW()))).*
+       FROM archived
+       RETURNING address`,
+      [beforeDate]
+    );
+
+    await Promise.all(rows.map(row => this.cache.delete(this.cacheKey(`pool:${row.address}`))));
+    if (rows.length > 0) {
+      await this.cache.delete(this.cacheKey('pools'));
+    }
+  }
+
+  /**
+   * @param fromPool - 代币来自池子数据时，未知的精度和价格（为0）不覆盖已保存的值，与 DataTransformers.mergePoolToken 一致
+   */
+  private async upsertToken(client: PoolClient, token: TokenInfo, fromPool = false): Promise<void> {
+    const decimals = fromPool
+      ? 'CASE WHEN EXCLUDED.decimals > 0 THEN EXCLUDED.decimals ELSE tokens.decimals END'
+      : 'EXCLUDED.decimals';
+    const price = fromPool
+      ? 'CASE WHEN EXCLUDED.price > 0 THEN EXCLUDED.price ELSE tokens.price END'
+      : 'EXCLUDED.price';
+    await client.query(
+      `INSERT INTO tokens (mint, symbol, decimals, price, reserve, amount, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW())
+       ON CONFLICT (mint) DO UPDATE SET
+         symbol = EXCLUDED.symbol,
+         decimals = ${decimals},
+         price = ${price},
+         reserve = EXCLUDED.reserve,
+         amount = EXCLUDED.amount,
+         updated_at = NOW()`,
+      [token.mint, token.symbol, token.decimals, token.price, token.reserve || null, token.amount]
+    );
+  }
+
+  private async upsertPool(client: PoolClient, data: PoolData): Promise<void> {
+    const columns = Object.entries(DataTransformers.toPoolRow(data))
+      .filter(([name]) => !JOINED_POOL_COLUMNS.includes(name as keyof PoolRow));
+    const names = columns.map(([name]) => name);
+    // 只更新池子本身的字段，信号和分析字段由各自的任务维护
+    const updates = names
+      .filter(name => name !== 'address')
+      .map(name => `${name} = EXCLUDED.${name}`);
+
+    await client.query(
+      `INSERT INTO pools (${names.join(', ')})
+       VALUES (${names.map((_, i) => `$${i + 1}`).join(', ')})
+       ON CONFLICT (address) DO UPDATE SET ${updates.join(', ')}`,
+      columns.map(([, value]) => value)
+    );
+  }
+
+  private cacheKey(key: string): string {
+    return `${REPOSITORY_CACHE_PREFIX}${key}`;
+  }
+
+  private async invalidateByPrefix(prefix: string): Promise<void> {
+    await this.cache.invalidateByPrefix(this.cacheKey(prefix));
+  }
+}
@@ -1,56 +1,195 @@
-import { PoolData, TokenInfo, TimeSeriesData } from './data-types';
-import { MeteoraService } from '../../services/meteora';
+import { TokenInfo, TimeSeriesData } from './data-types';
+import { PoolData } from './types/PoolData';
+import { MeteoraService, MeteoraUpstream, BinWindow } from '../../services/meteora';
+import { PoolChangeTracker } from '../../services/pool-change-tracker';
 import { DataUtils } from './data-utils';
 import { EventEmitter } from 'events';
 import { config } from '../../config';
+import { RequestPriority } from '../../utils/request-scheduler';
+import { Cache } from '../../utils/cache';
+import { CacheKeys } from './cache-keys';
+import { CircuitStateChangeEvent } from '../../utils/circuit-breaker';
+import { PaginatedResponse, PoolQueryParams } from '@liqpro/shared/src/types/api';
+
+/**
+ * Top 100池子的增量更新
+ */
+export interface TopPoolsUpdate {
+  pools: PoolData[];    // 当前Top 100
+  changed: PoolData[];  // 新进入Top 100或字段变化的池子
+  removed: string[];    // 跌出Top 100的池子地址
+  timestamp: Date;
+}
+
+// 一个增量刷新使用方的状态：变化跟踪器和上一轮的Top 100地址
+interface TopPoolsRefreshState {
+  tracker: PoolChangeTracker;
+  addresses: Set<string>;
+}
+
+const createRefreshState = (): TopPoolsRefreshState => ({
+  tracker: new PoolChangeTracker(),
+  addresses: new Set()
+});
+
+// 各排序字段的取值方式
+const POOL_SORT_VALUES: Record<NonNullable<PoolQueryParams['sortBy']>, (pool: PoolData) => number> = {
+  volume: pool => pool.volume.last24h,
+  apy: pool => pool.yields.apy,
+  tvl: pool => parseFloat(pool.liquidity.total)
+};
 
 export class PoolService extends EventEmitter {
   private readonly meteoraService: MeteoraService;
+  private readonly cache: Cache;
   private readonly minTVL: number;
   private readonly minVolume: number;
   private updateInterval: NodeJS.Timeout | null = null;
+  // 查询、refreshTopPools 的调用方（DataScheduler）和更新服务各自跟踪上一轮的结果，增量互不影响
+  private readonly queryTracker = new PoolChangeTracker();
+  private readonly refreshState = createRefreshState();
+  private readonly updateServiceState = createRefreshState();
 
-  constructor(meteoraService: MeteoraService) {
+  constructor(meteoraService: MeteoraService, cache: Cache = Cache.getInstance()) {
     if (!meteoraService) {
       throw new Error('MeteoraService is required');
     }
     super();
     this.meteoraService = meteoraService;
+    this.cache = cache;
     this.minTVL = config.pools.minTVL;
     this.minVolume = config.pools.minVolume;
   }
 
   async getTop100Pools(): Promise<PoolData[]> {
     try {
-      const allPools = await this.meteoraService.getAllPools();
-      
-      // 筛选符合条件的池子
-      const filteredPools = allPools.filter(pool => {
-        const tvl = parseFloat(pool.liquidity.total);
-        const volume24h = pool.volume.last24h;
-        return tvl >= this.minTVL && volume24h >= this.minVolume;
-      });
-
-      // 按成交量降序排序
-      const sortedPools = filteredPools.sort((a, b) => b.volume.last24h - a.volume.last24h);
-
-      // 返回前100个池子
-      return sortedPools.slice(0, 100);
+      // 列表刷新使用最低优先级，避免挤占持仓监控的请求配额；TVL和成交量门槛在流式解析时过滤
+      const { pools } = await this.meteoraService.streamPools(
+        { minTVL: this.minTVL, minVolume: this.minVolume },
+        this.queryTracker,
+        RequestPriority.LOW
+      );
+      return this.selectTopPools(pools);
     } catch (error) {
       console.error('Error getting top 100 pools:', error);
       throw error;
     }
   }
 
-  async getPoolDetail(address: string): Promise<PoolData> {
+  /**
+   * 刷新Top 100池子并计算相对上一次调用的增量
+   * 增量只对同一个调用方有意义，startUpdateService 使用独立的状态
+   * @returns 当前Top 100、其中新进入或字段变化的池子，以及跌出Top 100的池子地址
+   */
+  async refreshTopPools(): Promise<TopPoolsUpdate> {
+    try {
+      return await this.refreshWith(this.refreshState);
+    } catch (error) {
+      console.error('Error refreshing top pools:', error);
+      throw error;
+    }
+  }
+
+  private async refreshWith(state: TopPoolsRefreshState): Promise<TopPoolsUpdate> {
+    const result = await this.meteoraService.streamPools(
+      { minTVL: this.minTVL, minVolume: this.minVolume },
+      state.tracker,
+      RequestPriority.LOW
+    );
+    const pools = this.selectTopPools(result.pools);
+    const addresses = new Set(pools.map(pool => pool.address));
+    const changedAddresses = new Set(result.changed.map(pool => pool.address));
+
+    const changed = pools.filter(
+      pool => changedAddresses.has(pool.address) || !state.addresses.has(pool.address)
+    );
+    const removed = Array.from(state.addresses).filter(address => !addresses.has(address));
+    state.addresses = addresses;
+
+    return { pools, changed, removed, timestamp: new Date() };
+  }
+
+  /**
+   * 按条件查询池子
+   * 在缓存的完整池子列表上过滤和排序，列表过期后才重新下载 pair/all
+   * @param params - 过滤、排序和分页参数
+   * @returns 分页结果
+   */
+  async queryPools(params: PoolQueryParams = {}): Promise<PaginatedResponse<PoolData>> {
+    try {
+      const limit = params.limit ?? 100;
+      const offset = params.offset ?? 0;
+      // 列表包含全部池子，不按池子打失效标签，只依靠较短的有效期
+      const pools = await this.cache.getOrLoad<PoolData[]>(
+        CacheKeys.allPools(),
+        () => this.meteoraService.getAllPools(RequestPriority.LOW),
+        { ttl: config.pools.queryCacheTtl }
+      );
+
+      const filtered = pools.filter(pool => this.matchesQuery(pool, params));
+      const direction = params.order === 'asc' ? 1 : -1;
+      const sortValue = POOL_SORT_VALUES[params.sortBy ?? 'volume'];
+      filtered.sort((a, b) => (sortValue(a) - sortValue(b)) * direction);
+
+      return {
+        items: filtered.slice(offset, offset + limit),
+        total: filtered.length,
+        page: Math.floor(offset / limit) + 1,
+        pageSize: limit,
+        totalPages: Math.ceil(filtered.length / limit)
+      };
+    } catch (error) {
+      console.error('Error querying pools:', error);
+      throw error;
+    }
+  }
+
+  private matchesQuery(pool: PoolData, params: PoolQueryParams): boolean {
+    const minTvl = params.minTvl ?? this.minTVL;
+    const minVolume = params.minVolume ?? this.minVolume;
+    const { binStep, hide, isBlacklisted } = pool.parameters;
+
+    if (parseFloat(pool.liquidity.total) < minTvl) return false;
+    if (pool.volume.last24h < minVolume) return false;
+    if (params.tokenMint && pool.tokens.tokenX.mint !== params.tokenMint && pool.tokens.tokenY.mint !== params.tokenMint) {
+      return false;
+    }
+    if (params.minBinStep !== undefined && binStep < params.minBinStep) return false;
+    if (params.maxBinStep !== undefined && binStep > params.maxBinStep) return false;
+    if (params.maxBaseFee !== undefined && parseFloat(pool.fees.base) > params.maxBaseFee) return false;
+    if (params.excludeHidden && hide) return false;
+    if (params.excludeBlacklisted && isBlacklisted) return false;
+    return true;
+  }
+
+  // 按成交量降序排序，返回前100个池子
+  private selectTopPools(pools: PoolData[]): PoolData[] {
+    return [...pools].sort((a, b) => b.volume.last24h - a.volume.last24h).slice(0, 100);
+  }
+
+  /**
+   * 获取池子详情
+   * @param address - 池子地址
+   * @param priority - 请求优先级
+   * @param window - bin窗口（活跃bin两侧数量或持仓区间），不传时返回全部bin
+   */
+  async getPoolDetail(
+    address: string,
+    priority: RequestPriority = RequestPriority.NORMAL,
+    window?: BinWindow
+  ): Promise<PoolData> {
     try {
-      return await this.meteoraService.getPoolDetail(address);
+      return await this.meteoraService.getPoolDetail(address, priority, window);
     } catch (error) {
       console.error('Error getting pool detail:', error);
       throw error;
     }
   }
 
+  /**
+   * 定期刷新Top 100池子并发出 poolsUpdate 事件
+   * DataScheduler 的 update_top_pools 任务已定期刷新同一列表，运行调度器的进程不需要同时启动更新服务
+   */
   startUpdateService(interval: number = config.pools.updateInterval): void {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
@@ -58,11 +197,8 @@ export class PoolService extends EventEmitter {
 
     this.updateInterval = setInterval(async () => {
       try {
-        const topPools = await this.getTop100Pools();
-        this.emit('poolsUpdate', {
-          pools: topPools,
-          timestamp: new Date()
-        });
+        const update = await this.refreshWith(this.updateServiceState);
+        this.emit('poolsUpdate', update);
       } catch (error) {
         console.error('Error updating pools:', error);
         this.emit('updateError', error);
@@ -78,7 +214,7 @@ export class PoolService extends EventEmitter {
   }
 
   // 订阅池子更新
-  subscribeToUpdates(callback: (data: { pools: PoolData[], timestamp: Date }) => void): () => void {
+  subscribeToUpdates(callback: (data: TopPoolsUpdate) => void): () => void {
     this.on('poolsUpdate', callback);
     return () => this.off('poolsUpdate', callback);
   }
@@ -88,4 +224,14 @@ export class PoolService extends EventEmitter {
     this.on('updateError', callback);
     return () => this.off('updateError', callback);
   }
+
+  // 订阅上游熔断器状态变化
+  subscribeToCircuitState(callback: (event: CircuitStateChangeEvent) => void): () => void {
+    return this.meteoraService.subscribeToCircuitState(callback);
+  }
+
+  // 上游是否可用（未熔断）
+  isUpstreamAvailable(upstream: MeteoraUpstream): boolean {
+    return this.meteoraService.isUpstreamAvailable(upstream);
+  }
 } 
\ No newline at end of file
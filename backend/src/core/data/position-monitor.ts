@@ -1,8 +1,10 @@
 import { PublicKey } from '@solana/web3.js';
-import { PoolData } from './data-types';
+import { PoolData } from './types/PoolData';
 import { PoolService } from './pool-service';
 import { EventEmitter } from 'events';
 import { Cache } from '../../utils/cache';
+import { CacheKeys, CacheTags, poolListCacheTags } from './cache-keys';
+import { RequestPriority } from '../../utils/request-scheduler';
 
 interface Position {
   poolAddress: string;
@@ -11,6 +13,16 @@ interface Position {
   data: PoolData;
 }
 
+/**
+ * 持仓池子数据变化事件
+ */
+export interface PositionUpdateEvent {
+  poolAddress: string;
+  agentAddress: string;
+  changes: string[];    // 变化的字段：liquidity、fees、yields
+  timestamp: Date;
+}
+
 export class PositionMonitor extends EventEmitter {
   private readonly poolService: PoolService;
   private readonly cache: Cache;
@@ -26,39 +38,42 @@ export class PositionMonitor extends EventEmitter {
 
   async getAgentPositions(agentAddress: string): Promise<Position[]> {
     try {
-      // 从缓存获取
-      const cacheKey = `agent_positions_${agentAddress}`;
-      const cachedPositions = this.cache.get<Position[]>(cacheKey);
-      if (cachedPositions) {
-        return cachedPositions;
-      }
-
-      // TODO: 从数据库获取 Agent 的持仓池子地址
-      const poolAddresses: string[] = [];
-
-      // 获取池子详细数据
-      const positions = await Promise.all(
-        poolAddresses.map(async (address) => {
-          const poolData = await this.poolService.getPoolDetail(address);
-          return {
-            poolAddress: address,
-            agentAddress,
-            lastUpdate: new Date(),
-            data: poolData
-          };
-        })
+      // 并发请求共用同一次加载，缓存过期后的宽限期内先返回旧数据
+      return await this.cache.getOrLoad(
+        CacheKeys.agentPositions(agentAddress),
+        () => this.loadAgentPositions(agentAddress),
+        {
+          ttl: this.updateInterval,
+          tags: positions => [
+            CacheTags.agent(agentAddress),
+            ...poolListCacheTags(positions.map(position => position.data))
+          ]
+        }
       );
-
-      // 更新缓存
-      this.cache.set(cacheKey, positions, this.updateInterval);
-
-      return positions;
     } catch (error) {
       console.error('Error getting agent positions:', error);
       throw error;
     }
   }
 
+  private async loadAgentPositions(agentAddress: string): Promise<Position[]> {
+    // TODO: 从数据库获取 Agent 的持仓池子地址
+    const poolAddresses: string[] = [];
+
+    // 获取池子详细数据
+    return Promise.all(
+      poolAddresses.map(async (address) => {
+        const poolData = await this.poolService.getPoolDetail(address);
+        return {
+          poolAddress: address,
+          agentAddress,
+          lastUpdate: new Date(),
+          data: poolData
+        };
+      })
+    );
+  }
+
   async monitorPositionPools(agentAddress: string): Promise<void> {
     try {
       const positions = await this.getAgentPositions(agentAddress);
@@ -94,7 +109,7 @@ export class PositionMonitor extends EventEmitter {
   private async updatePositions(): Promise<void> {
     for (const [poolAddress, position] of this.positions.entries()) {
       try {
-        const newPoolData = await this.poolService.getPoolDetail(poolAddress);
+        const newPoolData = await this.poolService.getPoolDetail(poolAddress, RequestPriority.HIGH);
         
         // 检测数据变化
         const changes = this.detectChanges(position.data, newPoolData);
@@ -104,12 +119,13 @@ export class PositionMonitor extends EventEmitter {
           position.lastUpdate = new Date();
           
           // 发出变化通知
-          this.emit('positionUpdate', {
+          const event: PositionUpdateEvent = {
             poolAddress,
             agentAddress: position.agentAddress,
             changes,
             timestamp: new Date()
-          });
+          };
+          this.emit('positionUpdate', event);
         }
       } catch (error) {
         console.error(`Error updating position for pool ${poolAddress}:`, error);
@@ -141,12 +157,7 @@ export class PositionMonitor extends EventEmitter {
   }
 
   // 订阅持仓更新
-  subscribeToUpdates(callback: (data: {
-    poolAddress: string;
-    agentAddress: string;
-    changes: string[];
-    timestamp: Date;
-  }) => void): () => void {
+  subscribeToUpdates(callback: (data: PositionUpdateEvent) => void): () => void {
     this.on('positionUpdate', callback);
     return () => this.off('positionUpdate', callback);
   }
@@ -0,0 +1,41 @@
+/**
+ * @file 数据仓储工厂
+ * @module core/data/repository-factory
+ * @description 按配置创建 PostgreSQL 仓储或内存仓储（演示模式）
+ */
+
+import { config } from '../../config';
+import logger from '../../utils/logger';
+import { IDataRepository } from './data-repository';
+import { MemoryDataRepository } from './memory-data-repository';
+import { PgDataRepository } from './pg-data-repository';
+
+const REPOSITORY_MODES = ['postgres', 'memory'];
+
+/**
+ * 创建数据仓储
+ * memory 模式下配置了快照文件时，从快照恢复数据并定期写回
+ * @returns 数据仓储实例
+ * @throws 配置的仓储模式不是 postgres 或 memory 时抛出错误
+ */
+export const createDataRepository = async (): Promise<IDataRepository> => {
+  const { mode } = config.dataRepository;
+  if (!REPOSITORY_MODES.includes(mode)) {
+    throw new Error(`Unknown data repository mode "${mode}", expected one of: ${REPOSITORY_MODES.join(', ')}`);
+  }
+  if (mode === 'postgres') {
+    return new PgDataRepository();
+  }
+
+  const repository = new MemoryDataRepository({
+    snapshotPath: config.dataRepository.snapshotPath,
+    snapshotInterval: config.dataRepository.snapshotInterval
+  });
+  if (config.dataRepository.snapshotPath) {
+    const restored = await repository.restoreSnapshot();
+    logger.info(restored
+      ? `Restored in-memory repository from ${config.dataRepository.snapshotPath}`
+      : `No repository snapshot at ${config.dataRepository.snapshotPath}, starting empty`);
+  }
+  return repository;
+};
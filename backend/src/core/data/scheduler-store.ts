@@ -0,0 +1,191 @@
+/**
+ * @file 调度任务状态持久化
+ * @module core/data/scheduler-store
+ * @description 保存 DataScheduler 各任务的暂停状态、上次/下次执行时间和失败计数，重启后恢复；
+ * 多实例部署时管理接口通过存储暂停/恢复任务和请求手动执行，主节点在每次检查时读取
+ */
+
+import { Pool as DbPool } from 'pg';
+import { getDbPool } from '../../db';
+import { config } from '../../config';
+
+/**
+ * 任务的持久化状态
+ */
+export interface TaskState {
+  taskId: string;
+  schedule: string;              // 保存时的调度配置（cron 表达式或 every <毫秒>），配置变化时重新计算下次执行时间
+  paused: boolean;
+  runRequestedAt: Date | null;   // 尚未执行的手动执行请求时间
+  lastRun: Date | null;
+  nextRun: Date | null;
+  lastSuccess: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;   // 连续失败次数，成功后清零
+  totalRuns: number;
+  totalFailures: number;
+}
+
+/**
+ * 任务状态持久化接口
+ * 暂停状态和手动执行请求由管理接口修改（可能在其他实例上），save 只在首次保存任务时写入这两个字段
+ */
+export interface SchedulerStore {
+  loadAll(): Promise<TaskState[]>;
+  save(state: TaskState): Promise<void>;
+  // 修改暂停状态，任务尚未保存过时返回 null
+  setPaused(taskId: string, paused: boolean): Promise<TaskState | null>;
+  // 请求手动执行，已有未执行的请求时保留原请求时间；任务尚未保存过时返回 null
+  requestRun(taskId: string): Promise<TaskState | null>;
+  // 清除不晚于 requestedAt 的执行请求，执行期间新增的请求保留
+  clearRunRequest(taskId: string, requestedAt: Date): Promise<void>;
+}
+
+interface TaskStateRow {
+  task_id: string;
+  schedule: string;
+  paused: boolean;
+  run_requested_at: Date | null;
+  last_run: Date | null;
+  next_run: Date | null;
+  last_success: Date | null;
+  last_error: string | null;
+  consecutive_failures: number;
+  total_runs: string;
+  total_failures: string;
+}
+
+const fromRow = (row: TaskStateRow): TaskState => ({
+  taskId: row.task_id,
+  schedule: row.schedule,
+  paused: row.paused,
+  runRequestedAt: row.run_requested_at,
+  lastRun: row.last_run,
+  nextRun: row.next_run,
+  lastSuccess: row.last_success,
+  lastError: row.last_error,
+  consecutiveFailures: row.consecutive_failures,
+  totalRuns: Number(row.total_runs),
+  totalFailures: Number(row.total_failures)
+});
+
+export class PgSchedulerStore implements SchedulerStore {
+  private readonly db: DbPool;
+
+  constructor(db: DbPool = getDbPool()) {
+    this.db = db;
+  }
+
+  async loadAll(): Promise<TaskState[]> {
+    const { rows } = await this.db.query<TaskStateRow>('SELECT * FROM scheduler_tasks');
+    return rows.map(fromRow);
+  }
+
+  async save(state: TaskState): Promise<void> {
+    await this.db.query(
+      `INSERT INTO scheduler_tasks (
+         task_id, schedule, paused, run_requested_at, last_run, next_run, last_success, last_error,
+         consecutive_failures, total_runs, total_failures, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+       ON CONFLICT (task_id) DO UPDATE SET
+         schedule = EXCLUDED.schedule,
+         last_run = EXCLUDED.last_run,
+         next_run = EXCLUDED.next_run,
+         last_success = EXCLUDED.last_success,
+         last_error = EXCLUDED.last_error,
+         consecutive_failures = EXCLUDED.consecutive_failures,
+         total_runs = EXCLUDED.total_runs,
+         total_failures = EXCLUDED.total_failures,
+         updated_at = NOW()`,
+      [
+        state.taskId,
+        state.schedule,
+        state.paused,
+        state.runRequestedAt,
+        state.lastRun,
+        state.nextRun,
+        state.lastSuccess,
+        state.lastError,
+        state.consecutiveFailures,
+        state.totalRuns,
+        state.totalFailures
+      ]
+    );
+  }
+
+  async setPaused(taskId: string, paused: boolean): Promise<TaskState | null> {
+    const { rows } = await this.db.query<TaskStateRow>(
+      'UPDATE scheduler_tasks SET paused = $2, updated_at = NOW() WHERE task_id = $1 RETURNING *',
+      [taskId, paused]
+    );
+    return rows.length > 0 ? fromRow(rows[0]) : null;
+  }
+
+  async requestRun(taskId: string): Promise<TaskState | null> {
+    // 截断到毫秒，与读取后的 Date 比较时精度一致
+    const { rows } = await this.db.query<TaskStateRow>(
+      `UPDATE scheduler_tasks
+       SET run_requested_at = COALESCE(run_requested_at, date_trunc('milliseconds', NOW()::timestamp)), updated_at = NOW()
+       WHERE task_id = $1
+       RETURNING *`,
+      [taskId]
+    );
+    return rows.length > 0 ? fromRow(rows[0]) : null;
+  }
+
+  async clearRunRequest(taskId: string, requestedAt: Date): Promise<void> {
+    await this.db.query(
+      'UPDATE scheduler_tasks SET run_requested_at = NULL WHERE task_id = $1 AND run_requested_at <= $2',
+      [taskId, requestedAt]
+    );
+  }
+}
+
+/**
+ * 无数据库的演示模式使用，状态只保存在进程内
+ */
+export class MemorySchedulerStore implements SchedulerStore {
+  private states: Map<string, TaskState> = new Map();
+
+  async loadAll(): Promise<TaskState[]> {
+    return Array.from(this.states.values()).map(state => ({ ...state }));
+  }
+
+  async save(state: TaskState): Promise<void> {
+    const saved = this.states.get(state.taskId);
+    this.states.set(state.taskId, saved
+      ? { ...state, paused: saved.paused, runRequestedAt: saved.runRequestedAt }
+      : { ...state });
+  }
+
+  async setPaused(taskId: string, paused: boolean): Promise<TaskState | null> {
+    return this.update(taskId, { paused });
+  }
+
+  async requestRun(taskId: string): Promise<TaskState | null> {
+    const saved = this.states.get(taskId);
+    return this.update(taskId, { runRequestedAt: saved?.runRequestedAt ?? new Date() });
+  }
+
+  async clearRunRequest(taskId: string, requestedAt: Date): Promise<void> {
+    const saved = this.states.get(taskId);
+    if (saved?.runRequestedAt && saved.runRequestedAt.getTime() <= requestedAt.getTime()) {
+      this.update(taskId, { runRequestedAt: null });
+    }
+  }
+
+  private update(taskId: string, changes: Partial<TaskState>): TaskState | null {
+    const saved = this.states.get(taskId);
+    if (!saved) return null;
+    const updated = { ...saved, ...changes };
+    this.states.set(taskId, updated);
+    return { ...updated };
+  }
+}
+
+/**
+ * 按数据仓储模式创建任务状态存储
+ */
+export const createSchedulerStore = (): SchedulerStore =>
+  config.dataRepository.mode === 'postgres' ? new PgSchedulerStore() : new MemorySchedulerStore();
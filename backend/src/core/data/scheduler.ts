@@ -2,43 +2,138 @@ import { EventEmitter } from 'events';
 import { PoolService } from './pool-service';
 import { PositionMonitor } from './position-monitor';
 import { Cache } from '../../utils/cache';
+import { CacheKeys, poolListCacheTags } from './cache-keys';
+import { MeteoraUpstream } from '../../services/meteora';
+import { PoolData } from './types/PoolData';
+import { CircuitState, CircuitStateChangeEvent } from '../../utils/circuit-breaker';
+import { CronExpression } from '../../utils/cron';
+import { SignalEngine } from '../signal/signal-engine';
+import { PoolAnalyticsJob } from '../analytics/pool-analytics';
+import { MarketMetricsStore } from './metrics-store';
+import { MarketMetrics } from './data-types';
+import { SchedulerStore, TaskState, createSchedulerStore } from './scheduler-store';
+import { config } from '../../config';
 
-interface Task {
+const TOP_POOLS_TTL = 300000; // Top 100列表缓存时间（5分钟）
+
+/**
+ * 任务调度方式：cron 表达式（UTC）或固定间隔（毫秒）
+ */
+export type TaskSchedule = { cron: string } | { interval: number };
+
+/**
+ * 任务定义
+ */
+export interface TaskDefinition {
   id: string;
   name: string;
-  execute: () => Promise<void>;
-  interval: number;
-  lastRun?: Date;
-  nextRun?: Date;
+  schedule: TaskSchedule;
+  execute: () => Promise<void>;  // 抛出错误视为本次执行失败
+  jitter?: number;               // 每次下次执行时间附加的随机延迟上限（毫秒），默认 config.scheduler.defaultJitter
+  timeout?: number;              // 执行超时（毫秒），默认 config.scheduler.defaultTimeout
+  upstreams?: MeteoraUpstream[]; // 依赖的上游，任一熔断时跳过本次执行
+}
+
+/**
+ * 任务状态，供管理接口和监控读取
+ */
+export interface TaskStatus extends TaskState {
+  name: string;
+  isRunning: boolean;
+}
+
+export interface TaskRunEvent {
+  taskId: string;
+  trigger: 'schedule' | 'manual';
+  duration: number;              // 执行耗时（毫秒）
+  timestamp: Date;
+}
+
+export interface TaskErrorEvent extends TaskRunEvent {
+  error: Error;
+  consecutiveFailures: number;
+}
+
+export interface TaskSkippedEvent {
+  taskId: string;
+  reason: string;
+  timestamp: Date;
+}
+
+interface Task extends TaskDefinition {
+  cron: CronExpression | null;
+  state: TaskState;
   isRunning: boolean;
 }
 
+/**
+ * 可选的调度依赖，未提供时不创建对应任务
+ */
+export interface DataSchedulerOptions {
+  signalEngine?: SignalEngine;       // 每轮Top 100刷新后评估池子等级，池子分析后更新其流动性集中度
+  analyticsJob?: PoolAnalyticsJob;   // 定期计算池子分析指标
+  metricsStore?: MarketMetricsStore; // 记录每轮刷新的市场指标并执行保留策略
+  store?: SchedulerStore;            // 任务状态存储，默认按数据仓储模式创建
+}
+
+const describeSchedule = (schedule: TaskSchedule): string =>
+  'cron' in schedule ? schedule.cron : `every ${schedule.interval}ms`;
+
 export class DataScheduler extends EventEmitter {
   private readonly poolService: PoolService;
   private readonly positionMonitor: PositionMonitor;
   private readonly cache: Cache;
+  private readonly signalEngine?: SignalEngine;
+  private readonly analyticsJob?: PoolAnalyticsJob;
+  private readonly metricsStore?: MarketMetricsStore;
+  private readonly store: SchedulerStore;
   private tasks: Map<string, Task> = new Map();
+  // 从存储恢复的状态，任务注册时按 taskId 合并；恢复之前不写入存储，避免覆盖已保存的状态
+  private persisted: Map<string, TaskState> = new Map();
+  private restored = false;
+  // 各任务正在进行的状态写入
+  private saving: Map<string, Promise<void>> = new Map();
   private schedulerInterval: NodeJS.Timeout | null = null;
+  // 上一次检查尚未结束时跳过本次检查
+  private ticking = false;
+  private unsubscribeCircuit: (() => void) | null = null;
 
-  constructor(poolService: PoolService, positionMonitor: PositionMonitor) {
+  constructor(poolService: PoolService, positionMonitor: PositionMonitor, options: DataSchedulerOptions = {}) {
     super();
     this.poolService = poolService;
     this.positionMonitor = positionMonitor;
+    this.signalEngine = options.signalEngine;
+    this.analyticsJob = options.analyticsJob;
+    this.metricsStore = options.metricsStore;
+    this.store = options.store ?? createSchedulerStore();
     this.cache = Cache.getInstance();
+    // 未启动调度的实例（从节点）也注册内置任务，管理接口据此显示任务名称
+    this.initializeTasks();
   }
 
-  start(): void {
+  /**
+   * 恢复任务状态并开始调度
+   * 每次启动都重新读取状态（多实例部署时其他实例可能在本实例停止期间执行过任务），状态存储不可用时沿用内存中的状态
+   */
+  async start(): Promise<void> {
     if (this.schedulerInterval) {
       clearInterval(this.schedulerInterval);
     }
 
-    // 每30秒检查一次任务
+    await this.restoreStates();
+
     this.schedulerInterval = setInterval(() => {
-      this.checkAndExecuteTasks();
-    }, 30000);
+      this.tick().catch(error => {
+        console.error('Error checking scheduler tasks:', error);
+      });
+    }, config.scheduler.tickInterval);
 
-    // 初始化任务
-    this.initializeTasks();
+    // 监听上游熔断状态
+    if (!this.unsubscribeCircuit) {
+      this.unsubscribeCircuit = this.poolService.subscribeToCircuitState(
+        event => this.handleCircuitStateChange(event)
+      );
+    }
   }
 
   stop(): void {
@@ -46,121 +141,512 @@ export class DataScheduler extends EventEmitter {
       clearInterval(this.schedulerInterval);
       this.schedulerInterval = null;
     }
+    if (this.unsubscribeCircuit) {
+      this.unsubscribeCircuit();
+      this.unsubscribeCircuit = null;
+    }
+  }
+
+  /**
+   * 注册任务
+   * 存储中有同一 taskId 的状态时沿用其暂停状态、执行记录和失败计数；调度配置变化时重新计算下次执行时间
+   * @param definition - 任务定义
+   */
+  registerTask(definition: TaskDefinition): TaskStatus {
+    if (this.tasks.has(definition.id)) {
+      throw new Error(`Task already registered: ${definition.id}`);
+    }
+    if ('interval' in definition.schedule && !(definition.schedule.interval > 0)) {
+      throw new Error(`Invalid interval for task ${definition.id}: ${definition.schedule.interval}`);
+    }
+
+    const task: Task = {
+      ...definition,
+      cron: 'cron' in definition.schedule ? CronExpression.parse(definition.schedule.cron) : null,
+      state: {
+        taskId: definition.id,
+        schedule: describeSchedule(definition.schedule),
+        paused: false,
+        runRequestedAt: null,
+        lastRun: null,
+        nextRun: null,
+        lastSuccess: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        totalRuns: 0,
+        totalFailures: 0
+      },
+      isRunning: false
+    };
+    this.applyPersistedState(task);
+    this.tasks.set(task.id, task);
+    if (this.restored) {
+      this.persist(task);
+    }
+    return this.toStatus(task);
+  }
+
+  /**
+   * 移除任务，正在执行的任务会执行完毕；已保存的状态保留，重新注册时恢复
+   */
+  unregisterTask(taskId: string): boolean {
+    return this.tasks.delete(taskId);
+  }
+
+  /**
+   * 暂停任务，暂停期间不按计划执行，仍可手动触发
+   * 暂停状态写入存储，运行调度的实例（主节点）在下一次检查时读取
+   * @returns 暂停后的任务状态，任务不存在时为 null
+   */
+  async pauseTask(taskId: string): Promise<TaskStatus | null> {
+    return this.setPaused(taskId, true);
+  }
+
+  /**
+   * 恢复任务，错过的计划执行时间会在下一次检查时补跑一次
+   * @returns 恢复后的任务状态，任务不存在时为 null
+   */
+  async resumeTask(taskId: string): Promise<TaskStatus | null> {
+    return this.setPaused(taskId, false);
+  }
+
+  /**
+   * 请求手动执行任务，由运行调度的实例（主节点）在下一次检查时执行，不受暂停状态和上游熔断影响
+   * @returns 记录请求后的任务状态，任务不存在时为 null
+   */
+  async requestRun(taskId: string): Promise<TaskStatus | null> {
+    const saved = await this.store.requestRun(taskId);
+    return saved ? this.withTask(saved) : null;
+  }
+
+  /**
+   * 本实例是否在运行调度（多实例部署时只有主节点运行）
+   */
+  isScheduling(): boolean {
+    return this.schedulerInterval !== null;
+  }
+
+  /**
+   * 在本实例立即执行任务，不受暂停状态和上游熔断影响
+   * @returns 执行后的任务状态，执行失败时状态中包含错误信息
+   */
+  async triggerTask(taskId: string): Promise<TaskStatus> {
+    const task = this.requireTask(taskId);
+    if (task.isRunning) {
+      throw new Error(`Task ${taskId} is already running`);
+    }
+    await this.executeTask(task, 'manual');
+    return this.toStatus(task);
+  }
+
+  private async setPaused(taskId: string, paused: boolean): Promise<TaskStatus | null> {
+    const saved = await this.store.setPaused(taskId, paused);
+    const task = this.tasks.get(taskId);
+    if (task && task.state.paused !== paused) {
+      task.state.paused = paused;
+      // 任务尚未保存过时随首次保存写入暂停状态
+      if (!saved) {
+        this.persist(task);
+      } else {
+        this.emit('taskStateChanged', this.toStatus(task));
+      }
+    }
+    if (saved) return this.withTask(saved);
+    return task ? this.toStatus(task) : null;
+  }
+
+  private async restoreStates(): Promise<void> {
+    try {
+      const states = await this.store.loadAll();
+      this.persisted = new Map(states.map(state => [state.taskId, state]));
+      this.tasks.forEach(task => this.applyPersistedState(task));
+    } catch (error) {
+      console.error('Error restoring scheduler task states:', error);
+    }
+    this.restored = true;
+    this.tasks.forEach(task => this.persist(task));
+  }
+
+  private applyPersistedState(task: Task): void {
+    const saved = this.persisted.get(task.id);
+    const now = new Date();
+    if (!saved) {
+      task.state.nextRun = this.nextRunTime(task, now);
+      return;
+    }
+
+    task.state = { ...saved, schedule: task.state.schedule };
+    if (saved.schedule !== task.state.schedule || !saved.nextRun) {
+      task.state.nextRun = this.nextRunTime(task, now);
+    }
+  }
+
+  private handleCircuitStateChange(event: CircuitStateChangeEvent): void {
+    const upstream = event.name as MeteoraUpstream;
+    const affected = Array.from(this.tasks.values()).filter(task => task.upstreams?.includes(upstream));
+
+    if (event.to === CircuitState.OPEN) {
+      console.warn(`Upstream ${upstream} circuit opened, pausing tasks: ${affected.map(t => t.id).join(', ')}`);
+    } else if (event.to === CircuitState.CLOSED) {
+      // 上游恢复后尽快补跑被跳过的任务
+      const now = new Date();
+      affected.forEach(task => {
+        task.state.nextRun = now;
+        this.persist(task);
+      });
+    }
   }
 
   private initializeTasks(): void {
     // Top 100池子列表更新任务（5分钟）
-    this.addTask({
+    this.registerTask({
       id: 'update_top_pools',
       name: 'Update Top 100 Pools',
+      schedule: { interval: config.pools.updateInterval },
       execute: async () => {
-        try {
-          const pools = await this.poolService.getTop100Pools();
-          this.cache.set('top_pools', pools, 300000); // 5分钟缓存
-          this.emit('taskSuccess', {
-            taskId: 'update_top_pools',
-            timestamp: new Date()
-          });
-        } catch (error) {
-          console.error('Error updating top pools:', error);
-          this.emit('taskError', {
-            taskId: 'update_top_pools',
-            error,
-            timestamp: new Date()
+        const { pools, changed, removed, timestamp } = await this.poolService.refreshTopPools();
+        await this.cache.set(CacheKeys.topPools(), pools, TOP_POOLS_TTL, {
+          staleTtl: config.cache.staleTtl,
+          tags: poolListCacheTags(pools)
+        });
+
+        if (changed.length > 0 || removed.length > 0) {
+          this.emit('poolsChanged', { changed, removed, timestamp });
+        }
+
+        // 记录本轮所有池子的市场指标，写入失败不影响池子列表更新
+        if (this.metricsStore) {
+          await this.metricsStore.saveMarketMetricsBatch(pools.map(pool => this.toMarketMetrics(pool, timestamp)))
+            .catch(error => {
+              console.error('Error saving market metrics:', error);
+            });
+        }
+
+        // 每轮刷新后重新评估池子等级，评估失败不影响池子列表更新
+        if (this.signalEngine) {
+          await this.signalEngine.evaluate(pools).catch(error => {
+            console.error('Error evaluating pool signals:', error);
           });
         }
       },
-      interval: 300000 // 5分钟
+      upstreams: ['api']
     });
 
+    // 池子分析任务（1小时）
+    if (this.analyticsJob) {
+      const analyticsJob = this.analyticsJob;
+      this.registerTask({
+        id: 'update_pool_analytics',
+        name: 'Update Pool Analytics',
+        schedule: { interval: config.analytics.updateInterval },
+        execute: async () => {
+          const pools = await this.cache.getOrLoad<PoolData[]>(
+            CacheKeys.topPools(),
+            () => this.poolService.getTop100Pools(),
+            { ttl: TOP_POOLS_TTL, tags: poolListCacheTags }
+          );
+          const result = await analyticsJob.run(pools);
+          if (result.failed.length > 0) {
+            console.warn(`Pool analytics failed for ${result.failed.length} pools`);
+          }
+          // 候选池列表不含bin，信号引擎的流动性集中度使用分析任务根据bin快照计算的结果
+          result.analytics.forEach(analytics => {
+            this.signalEngine?.recordLiquidityConcentration(analytics.poolAddress, analytics.liquidityConcentration);
+          });
+        },
+        upstreams: ['api', 'rpc']
+      });
+    }
+
+    // 市场指标归档和清理任务（每天）
+    if (this.metricsStore) {
+      const metricsStore = this.metricsStore;
+      this.registerTask({
+        id: 'cleanup_market_metrics',
+        name: 'Archive And Cleanup Market Metrics',
+        schedule: { cron: config.metrics.cleanupSchedule },
+        execute: async () => {
+          const beforeDate = new Date(Date.now() - config.metrics.retention.raw);
+          await metricsStore.archiveData(beforeDate);
+          await metricsStore.cleanupOldData(beforeDate);
+        }
+      });
+    }
+
     // Agent持仓监控任务（5分钟）
-    this.addTask({
+    this.registerTask({
       id: 'monitor_positions',
       name: 'Monitor Agent Positions',
+      schedule: { interval: 300000 },
       execute: async () => {
-        try {
-          // TODO: 从数据库获取所有活跃的Agent地址
-          const agentAddresses: string[] = [];
-          
-          for (const address of agentAddresses) {
-            await this.positionMonitor.monitorPositionPools(address);
-          }
-          
-          this.emit('taskSuccess', {
-            taskId: 'monitor_positions',
-            timestamp: new Date()
-          });
-        } catch (error) {
-          console.error('Error monitoring positions:', error);
-          this.emit('taskError', {
-            taskId: 'monitor_positions',
-            error,
-            timestamp: new Date()
-          });
+        // TODO: 从数据库获取所有活跃的Agent地址
+        const agentAddresses: string[] = [];
+
+        for (const address of agentAddresses) {
+          await this.positionMonitor.monitorPositionPools(address);
         }
       },
-      interval: 300000 // 5分钟
+      upstreams: ['rpc']
     });
   }
 
-  private addTask(task: Omit<Task, 'lastRun' | 'nextRun' | 'isRunning'>): void {
-    const now = Date.now();
-    this.tasks.set(task.id, {
-      ...task,
-      lastRun: undefined,
-      nextRun: new Date(now + task.interval),
-      isRunning: false
-    });
+  private toMarketMetrics(pool: PoolData, timestamp: Date): MarketMetrics {
+    return {
+      poolId: pool.address,
+      timestamp,
+      price: pool.parameters.currentPrice || 0,
+      volume: pool.volume.last24h,
+      liquidity: parseFloat(pool.liquidity.total) || 0,
+      fees: pool.fees.last24h
+    };
   }
 
-  private async checkAndExecuteTasks(): Promise<void> {
-    const now = Date.now();
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.syncRequests();
+      this.checkAndExecuteTasks();
+    } finally {
+      this.ticking = false;
+    }
+  }
 
-    for (const [taskId, task] of this.tasks.entries()) {
-      if (task.isRunning) continue;
+  /**
+   * 读取管理接口（可能在其他实例上）写入的暂停状态和手动执行请求
+   * 存储不可用时沿用内存中的状态
+   */
+  private async syncRequests(): Promise<void> {
+    let states: TaskState[];
+    try {
+      states = await this.store.loadAll();
+    } catch (error) {
+      console.error('Error loading scheduler task requests:', error);
+      return;
+    }
+
+    for (const saved of states) {
+      const task = this.tasks.get(saved.taskId);
+      if (!task) continue;
+
+      if (task.state.paused !== saved.paused) {
+        task.state.paused = saved.paused;
+        this.emit('taskStateChanged', this.toStatus(task));
+      }
 
-      if (!task.nextRun || task.nextRun.getTime() <= now) {
-        await this.executeTask(taskId);
+      // 任务正在执行时保留请求，执行结束后的下一次检查再执行
+      const requestedAt = saved.runRequestedAt;
+      task.state.runRequestedAt = requestedAt;
+      if (requestedAt && !task.isRunning) {
+        task.state.runRequestedAt = null;
+        this.store.clearRunRequest(task.id, requestedAt).catch(error => {
+          console.error(`Error clearing run request for task ${task.id}:`, error);
+        });
+        void this.executeTask(task, 'manual');
       }
     }
   }
 
-  private async executeTask(taskId: string): Promise<void> {
-    const task = this.tasks.get(taskId);
-    if (!task) return;
+  private checkAndExecuteTasks(): void {
+    const now = new Date();
+
+    for (const task of this.tasks.values()) {
+      if (task.isRunning || task.state.paused) continue;
+      if (task.state.nextRun && task.state.nextRun.getTime() > now.getTime()) continue;
+
+      const blocked = task.upstreams?.find(upstream => !this.poolService.isUpstreamAvailable(upstream));
+      if (blocked) {
+        task.state.nextRun = this.nextRunTime(task, now);
+        this.persist(task);
+        const event: TaskSkippedEvent = { taskId: task.id, reason: `${blocked} circuit open`, timestamp: now };
+        this.emit('taskSkipped', event);
+        continue;
+      }
 
+      // 各任务独立执行，耗时长的任务不阻塞其他任务
+      void this.executeTask(task, 'schedule');
+    }
+  }
+
+  /**
+   * 执行任务并记录结果
+   * 超时后本次执行记为失败，但任务在原执行结束前保持运行状态，避免同一任务重叠执行
+   */
+  private async executeTask(task: Task, trigger: TaskRunEvent['trigger']): Promise<void> {
+    const startedAt = Date.now();
     task.isRunning = true;
-    task.lastRun = new Date();
+    task.state.lastRun = new Date(startedAt);
+    task.state.totalRuns++;
+    this.persist(task);
+
+    const execution = Promise.resolve()
+      .then(() => task.execute())
+      .finally(() => {
+        task.isRunning = false;
+      });
 
     try {
-      await task.execute();
-    } catch (error) {
-      console.error(`Error executing task ${taskId}:`, error);
-    } finally {
-      task.isRunning = false;
-      task.nextRun = new Date(Date.now() + task.interval);
+      await this.withTimeout(execution, task.timeout ?? config.scheduler.defaultTimeout, task.id);
+
+      const now = new Date();
+      task.state.lastSuccess = now;
+      task.state.lastError = null;
+      task.state.consecutiveFailures = 0;
+      task.state.nextRun = this.nextRunTime(task, now);
+      const event: TaskRunEvent = { taskId: task.id, trigger, duration: now.getTime() - startedAt, timestamp: now };
+      this.emit('taskSuccess', event);
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      const now = new Date();
+      task.state.lastError = error.message;
+      task.state.consecutiveFailures++;
+      task.state.totalFailures++;
+      task.state.nextRun = new Date(Math.max(
+        this.nextRunTime(task, now).getTime(),
+        now.getTime() + this.backoffDelay(task.state.consecutiveFailures)
+      ));
+
+      console.error(`Error executing task ${task.id}:`, error);
+      const event: TaskErrorEvent = {
+        taskId: task.id,
+        trigger,
+        duration: now.getTime() - startedAt,
+        timestamp: now,
+        error,
+        consecutiveFailures: task.state.consecutiveFailures
+      };
+      this.emit('taskError', event);
     }
+
+    this.persist(task);
+  }
+
+  private withTimeout(execution: Promise<void>, timeout: number, taskId: string): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Task ${taskId} timed out after ${timeout}ms`)), timeout);
+    });
+    return Promise.race([execution, timeoutPromise]).finally(() => clearTimeout(timer));
+  }
+
+  // 按调度配置计算 from 之后的下一次执行时间，并加上随机延迟
+  private nextRunTime(task: Task, from: Date): Date {
+    const base = task.cron
+      ? task.cron.next(from).getTime()
+      : from.getTime() + (task.schedule as { interval: number }).interval;
+    const jitter = task.jitter ?? config.scheduler.defaultJitter;
+    return new Date(base + Math.floor(Math.random() * jitter));
+  }
+
+  private backoffDelay(consecutiveFailures: number): number {
+    const { initialDelay, maxDelay, factor } = config.scheduler.backoff;
+    return Math.min(initialDelay * Math.pow(factor, consecutiveFailures - 1), maxDelay);
+  }
+
+  // 同一任务的状态按变化顺序依次写入，避免较早的状态后写完覆盖较新的状态；写入失败只记录错误，不影响调度
+  private persist(task: Task): void {
+    const state = { ...task.state };
+    const saving = (this.saving.get(task.id) ?? Promise.resolve())
+      .then(() => this.store.save(state))
+      .catch(error => {
+        console.error(`Error saving state for task ${task.id}:`, error);
+      })
+      .finally(() => {
+        if (this.saving.get(task.id) === saving) {
+          this.saving.delete(task.id);
+        }
+      });
+    this.saving.set(task.id, saving);
+    this.emit('taskStateChanged', this.toStatus(task));
+  }
+
+  private requireTask(taskId: string): Task {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Unknown task: ${taskId}`);
+    }
+    return task;
+  }
+
+  private toStatus(task: Task): TaskStatus {
+    return { ...task.state, name: task.name, isRunning: task.isRunning };
   }
 
-  // 获取任务状态
-  getTaskStatus(taskId: string): Task | null {
-    return this.tasks.get(taskId) || null;
+  /**
+   * 合并存储中的状态和本实例的任务
+   * 运行调度的实例以内存中的执行状态为准（写入存储是异步的），暂停状态和执行请求以存储为准
+   */
+  private withTask(saved: TaskState): TaskStatus {
+    const task = this.tasks.get(saved.taskId);
+    if (task && this.isScheduling()) {
+      return { ...this.toStatus(task), paused: saved.paused, runRequestedAt: saved.runRequestedAt };
+    }
+    return { ...saved, name: task?.name ?? saved.taskId, isRunning: false };
   }
 
-  // 获取所有任务状态
-  getAllTaskStatus(): Task[] {
-    return Array.from(this.tasks.values());
+  // 获取本实例内存中的任务状态
+  getTaskStatus(taskId: string): TaskStatus | null {
+    const task = this.tasks.get(taskId);
+    return task ? this.toStatus(task) : null;
+  }
+
+  // 获取本实例内存中的所有任务状态
+  getAllTaskStatus(): TaskStatus[] {
+    return Array.from(this.tasks.values()).map(task => this.toStatus(task));
+  }
+
+  /**
+   * 从存储读取任务状态，不运行调度的实例（从节点）也能看到主节点保存的状态
+   * @returns 任务状态，存储和本实例中都没有该任务时为 null
+   */
+  async loadTaskStatus(taskId: string): Promise<TaskStatus | null> {
+    const saved = (await this.store.loadAll()).find(state => state.taskId === taskId);
+    if (saved) return this.withTask(saved);
+    return this.getTaskStatus(taskId);
+  }
+
+  /**
+   * 从存储读取所有任务状态，本实例注册但尚未保存过的任务使用内存中的状态
+   */
+  async loadAllTaskStatus(): Promise<TaskStatus[]> {
+    const statuses = new Map((await this.store.loadAll()).map(saved => [saved.taskId, this.withTask(saved)]));
+    this.tasks.forEach(task => {
+      if (!statuses.has(task.id)) {
+        statuses.set(task.id, this.toStatus(task));
+      }
+    });
+    return Array.from(statuses.values());
+  }
+
+  // 订阅Top 100池子变化事件（只包含新进入或字段变化的池子）
+  subscribeToPoolChanges(
+    callback: (data: { changed: PoolData[]; removed: string[]; timestamp: Date }) => void
+  ): () => void {
+    this.on('poolsChanged', callback);
+    return () => this.off('poolsChanged', callback);
   }
 
   // 订阅任务成功事件
-  subscribeToSuccess(callback: (data: { taskId: string; timestamp: Date }) => void): () => void {
+  subscribeToSuccess(callback: (data: TaskRunEvent) => void): () => void {
     this.on('taskSuccess', callback);
     return () => this.off('taskSuccess', callback);
   }
 
   // 订阅任务错误事件
-  subscribeToError(callback: (data: { taskId: string; error: Error; timestamp: Date }) => void): () => void {
+  subscribeToError(callback: (data: TaskErrorEvent) => void): () => void {
     this.on('taskError', callback);
     return () => this.off('taskError', callback);
   }
-} 
\ No newline at end of file
+
+  // 订阅任务跳过事件（依赖的上游熔断）
+  subscribeToSkipped(callback: (data: TaskSkippedEvent) => void): () => void {
+    this.on('taskSkipped', callback);
+    return () => this.off('taskSkipped', callback);
+  }
+
+  // 订阅任务状态变化（注册、暂停、恢复、开始和结束执行）
+  subscribeToTaskState(callback: (status: TaskStatus) => void): () => void {
+    this.on('taskStateChanged', callback);
+    return () => this.off('taskStateChanged', callback);
+  }
+}
@@ -1,23 +1,30 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import type { PoolService } from '../../../services/pool.service';
+import { ConnectionManager, FailoverEvent } from '../../solana/connection-manager';
 import { Logger } from '../../../utils/logger';
 import { WhaleActivityEvent } from '../types/WhaleActivity';
 import { PoolData, Bin } from '../types/PoolData';
+import { BinUtils } from '../bin-utils';
 
 export class WhaleActivityMonitor {
   private poolSnapshots: Map<string, PoolData>;
+  private connectionManager: ConnectionManager;
   private connection: Connection;
   private logger: Logger;
   private poolService: PoolService;
   private watchedPools: Set<string>;
   private listeners: Map<string, number>;
+  private unsubscribeFailover: (() => void) | null = null;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private activitySubscribers: Set<(activity: WhaleActivityEvent) => void> = new Set();
 
   constructor(
-    connection: Connection,
+    connectionManager: ConnectionManager,
     poolService: PoolService,
     logger: Logger
   ) {
-    this.connection = connection;
+    this.connectionManager = connectionManager;
+    this.connection = connectionManager.getConnection();
     this.poolService = poolService;
     this.logger = logger;
     this.poolSnapshots = new Map();
@@ -28,19 +35,37 @@ export class WhaleActivityMonitor {
   // 启动监控服务
   public async start() {
     // 开始定期轮询
-    setInterval(() => this.pollPools(), 5 * 60 * 1000); // 每5分钟
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+    }
+    this.pollInterval = setInterval(() => this.pollPools(), 5 * 60 * 1000); // 每5分钟
     
+    // RPC节点切换后，在新连接上重建账户订阅
+    this.unsubscribeFailover = this.connectionManager.subscribeToFailover(
+      event => this.handleFailover(event)
+    );
+
     // 初始化事件监听
     await this.setupEventListeners();
   }
 
   // 停止监控服务
   public async stop() {
-    // 清理所有监听器
-    for (const [poolAddress, listenerId] of this.listeners) {
-      this.connection.removeAccountChangeListener(listenerId);
-      this.listeners.delete(poolAddress);
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    if (this.unsubscribeFailover) {
+      this.unsubscribeFailover();
+      this.unsubscribeFailover = null;
     }
+    this.removeAllListeners();
+  }
+
+  // 订阅大户活动
+  public subscribeToActivity(callback: (activity: WhaleActivityEvent) => void): () => void {
+    this.activitySubscribers.add(callback);
+    return () => this.activitySubscribers.delete(callback);
   }
 
   // 添加要监控的池子
@@ -62,6 +87,20 @@ export class WhaleActivityMonitor {
     }
   }
 
+  // 把监控列表同步为给定的池子：新增的开始监控，不在列表中的停止监控
+  public async watchPools(poolAddresses: string[]) {
+    const next = new Set(poolAddresses);
+    for (const poolAddress of Array.from(this.watchedPools)) {
+      if (!next.has(poolAddress)) {
+        this.removePoolFromWatch(poolAddress);
+        this.poolSnapshots.delete(poolAddress);
+      }
+    }
+    for (const poolAddress of next) {
+      await this.addPoolToWatch(poolAddress);
+    }
+  }
+
   // 私有方法实现
   private async pollPools() {
     for (const poolAddress of this.watchedPools) {
@@ -69,6 +108,24 @@ export class WhaleActivityMonitor {
     }
   }
 
+  // 订阅已在最健康的连接上时不重建，避免每次切换事件都重新订阅所有池子
+  private async handleFailover(event: FailoverEvent) {
+    const connection = this.connectionManager.getConnection();
+    if (connection === this.connection) return;
+
+    this.logger.warn(`RPC failover (${event.from} -> ${event.to}), resubscribing pool listeners`);
+    this.removeAllListeners();
+    this.connection = connection;
+    await this.setupEventListeners();
+  }
+
+  private removeAllListeners() {
+    for (const [poolAddress, listenerId] of this.listeners) {
+      this.connection.removeAccountChangeListener(listenerId);
+      this.listeners.delete(poolAddress);
+    }
+  }
+
   private async setupEventListeners() {
     for (const poolAddress of this.watchedPools) {
       await this.setupPoolListener(poolAddress);
@@ -224,18 +281,12 @@ export class WhaleActivityMonitor {
   }
 
   private calculateConcentration(data: PoolData): number {
-    const totalLiquidity = parseFloat(data.liquidity.total || '0');
-    if (totalLiquidity === 0) return 0;
-    
     const sortedBins = [...data.bins].sort((a, b) => 
       parseFloat(b.totalLiquidity || '0') - parseFloat(a.totalLiquidity || '0')
     );
     
-    const top10BinsLiquidity = sortedBins
-      .slice(0, 10)
-      .reduce((sum, bin) => sum + parseFloat(bin.totalLiquidity || '0'), 0);
-    
-    return top10BinsLiquidity / totalLiquidity;
+    // 流动性最高的10个bin占全部bin的USD价值比例
+    return BinUtils.liquidityShare(sortedBins.slice(0, 10), data.bins);
   }
 
   private assessRiskLevel(totalChangePercent: number, topChanges: Array<{percent: number}>): 'low' | 'medium' | 'high' {
@@ -250,6 +301,13 @@ export class WhaleActivityMonitor {
 
   private async notifyWhaleActivity(activity: WhaleActivityEvent) {
     this.logger.info('Whale Activity Detected:', activity);
-    // TODO: 实现通知机制（如WebSocket、webhook等）
+    this.activitySubscribers.forEach(callback => {
+      try {
+        callback(activity);
+      } catch (error) {
+        this.logger.error('Whale activity subscriber failed:', error);
+      }
+    });
+    // TODO: 实现外部通知机制（如WebSocket、webhook等）
   }
 } 
\ No newline at end of file
@@ -1,135 +1,415 @@
-import { PublicKey } from '@solana/web3.js';
-import { PoolData, TokenInfo, MarketMetrics } from './data-types';
+/**
+ * @file 数据格式转换
+ * @module core/data/transformers
+ * @description 在 Meteora 接口格式、数据库行格式、API响应格式与 shared 中的池子领域模型之间转换
+ */
+
+import {
+  POOL_MODEL_VERSION,
+  PoolModel,
+  PoolSummary,
+  TimeSeriesData,
+  TokenModel
+} from '@liqpro/shared/src/types/poolModel';
+import { PoolResponse } from '@liqpro/shared/src/types/api';
+import { MeteoraPair, MeteoraTimeSeries } from '../../services/schemas/meteora-pair.schema';
+import { MarketMetrics } from './data-types';
 import { DataUtils } from './data-utils';
 
+/**
+ * pools 表的行
+ * DECIMAL 字段由 pg 以字符串返回；代币价格读取时关联 tokens 表，不写入 pools 表
+ */
+export interface PoolRow {
+  address: string;
+  name: string;
+  token_x_mint: string;
+  token_x_symbol: string;
+  token_x_decimals: number;
+  token_x_reserve: string | null;
+  token_x_amount: string;
+  token_x_price: string | null;
+  token_y_mint: string;
+  token_y_symbol: string;
+  token_y_decimals: number;
+  token_y_reserve: string | null;
+  token_y_amount: string;
+  token_y_price: string | null;
+  bin_step: number;
+  base_fee: string;
+  max_fee: string;
+  protocol_fee: string;
+  current_price: string;
+  total_liquidity: string;
+  volume_24h: string;
+  cumulative_volume: string;
+  fees_24h: string;
+  fees_today: string;
+  fees_tvl_ratio: string;
+  apr: string;
+  apy: string;
+  reward_mint_x: string | null;
+  reward_mint_y: string | null;
+  farm_apr: string;
+  farm_apy: string;
+  hide: boolean;
+  is_blacklisted: boolean;
+  tags: string[];
+  last_update: Date;
+  model_version: number;
+}
+
+/**
+ * tokens 表的行
+ */
+export interface TokenRow {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  price: string;
+  reserve: string | null;
+  amount: string;
+}
+
+/**
+ * market_metrics 表的行
+ */
+export interface MarketMetricsRow {
+  pool_address: string;
+  timestamp: Date;
+  price: string;
+  volume: string;
+  liquidity: string;
+  fees: string;
+}
+
 export class DataTransformers {
-  static toPoolData(rawData: any): PoolData {
-    if (!DataUtils.isValidPoolData(rawData)) {
-      throw new Error('Invalid pool data format');
-    }
+  /**
+   * Meteora pair/all 接口数据转换为池子模型
+   * 列表接口不提供代币精度、价格和bin分布，由详情接口补充
+   * @param pair - 已通过 schema 校验的接口数据
+   * @param now - 数据拉取时间
+   */
+  static fromMeteoraPair(pair: MeteoraPair, now: Date = new Date()): PoolModel {
+    // 池子名称形如 "SOL-USDC"
+    const [symbolX = '', symbolY = ''] = pair.name.split('-');
 
     return {
-      id: rawData.id,
-      address: new PublicKey(rawData.address),
-      name: rawData.name,
-      tokenA: this.toTokenInfo(rawData.tokenA),
-      tokenB: this.toTokenInfo(rawData.tokenB),
-      liquidity: parseFloat(rawData.liquidity),
-      volume24h: parseFloat(rawData.volume24h),
-      fees24h: parseFloat(rawData.fees24h),
-      apr: parseFloat(rawData.apr),
-      lastUpdate: new Date(rawData.lastUpdate)
+      version: POOL_MODEL_VERSION,
+      id: pair.address,
+      address: pair.address,
+      name: pair.name || pair.address.slice(0, 8),
+      tokens: {
+        tokenX: this.pairToken(pair.mint_x, pair.reserve_x, pair.reserve_x_amount, symbolX),
+        tokenY: this.pairToken(pair.mint_y, pair.reserve_y, pair.reserve_y_amount, symbolY)
+      },
+      fees: {
+        base: pair.base_fee_percentage.toString(),
+        max: pair.max_fee_percentage.toString(),
+        protocol: pair.protocol_fee_percentage.toString(),
+        today: pair.today_fees,
+        last24h: pair.fees_24h
+      },
+      volume: {
+        last24h: pair.trade_volume_24h,
+        cumulative: pair.cumulative_trade_volume.toString()
+      },
+      liquidity: {
+        total: pair.liquidity.toString()
+      },
+      rewards: {
+        mintX: pair.reward_mint_x,
+        mintY: pair.reward_mint_y,
+        farmApr: pair.farm_apr,
+        farmApy: pair.farm_apy
+      },
+      yields: {
+        apr: pair.apr,
+        apy: pair.apy,
+        fees24hTvl: pair.fee_tvl_ratio?.hour_24 || 0
+      },
+      parameters: {
+        binStep: pair.bin_step,
+        currentPrice: pair.current_price,
+        hide: pair.hide,
+        isBlacklisted: pair.is_blacklisted
+      },
+      bins: [],
+      timeSeries: {
+        fees: this.pairTimeSeries(pair.fees),
+        volume: this.pairTimeSeries(pair.volume),
+        feeTvlRatio: this.pairTimeSeries(pair.fee_tvl_ratio)
+      },
+      tags: pair.tags,
+      lastUpdate: now.toISOString()
     };
   }
 
-  static toTokenInfo(rawData: any): TokenInfo {
-    if (!DataUtils.isValidTokenInfo(rawData)) {
-      throw new Error('Invalid token info format');
-    }
-
+  /**
+   * 池子模型转换为仓储保存的汇总数据（去掉bin分布和时间窗口统计）
+   */
+  static toPoolSummary(pool: PoolModel): PoolSummary {
     return {
-      address: new PublicKey(rawData.address),
-      symbol: rawData.symbol,
-      decimals: parseInt(rawData.decimals),
-      price: parseFloat(rawData.price),
-      volume24h: parseFloat(rawData.volume24h)
+      version: pool.version,
+      id: pool.id,
+      address: pool.address,
+      name: pool.name,
+      tokens: pool.tokens,
+      fees: pool.fees,
+      volume: pool.volume,
+      liquidity: pool.liquidity,
+      rewards: pool.rewards,
+      yields: pool.yields,
+      parameters: pool.parameters,
+      tags: pool.tags,
+      lastUpdate: pool.lastUpdate
     };
   }
 
-  static toMarketMetrics(rawData: any): MarketMetrics {
-    if (!DataUtils.isValidMarketMetrics(rawData)) {
-      throw new Error('Invalid market metrics format');
-    }
-
+  /**
+   * 池子汇总数据转换为 pools 表的行
+   * 代币价格一并写入行中，保存时由调用方写入 tokens 表
+   */
+  static toPoolRow(pool: PoolSummary): PoolRow {
+    const { tokenX, tokenY } = pool.tokens;
     return {
-      poolId: rawData.poolId,
-      timestamp: new Date(rawData.timestamp),
-      price: parseFloat(rawData.price),
-      volume: parseFloat(rawData.volume),
-      liquidity: parseFloat(rawData.liquidity),
-      fees: parseFloat(rawData.fees)
+      address: pool.address,
+      name: pool.name,
+      token_x_mint: tokenX.mint,
+      token_x_symbol: tokenX.symbol,
+      token_x_decimals: tokenX.decimals,
+      token_x_reserve: tokenX.reserve || null,
+      token_x_amount: tokenX.amount.toString(),
+      token_x_price: tokenX.price.toString(),
+      token_y_mint: tokenY.mint,
+      token_y_symbol: tokenY.symbol,
+      token_y_decimals: tokenY.decimals,
+      token_y_reserve: tokenY.reserve || null,
+      token_y_amount: tokenY.amount.toString(),
+      token_y_price: tokenY.price.toString(),
+      bin_step: pool.parameters.binStep,
+      base_fee: pool.fees.base,
+      max_fee: pool.fees.max,
+      protocol_fee: pool.fees.protocol,
+      current_price: pool.parameters.currentPrice.toString(),
+      total_liquidity: pool.liquidity.total,
+      volume_24h: pool.volume.last24h.toString(),
+      cumulative_volume: pool.volume.cumulative,
+      fees_24h: pool.fees.last24h.toString(),
+      fees_today: pool.fees.today.toString(),
+      fees_tvl_ratio: pool.yields.fees24hTvl.toString(),
+      apr: pool.yields.apr.toString(),
+      apy: pool.yields.apy.toString(),
+      reward_mint_x: pool.rewards.mintX || null,
+      reward_mint_y: pool.rewards.mintY || null,
+      farm_apr: pool.rewards.farmApr.toString(),
+      farm_apy: pool.rewards.farmApy.toString(),
+      hide: pool.parameters.hide,
+      is_blacklisted: pool.parameters.isBlacklisted,
+      tags: pool.tags,
+      last_update: new Date(pool.lastUpdate),
+      model_version: pool.version
     };
   }
 
-  static toPoolDetail(rawData: any): PoolDetail {
-    const poolData = this.toPoolData(rawData);
-    
+  /**
+   * pools 表的行转换为池子汇总数据
+   * 数据库未保存池子ID，使用池子地址
+   */
+  static fromPoolRow(row: PoolRow): PoolSummary {
     return {
-      ...poolData,
-      metrics: {
-        priceChange24h: parseFloat(rawData.priceChange24h),
-        volumeChange24h: parseFloat(rawData.volumeChange24h),
-        liquidityChange24h: parseFloat(rawData.liquidityChange24h),
-        feesChange24h: parseFloat(rawData.feesChange24h)
+      version: this.checkVersion(row.model_version, `pool row ${row.address}`),
+      id: row.address,
+      address: row.address,
+      name: row.name,
+      tokens: {
+        tokenX: {
+          mint: row.token_x_mint,
+          reserve: row.token_x_reserve ?? '',
+          amount: Number(row.token_x_amount),
+          symbol: row.token_x_symbol,
+          decimals: row.token_x_decimals,
+          price: Number(row.token_x_price ?? 0)
+        },
+        tokenY: {
+          mint: row.token_y_mint,
+          reserve: row.token_y_reserve ?? '',
+          amount: Number(row.token_y_amount),
+          symbol: row.token_y_symbol,
+          decimals: row.token_y_decimals,
+          price: Number(row.token_y_price ?? 0)
+        }
+      },
+      fees: {
+        base: row.base_fee,
+        max: row.max_fee,
+        protocol: row.protocol_fee,
+        today: Number(row.fees_today),
+        last24h: Number(row.fees_24h)
+      },
+      volume: {
+        last24h: Number(row.volume_24h),
+        cumulative: row.cumulative_volume
       },
-      stats: {
-        totalVolume: parseFloat(rawData.totalVolume),
-        totalFees: parseFloat(rawData.totalFees),
-        totalLiquidity: parseFloat(rawData.totalLiquidity),
-        totalTransactions: parseInt(rawData.totalTransactions)
+      liquidity: {
+        total: row.total_liquidity
       },
-      risk: {
-        impermanentLoss: parseFloat(rawData.impermanentLoss),
-        priceVolatility: parseFloat(rawData.priceVolatility),
-        liquidityRisk: parseFloat(rawData.liquidityRisk)
+      rewards: {
+        mintX: row.reward_mint_x ?? '',
+        mintY: row.reward_mint_y ?? '',
+        farmApr: Number(row.farm_apr),
+        farmApy: Number(row.farm_apy)
+      },
+      yields: {
+        apr: Number(row.apr),
+        apy: Number(row.apy),
+        fees24hTvl: Number(row.fees_tvl_ratio)
+      },
+      parameters: {
+        binStep: row.bin_step,
+        currentPrice: Number(row.current_price),
+        hide: row.hide,
+        isBlacklisted: row.is_blacklisted
+      },
+      tags: row.tags,
+      lastUpdate: row.last_update.toISOString()
+    };
+  }
+
+  /**
+   * 用已保存的代币补全池子数据中未知的精度和价格
+   * pair/all 列表不提供代币精度和价格，以 0 占位（见 pairToken），保存池子时不能覆盖已知的值
+   * @param token - 池子数据中的代币
+   * @param known - 已保存的同一代币
+   */
+  static mergePoolToken(token: TokenModel, known?: TokenModel | null): TokenModel {
+    if (!known) return token;
+    return {
+      ...token,
+      decimals: token.decimals > 0 ? token.decimals : known.decimals,
+      price: token.price > 0 ? token.price : known.price
+    };
+  }
+
+  static toTokenRow(token: TokenModel): TokenRow {
+    return {
+      mint: token.mint,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      price: token.price.toString(),
+      reserve: token.reserve || null,
+      amount: token.amount.toString()
+    };
+  }
+
+  static fromTokenRow(row: TokenRow): TokenModel {
+    return {
+      mint: row.mint,
+      reserve: row.reserve ?? '',
+      amount: Number(row.amount),
+      symbol: row.symbol,
+      decimals: row.decimals,
+      price: Number(row.price)
+    };
+  }
+
+  /**
+   * 池子模型转换为 API 响应格式
+   */
+  static toPoolResponse(pool: PoolModel): PoolResponse {
+    return {
+      ...pool,
+      parameters: {
+        ...pool.parameters,
+        currentPrice: pool.parameters.currentPrice.toString()
       }
     };
   }
 
-  static fromPoolData(poolData: PoolData): any {
+  /**
+   * API 响应格式转换为池子模型
+   */
+  static fromPoolResponse(response: PoolResponse): PoolModel {
     return {
-      id: poolData.id,
-      address: poolData.address.toString(),
-      name: poolData.name,
-      tokenA: this.fromTokenInfo(poolData.tokenA),
-      tokenB: this.fromTokenInfo(poolData.tokenB),
-      liquidity: poolData.liquidity,
-      volume24h: poolData.volume24h,
-      fees24h: poolData.fees24h,
-      apr: poolData.apr,
-      lastUpdate: poolData.lastUpdate.toISOString()
+      ...response,
+      version: this.checkVersion(response.version, `pool response ${response.address}`),
+      parameters: {
+        ...response.parameters,
+        currentPrice: parseFloat(response.parameters.currentPrice)
+      }
     };
   }
 
-  static fromTokenInfo(tokenInfo: TokenInfo): any {
+  /**
+   * 把快照等持久化数据中的池子汇总升级到当前模型版本
+   * 加入版本号之前保存的数据没有 version 和 yields.apy
+   */
+  static upgradePoolSummary(raw: Omit<PoolSummary, 'version'> & { version?: number }): PoolSummary {
+    if (raw.version === undefined) {
+      return {
+        ...raw,
+        version: POOL_MODEL_VERSION,
+        yields: { ...raw.yields, apy: raw.yields.apy ?? 0 }
+      };
+    }
+    return { ...raw, version: this.checkVersion(raw.version, `pool ${raw.address}`) };
+  }
+
+  /**
+   * market_metrics 表的行转换为市场指标，DECIMAL 字段由 pg 以字符串返回
+   */
+  static toMarketMetrics(row: MarketMetricsRow): MarketMetrics {
+    const metrics: MarketMetrics = {
+      poolId: row.pool_address,
+      timestamp: new Date(row.timestamp),
+      price: Number(row.price),
+      volume: Number(row.volume),
+      liquidity: Number(row.liquidity),
+      fees: Number(row.fees)
+    };
+    if (!DataUtils.isValidMarketMetrics(metrics)) {
+      throw new Error('Invalid market metrics format');
+    }
+    return metrics;
+  }
+
+  static fromMarketMetrics(metrics: MarketMetrics): MarketMetricsRow {
+    return {
+      pool_address: metrics.poolId,
+      timestamp: metrics.timestamp,
+      price: metrics.price.toString(),
+      volume: metrics.volume.toString(),
+      liquidity: metrics.liquidity.toString(),
+      fees: metrics.fees.toString()
+    };
+  }
+
+  private static checkVersion(version: number, source: string): typeof POOL_MODEL_VERSION {
+    if (version !== POOL_MODEL_VERSION) {
+      throw new Error(`Unsupported pool model version ${version} in ${source}, expected ${POOL_MODEL_VERSION}`);
+    }
+    return POOL_MODEL_VERSION;
+  }
+
+  private static pairToken(mint: string, reserve: string, amount: number, symbol: string): TokenModel {
     return {
-      address: tokenInfo.address.toString(),
-      symbol: tokenInfo.symbol,
-      decimals: tokenInfo.decimals,
-      price: tokenInfo.price,
-      volume24h: tokenInfo.volume24h
+      mint,
+      reserve,
+      amount,
+      symbol,
+      decimals: 0,
+      price: 0
     };
   }
 
-  static fromMarketMetrics(metrics: MarketMetrics): any {
+  private static pairTimeSeries(data?: MeteoraTimeSeries): TimeSeriesData {
     return {
-      poolId: metrics.poolId,
-      timestamp: metrics.timestamp.toISOString(),
-      price: metrics.price,
-      volume: metrics.volume,
-      liquidity: metrics.liquidity,
-      fees: metrics.fees
+      min_30: data?.min_30 || 0,
+      hour_1: data?.hour_1 || 0,
+      hour_2: data?.hour_2 || 0,
+      hour_4: data?.hour_4 || 0,
+      hour_12: data?.hour_12 || 0,
+      hour_24: data?.hour_24 || 0
     };
   }
 }
-
-// 扩展的池子详情接口
-export interface PoolDetail extends PoolData {
-  metrics: {
-    priceChange24h: number;
-    volumeChange24h: number;
-    liquidityChange24h: number;
-    feesChange24h: number;
-  };
-  stats: {
-    totalVolume: number;
-    totalFees: number;
-    totalLiquidity: number;
-    totalTransactions: number;
-  };
-  risk: {
-    impermanentLoss: number;
-    priceVolatility: number;
-    liquidityRisk: number;
-  };
-} 
\ No newline at end of file
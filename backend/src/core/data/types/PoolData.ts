@@ -1,69 +1,16 @@
-export interface Bin {
-  binId: string;
-  price: string;
-  totalLiquidity: string;
-}
-
-export interface PoolLiquidity {
-  total: string;
-}
-
-export interface TokenInfo {
-  mint: string;
-  reserve: string;
-  amount: number;
-  symbol: string;
-  decimals: number;
-  price: number;
-}
-
-export interface PoolFees {
-  base: string;
-  max: string;
-  protocol: string;
-  today: number;
-  last24h: number;
-}
-
-export interface PoolVolume {
-  last24h: number;
-  cumulative: string;
-}
-
-export interface PoolRewards {
-  mintX: string;
-  mintY: string;
-  farmApr: number;
-  farmApy: number;
-}
-
-export interface PoolYields {
-  apr: number;
-  fees24hTvl: number;
-}
-
-export interface PoolParameters {
-  currentPrice: string;
-  binStep: number;
-  hide: boolean;
-  isBlacklisted: boolean;
-}
-
-export interface PoolData {
-  id: string;
-  address: string;
-  name: string;
-  tokens: {
-    tokenX: TokenInfo;
-    tokenY: TokenInfo;
-  };
-  fees: PoolFees;
-  volume: PoolVolume;
-  liquidity: PoolLiquidity;
-  rewards: PoolRewards;
-  yields: PoolYields;
-  parameters: PoolParameters;
-  bins: Bin[];
-  tags: string[];
-  lastUpdate: string;
-} 
\ No newline at end of file
+/**
+ * 池子数据类型
+ * 统一使用 shared 中的池子领域模型，这里保留后端沿用的类型名
+ */
+export {
+  PoolModel as PoolData,
+  PoolBin as Bin,
+  TokenModel as TokenInfo,
+  PoolFees,
+  PoolVolume,
+  PoolLiquidity,
+  PoolRewards,
+  PoolYields,
+  PoolParameters,
+  PoolTimeSeries
+} from '@liqpro/shared/src/types/poolModel';
@@ -0,0 +1,46 @@
+/**
+ * @file 信号引擎测试
+ * @module core/signal/__tests__/signal-engine
+ * @description 不含bin的候选池使用池子分析记录的流动性集中度
+ */
+
+import { pool } from '../../data/__tests__/fixtures';
+import { PoolData } from '../../data/types/PoolData';
+import { SignalEngine } from '../signal-engine';
+import { PoolSignalRecord, TierChangeStore, TierState } from '../tier-change-store';
+
+class MemoryTierChangeStore implements TierChangeStore {
+  readonly records: PoolSignalRecord[] = [];
+
+  async loadCurrentTiers(): Promise<Map<string, TierState>> {
+    return new Map();
+  }
+
+  async saveSignals(records: PoolSignalRecord[]): Promise<void> {
+    this.records.push(...records);
+  }
+}
+
+describe('SignalEngine', () => {
+  // pair/all 列表中的池子不含bin
+  const listed: PoolData = { ...pool('pool-1'), bins: [] };
+  let engine: SignalEngine;
+
+  beforeEach(() => {
+    engine = new SignalEngine(new MemoryTierChangeStore());
+  });
+
+  it('scores concentration as neutral until the analytics job records it', async () => {
+    const [signal] = await engine.evaluate([listed]);
+
+    expect(signal.factors.concentration).toBe(50);
+  });
+
+  it('scores concentration from the recorded liquidity share', async () => {
+    engine.recordLiquidityConcentration('pool-1', 0.8);
+
+    const [signal] = await engine.evaluate([listed]);
+
+    expect(signal.factors.concentration).toBe(80);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './tier-change-store';
+export * from './signal-engine';
@@ -0,0 +1,355 @@
+/**
+ * @file 池子信号引擎
+ * @module core/signal/signal-engine
+ * @description 按手续费/TVL、成交量趋势、流动性集中度、大户活动和波动率为池子打分，
+ * 并按策略阈值带滞回地划分 T1/T2/T3 等级
+ */
+
+import { EventEmitter } from 'events';
+import { PoolData } from '../data/types/PoolData';
+import { WhaleActivityEvent } from '../data/types/WhaleActivity';
+import { BinUtils } from '../data/bin-utils';
+import { PoolTier, Strategy } from '../../db/models/types/base';
+import { config } from '../../config';
+import { PoolSignalRecord, TierChangeStore, TierState } from './tier-change-store';
+
+/**
+ * 评分因子
+ */
+export type SignalFactor = 'feeTvl' | 'volumeTrend' | 'concentration' | 'whaleActivity' | 'volatility';
+
+/**
+ * 策略参数：因子权重与分级阈值
+ */
+export interface StrategySignalConfig {
+  weights: Record<SignalFactor, number>;
+  thresholds: { T1: number; T2: number; T3: number };
+}
+
+/**
+ * 信号引擎配置
+ */
+export interface SignalEngineOptions {
+  strategy: Strategy;
+  strategies: Record<Strategy, StrategySignalConfig>;
+  hysteresis: number;         // 升降级需越过阈值的分数
+  volatilityWindow: number;   // 计算波动率的价格采样数
+  whaleActivityTtl: number;   // 大户活动影响评分的时长（毫秒）
+}
+
+/**
+ * 单个池子的评估结果
+ */
+export interface PoolSignal {
+  poolAddress: string;
+  poolName: string;
+  score: number;                          // 综合评分（0-100）
+  factors: Record<SignalFactor, number>;  // 各因子评分（0-100）
+  tier: PoolTier;
+  previousTier: PoolTier;
+  previousScore: number;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * 等级变化事件
+ */
+export type TierChangeEvent = PoolSignal & { direction: 'upgrade' | 'downgrade' };
+
+// 各因子评分为100时对应的原始值
+const FEE_TVL_TARGET = 2;        // 24小时手续费/TVL 达到 2%
+const VOLATILITY_CEILING = 0.05; // 单次采样价格变动标准差达到 5% 时评分为0
+// 流动性集中度只统计活跃bin两侧的bin数量
+const CONCENTRATION_BINS_PER_SIDE = 10;
+// 缺少数据时的中性评分
+const NEUTRAL_SCORE = 50;
+
+const TIER_ORDER: PoolTier[] = [PoolTier.NONE, PoolTier.T3, PoolTier.T2, PoolTier.T1];
+
+const FACTOR_LABELS: Record<SignalFactor, string> = {
+  feeTvl: '手续费/TVL',
+  volumeTrend: '成交量趋势',
+  concentration: '流动性集中度',
+  whaleActivity: '大户活动',
+  volatility: '波动率'
+};
+
+const WHALE_RISK_SCORES: Record<WhaleActivityEvent['riskLevel'], number> = {
+  low: 80,
+  medium: 50,
+  high: 0
+};
+
+const clamp = (value: number): number => Math.max(0, Math.min(100, value));
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class SignalEngine extends EventEmitter {
+  private readonly options: SignalEngineOptions;
+  private readonly store: TierChangeStore;
+  private readonly tiers: Map<string, TierState> = new Map();
+  private readonly priceHistory: Map<string, number[]> = new Map();
+  private readonly whaleActivity: Map<string, WhaleActivityEvent> = new Map();
+  private readonly liquidityConcentration: Map<string, number> = new Map();
+  private initialized = false;
+
+  constructor(store: TierChangeStore, options: Partial<SignalEngineOptions> = {}) {
+    super();
+    this.store = store;
+    this.options = {
+      strategy: config.signals.strategy as Strategy,
+      strategies: config.signals.strategies,
+      hysteresis: config.signals.hysteresis,
+      volatilityWindow: config.signals.volatilityWindow,
+      whaleActivityTtl: config.signals.whaleActivityTtl,
+      ...options
+    };
+  }
+
+  /**
+   * 记录大户活动，在有效期内降低该池子的评分
+   */
+  recordWhaleActivity(activity: WhaleActivityEvent): void {
+    this.whaleActivity.set(activity.poolAddress, activity);
+  }
+
+  /**
+   * 记录池子活跃bin附近的流动性占比（0-1），由池子分析任务根据完整的bin快照计算
+   * 候选池列表来自 pair/all，不含bin，集中度因子使用最近一次记录的占比
+   */
+  recordLiquidityConcentration(poolAddress: string, share: number): void {
+    this.liquidityConcentration.set(poolAddress, share);
+  }
+
+  /**
+   * 评估一批池子（通常为当前Top 100）
+   * 上一轮有等级、本轮不在列表中的池子降为 none
+   * @param pools - 池子列表
+   * @returns 各池子的评估结果
+   */
+  async evaluate(pools: PoolData[]): Promise<PoolSignal[]> {
+    await this.initialize();
+
+    const timestamp = new Date();
+    const signals = pools.map(pool => this.scorePool(pool, timestamp));
+
+    const evaluated = new Set(pools.map(pool => pool.address));
+    for (const [address, state] of this.tiers) {
+      if (!evaluated.has(address) && state.tier !== PoolTier.NONE) {
+        signals.push({
+          poolAddress: address,
+          poolName: address.slice(0, 8),
+          score: 0,
+          factors: { feeTvl: 0, volumeTrend: 0, concentration: 0, whaleActivity: 0, volatility: 0 },
+          tier: PoolTier.NONE,
+          previousTier: state.tier,
+          previousScore: state.score,
+          reason: `跌出候选池列表，从 ${state.tier} 降为 none`,
+          timestamp
+        });
+        this.priceHistory.delete(address);
+        this.liquidityConcentration.delete(address);
+      }
+    }
+
+    const records = signals.map(signal => this.apply(signal));
+    try {
+      await this.store.saveSignals(records);
+    } catch (error) {
+      console.error('Failed to persist pool signals:', error);
+    }
+
+    for (const signal of signals) {
+      if (signal.tier !== signal.previousTier) {
+        const direction = TIER_ORDER.indexOf(signal.tier) > TIER_ORDER.indexOf(signal.previousTier) ? 'upgrade' : 'downgrade';
+        this.emit('tierChange', { ...signal, direction });
+      }
+    }
+    this.emit('evaluated', signals);
+    return signals;
+  }
+
+  /**
+   * 获取池子当前等级
+   */
+  getTier(poolAddress: string): TierState | undefined {
+    return this.tiers.get(poolAddress);
+  }
+
+  // 订阅等级变化事件
+  subscribeToTierChanges(callback: (event: TierChangeEvent) => void): () => void {
+    this.on('tierChange', callback);
+    return () => this.off('tierChange', callback);
+  }
+
+  // 订阅每轮评估结果
+  subscribeToEvaluations(callback: (signals: PoolSignal[]) => void): () => void {
+    this.on('evaluated', callback);
+    return () => this.off('evaluated', callback);
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.initialized) return;
+    try {
+      const tiers = await this.store.loadCurrentTiers();
+      tiers.forEach((state, address) => this.tiers.set(address, state));
+    } catch (error) {
+      console.error('Failed to load pool tiers, starting from none:', error);
+    }
+    this.initialized = true;
+  }
+
+  private scorePool(pool: PoolData, timestamp: Date): PoolSignal {
+    const strategy = this.options.strategies[this.options.strategy];
+    const factors: Record<SignalFactor, number> = {
+      feeTvl: this.scoreFeeTvl(pool),
+      volumeTrend: this.scoreVolumeTrend(pool),
+      concentration: this.scoreConcentration(pool),
+      whaleActivity: this.scoreWhaleActivity(pool.address, timestamp),
+      volatility: this.scoreVolatility(pool)
+    };
+
+    const factorNames = Object.keys(factors) as SignalFactor[];
+    const totalWeight = factorNames.reduce((sum, factor) => sum + strategy.weights[factor], 0);
+    const score = round(
+      factorNames.reduce((sum, factor) => sum + factors[factor] * strategy.weights[factor], 0) / (totalWeight || 1)
+    );
+
+    const previous = this.tiers.get(pool.address) ?? { tier: PoolTier.NONE, score: 0 };
+    const tier = this.applyHysteresis(score, previous.tier, strategy);
+
+    return {
+      poolAddress: pool.address,
+      poolName: pool.name,
+      score,
+      factors,
+      tier,
+      previousTier: previous.tier,
+      previousScore: previous.score,
+      reason: this.describe(score, previous, tier, factors, strategy),
+      timestamp
+    };
+  }
+
+  // 更新内存中的等级，返回待持久化的记录
+  private apply(signal: PoolSignal): PoolSignalRecord {
+    const previous: TierState = { tier: signal.previousTier, score: signal.previousScore };
+    const current: TierState = { tier: signal.tier, score: signal.score };
+
+    if (current.tier === PoolTier.NONE) {
+      this.tiers.delete(signal.poolAddress);
+    } else {
+      this.tiers.set(signal.poolAddress, current);
+    }
+
+    return {
+      poolAddress: signal.poolAddress,
+      strategy: this.options.strategy,
+      previous,
+      current,
+      reason: signal.reason,
+      timestamp: signal.timestamp
+    };
+  }
+
+  /**
+   * 滞回分级：升级需高出阈值 hysteresis 分，降级需低于阈值 hysteresis 分
+   */
+  private applyHysteresis(score: number, current: PoolTier, strategy: StrategySignalConfig): PoolTier {
+    const margin = this.options.hysteresis;
+    const currentRank = TIER_ORDER.indexOf(current);
+
+    const upgraded = this.bucket(score - margin, strategy);
+    if (TIER_ORDER.indexOf(upgraded) > currentRank) return upgraded;
+
+    const downgraded = this.bucket(score + margin, strategy);
+    if (TIER_ORDER.indexOf(downgraded) < currentRank) return downgraded;
+
+    return current;
+  }
+
+  private bucket(score: number, strategy: StrategySignalConfig): PoolTier {
+    if (score >= strategy.thresholds.T1) return PoolTier.T1;
+    if (score >= strategy.thresholds.T2) return PoolTier.T2;
+    if (score >= strategy.thresholds.T3) return PoolTier.T3;
+    return PoolTier.NONE;
+  }
+
+  // 24小时手续费占TVL的比例（百分比）
+  private scoreFeeTvl(pool: PoolData): number {
+    return clamp((pool.yields.fees24hTvl / FEE_TVL_TARGET) * 100);
+  }
+
+  // 最近1小时成交量相对24小时平均的变化，持平为50分，翻倍为100分
+  private scoreVolumeTrend(pool: PoolData): number {
+    const volume = pool.timeSeries?.volume;
+    if (!volume || volume.hour_24 <= 0) return NEUTRAL_SCORE;
+
+    const trend = volume.hour_1 / (volume.hour_24 / 24);
+    return clamp(NEUTRAL_SCORE + (trend - 1) * 50);
+  }
+
+  // 活跃bin附近的流动性占比，越集中手续费捕获效率越高；池子数据不含bin时使用分析任务记录的占比
+  private scoreConcentration(pool: PoolData): number {
+    if (pool.bins.length === 0) {
+      const share = this.liquidityConcentration.get(pool.address);
+      return share === undefined ? NEUTRAL_SCORE : clamp(share * 100);
+    }
+
+    const nearActive = BinUtils.sliceByBinCount(pool.bins, CONCENTRATION_BINS_PER_SIDE, pool.parameters.activeBinId);
+    return clamp(BinUtils.liquidityShare(nearActive, pool.bins) * 100);
+  }
+
+  private scoreWhaleActivity(poolAddress: string, timestamp: Date): number {
+    const activity = this.whaleActivity.get(poolAddress);
+    if (!activity) return 100;
+
+    if (timestamp.getTime() - activity.timestamp > this.options.whaleActivityTtl) {
+      this.whaleActivity.delete(poolAddress);
+      return 100;
+    }
+    return WHALE_RISK_SCORES[activity.riskLevel];
+  }
+
+  // 按每轮评估时的价格计算对数收益率的标准差
+  private scoreVolatility(pool: PoolData): number {
+    const price = pool.parameters.currentPrice;
+    const history = this.priceHistory.get(pool.address) ?? [];
+    if (Number.isFinite(price) && price > 0) {
+      history.push(price);
+      if (history.length > this.options.volatilityWindow) {
+        history.shift();
+      }
+      this.priceHistory.set(pool.address, history);
+    }
+    if (history.length < 3) return NEUTRAL_SCORE;
+
+    const returns = history.slice(1).map((value, i) => Math.log(value / history[i]));
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / returns.length;
+    return clamp(100 - (Math.sqrt(variance) / VOLATILITY_CEILING) * 100);
+  }
+
+  // 生成可读的评估原因：评分变化、等级变化以及贡献最大/最小的因子
+  private describe(
+    score: number,
+    previous: TierState,
+    tier: PoolTier,
+    factors: Record<SignalFactor, number>,
+    strategy: StrategySignalConfig
+  ): string {
+    const delta = score - previous.score;
+    const ranked = (Object.keys(factors) as SignalFactor[])
+      .filter(factor => strategy.weights[factor] > 0)
+      .sort((a, b) => factors[b] - factors[a]);
+    const strongest = ranked[0];
+    const weakest = ranked[ranked.length - 1];
+
+    const movement = tier === previous.tier
+      ? `保持 ${tier}`
+      : `${previous.tier} → ${tier}`;
+    return `${movement}（${this.options.strategy}）：评分 ${score.toFixed(2)}（${delta >= 0 ? '+' : ''}${delta.toFixed(2)}），` +
+      `最强因子 ${FACTOR_LABELS[strongest]} ${factors[strongest].toFixed(0)}，` +
+      `最弱因子 ${FACTOR_LABELS[weakest]} ${factors[weakest].toFixed(0)}`;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @file 池子等级持久化
+ * @module core/signal/tier-change-store
+ * @description 把信号引擎的评分和等级写入 pools 表，并在等级变化时写入 tier_changes 记录
+ */
+
+import { Pool as DbPool, PoolClient } from 'pg';
+import { getDbPool } from '../../db';
+import { PoolTier, Strategy } from '../../db/models/types/base';
+import { config } from '../../config';
+
+/**
+ * 池子当前的等级状态
+ */
+export interface TierState {
+  tier: PoolTier;
+  score: number;
+}
+
+/**
+ * 一次评估结果
+ */
+export interface PoolSignalRecord {
+  poolAddress: string;
+  strategy: Strategy;
+  previous: TierState;
+  current: TierState;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * 等级持久化接口
+ */
+export interface TierChangeStore {
+  // 加载各池子最近一次的等级，用于重启后延续滞回状态
+  loadCurrentTiers(): Promise<Map<string, TierState>>;
+  // 在同一事务中保存一轮评估；等级变化时同时写入变更记录
+  saveSignals(records: PoolSignalRecord[]): Promise<void>;
+}
+
+const TIER_RANK: Record<PoolTier, number> = {
+  [PoolTier.NONE]: 0,
+  [PoolTier.T3]: 1,
+  [PoolTier.T2]: 2,
+  [PoolTier.T1]: 3
+};
+
+export class PgTierChangeStore implements TierChangeStore {
+  private readonly db: DbPool;
+
+  constructor(db: DbPool = getDbPool()) {
+    this.db = db;
+  }
+
+  async loadCurrentTiers(): Promise<Map<string, TierState>> {
+    const { rows } = await this.db.query<{ address: string; tier_current: PoolTier; score_current: string }>(
+      `SELECT address, tier_current, score_current FROM pools WHERE tier_current <> 'none'`
+    );
+    return new Map(rows.map(row => [row.address, { tier: row.tier_current, score: Number(row.score_current) }]));
+  }
+
+  async saveSignals(records: PoolSignalRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      for (const record of records) {
+        await this.saveSignal(client, record);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async saveSignal(client: PoolClient, record: PoolSignalRecord): Promise<void> {
+    const { poolAddress, previous, current } = record;
+    const changed = previous.tier !== current.tier;
+    const direction = !changed
+      ? 'unchanged'
+      : TIER_RANK[current.tier] > TIER_RANK[previous.tier] ? 'upgrade' : 'downgrade';
+
+    // 等级未变化时保留上一次变化前的等级
+    await client.query(
+      `UPDATE pools SET
+         tier_previous = CASE WHEN $2 THEN tier_current ELSE tier_previous END,
+         tier_current = $3,
+         score_previous = score_current,
+         score_current = $4,
+         score_change = $4 - score_current,
+         tier_change = $5,
+         signal_reason = CASE WHEN $2 THEN $6 ELSE signal_reason END,
+         signal_updated_at = $7
+       WHERE address = $1`,
+      [poolAddress, changed, current.tier, current.score, direction, record.reason, record.timestamp]
+    );
+
+    if (changed) {
+      await client.query(
+        `INSERT INTO tier_changes
+           (pool_address, previous_tier, new_tier, previous_score, new_score, strategy, change_reason, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)`,
+        [poolAddress, previous.tier, current.tier, previous.score, current.score, record.strategy, record.reason, record.timestamp]
+      );
+    }
+  }
+}
+
+/**
+ * 进程内等级存储，供无数据库的演示模式使用，重启后等级从 none 开始
+ */
+export class MemoryTierChangeStore implements TierChangeStore {
+  private readonly tiers: Map<string, TierState> = new Map();
+  private readonly changes: PoolSignalRecord[] = [];
+
+  async loadCurrentTiers(): Promise<Map<string, TierState>> {
+    return new Map(this.tiers);
+  }
+
+  async saveSignals(records: PoolSignalRecord[]): Promise<void> {
+    for (const record of records) {
+      if (record.current.tier === PoolTier.NONE) {
+        this.tiers.delete(record.poolAddress);
+      } else {
+        this.tiers.set(record.poolAddress, record.current);
+      }
+      if (record.previous.tier !== record.current.tier) {
+        this.changes.push(record);
+      }
+    }
+  }
+
+  // 等级变化记录，按时间顺序
+  getTierChanges(): PoolSignalRecord[] {
+    return [...this.changes];
+  }
+}
+
+/**
+ * 按数据仓储模式创建等级存储
+ */
+export const createTierChangeStore = (): TierChangeStore =>
+  config.dataRepository.mode === 'postgres' ? new PgTierChangeStore() : new MemoryTierChangeStore();
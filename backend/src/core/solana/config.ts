@@ -17,11 +17,10 @@ export const connection = new Connection(
   connectionConfig
 );
 
-// 创建备用连接实例
-export const backupConnection = new Connection(
-  config.solana.backupRpcEndpoint || '',
-  connectionConfig
-);
+// 创建备用连接实例（未配置备用节点时为 null）
+export const backupConnection = config.solana.backupRpcEndpoint
+  ? new Connection(config.solana.backupRpcEndpoint, connectionConfig)
+  : null;
 
 // 连接池配置
 export const connectionPool = {
@@ -46,7 +45,6 @@ export const retryConfig = {
 // 缓存配置
 export const cacheConfig = {
   ttl: 30000, // 30秒
-  maxSize: 1000, // 最大缓存条目数
   updateInterval: 5000, // 5秒更新一次
 };
 
@@ -0,0 +1,320 @@
+/**
+ * @file Solana RPC 连接管理器
+ * @module core/solana/connection-manager
+ * @description 跟踪每个 RPC 节点的延迟和错误率，将请求路由到最健康的节点，并在失败时自动切换到备用节点
+ */
+
+import { Connection } from '@solana/web3.js';
+import { EventEmitter } from 'events';
+import { connection, backupConnection, connectionPool, monitoringConfig } from './config';
+
+export type EndpointRole = 'primary' | 'backup';
+
+/**
+ * 健康阈值
+ */
+export interface HealthThresholds {
+  latency: number;          // 最大平均延迟（毫秒）
+  errorRate: number;        // 最大错误率（0-1）
+  connectionCount: number;  // 最大并发请求数
+}
+
+/**
+ * 连接管理器配置
+ */
+export interface ConnectionManagerOptions {
+  thresholds: HealthThresholds;
+  maxInFlight: number;                          // 单节点并发上限，超过后优先路由到其他节点
+  windowSize: number;                           // 计算错误率的滑动窗口大小（请求数）
+  minSamples: number;                           // 判定不健康所需的最少样本数
+  recoveryTime: number;                         // 不健康节点在最后一次失败多久后重新参与路由（毫秒）
+  switchMargin: number;                         // 其他节点健康分需优于当前节点的比例才会切换（0-1），避免延迟抖动导致来回切换
+  shouldFailover?: (error: unknown) => boolean; // 哪些异常需要切换节点重试，其余异常直接抛出且不计入节点错误率
+}
+
+/**
+ * 节点健康状况
+ */
+export interface EndpointHealth {
+  endpoint: string;
+  role: EndpointRole;
+  latency: number;      // 指数移动平均延迟（毫秒）
+  errorRate: number;    // 滑动窗口错误率
+  inFlight: number;     // 正在执行的请求数
+  samples: number;      // 滑动窗口内的样本数
+  healthy: boolean;
+  score: number;        // 健康分（越低越好）
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+/**
+ * 节点切换事件
+ */
+export interface FailoverEvent {
+  from: string;
+  to: string;
+  reason: string;
+  timestamp: Date;
+}
+
+interface EndpointState {
+  connection: Connection;
+  role: EndpointRole;
+  latency: number;
+  outcomes: boolean[];  // true 表示失败
+  inFlight: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+  alerting: boolean;
+}
+
+// 延迟指数移动平均的平滑系数
+const LATENCY_SMOOTHING = 0.2;
+
+// 需要切换节点的底层网络错误特征
+const NETWORK_ERROR_PATTERN =
+  /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|network|time(d)? ?out/i;
+
+/**
+ * 默认的切换判定：只有网络错误、429 和 5xx 说明节点本身有问题
+ * 参数错误（如无效的 PublicKey、池子地址）在任何节点上都会失败，不切换
+ */
+export const isFailoverError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'AbortError' || name === 'TimeoutError') return true;
+  if (/\b429\b|too many requests/i.test(message)) return true;
+  if (/\b5\d\d\b/.test(message)) return true;
+  return NETWORK_ERROR_PATTERN.test(message);
+};
+
+const DEFAULT_OPTIONS: ConnectionManagerOptions = {
+  thresholds: monitoringConfig.alertThresholds,
+  maxInFlight: connectionPool.maxConnections,
+  windowSize: 100,
+  minSamples: 10,
+  recoveryTime: 30000,
+  switchMargin: 0.2,
+  shouldFailover: isFailoverError
+};
+
+export class ConnectionManager extends EventEmitter {
+  private static instance: ConnectionManager;
+  private readonly options: ConnectionManagerOptions;
+  private readonly endpoints: EndpointState[];
+  private current: EndpointState;
+
+  constructor(
+    connections: Array<{ connection: Connection; role: EndpointRole }>,
+    options: Partial<ConnectionManagerOptions> = {}
+  ) {
+    super();
+    if (connections.length === 0) {
+      throw new Error('At least one RPC connection is required');
+    }
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = connections.map(({ connection, role }) => ({
+      connection,
+      role,
+      latency: 0,
+      outcomes: [],
+      inFlight: 0,
+      alerting: false
+    }));
+    this.current = this.endpoints[0];
+  }
+
+  // 共享实例：主节点 + 可选的备用节点
+  static getInstance(): ConnectionManager {
+    if (!ConnectionManager.instance) {
+      const connections: Array<{ connection: Connection; role: EndpointRole }> = [
+        { connection, role: 'primary' }
+      ];
+      if (backupConnection) {
+        connections.push({ connection: backupConnection, role: 'backup' });
+      }
+      ConnectionManager.instance = new ConnectionManager(connections);
+    }
+    return ConnectionManager.instance;
+  }
+
+  /**
+   * 获取当前最健康的连接
+   * 适用于账户订阅等长连接场景；一次性请求应使用 execute 以获得失败切换
+   */
+  getConnection(): Connection {
+    return this.rankEndpoints()[0].connection;
+  }
+
+  /**
+   * 在最健康的节点上执行请求，失败时依次切换到其他节点
+   * @param task - 使用给定连接发出请求的函数
+   * @returns 请求结果
+   */
+  async execute<T>(task: (connection: Connection) => Promise<T>): Promise<T> {
+    const ranked = this.rankEndpoints();
+    let lastError: unknown;
+
+    for (const endpoint of ranked) {
+      this.switchTo(endpoint, lastError);
+
+      const start = Date.now();
+      endpoint.inFlight++;
+      this.checkConnectionCount(endpoint);
+      try {
+        const result = await task(endpoint.connection);
+        this.record(endpoint, Date.now() - start, false);
+        return result;
+      } catch (error) {
+        if (this.options.shouldFailover && !this.options.shouldFailover(error)) {
+          throw error;
+        }
+        this.record(endpoint, Date.now() - start, true, error);
+        lastError = error;
+      } finally {
+        endpoint.inFlight--;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * 获取所有节点的健康状况
+   */
+  getHealth(): EndpointHealth[] {
+    return this.endpoints.map(endpoint => ({
+      endpoint: endpoint.connection.rpcEndpoint,
+      role: endpoint.role,
+      latency: Math.round(endpoint.latency),
+      errorRate: this.errorRate(endpoint),
+      inFlight: endpoint.inFlight,
+      samples: endpoint.outcomes.length,
+      healthy: this.isHealthy(endpoint),
+      score: this.score(endpoint),
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt
+    }));
+  }
+
+  // 订阅节点切换事件
+  subscribeToFailover(callback: (event: FailoverEvent) => void): () => void {
+    this.on('failover', callback);
+    return () => this.off('failover', callback);
+  }
+
+  // 订阅健康告警事件
+  subscribeToAlerts(callback: (health: EndpointHealth) => void): () => void {
+    this.on('alert', callback);
+    return () => this.off('alert', callback);
+  }
+
+  // 健康节点优先；同为健康/不健康时按健康分排序（当前节点享有 switchMargin 的优势）；分数相同时主节点优先
+  private rankEndpoints(): EndpointState[] {
+    this.endpoints.forEach(endpoint => this.tryRecover(endpoint));
+    return [...this.endpoints].sort((a, b) => {
+      const healthDiff = Number(this.isHealthy(b)) - Number(this.isHealthy(a));
+      if (healthDiff !== 0) return healthDiff;
+
+      const saturationDiff =
+        Number(a.inFlight >= this.options.maxInFlight) - Number(b.inFlight >= this.options.maxInFlight);
+      if (saturationDiff !== 0) return saturationDiff;
+
+      const scoreDiff = this.rankScore(a) - this.rankScore(b);
+      if (scoreDiff !== 0) return scoreDiff;
+
+      return Number(a.role === 'backup') - Number(b.role === 'backup');
+    });
+  }
+
+  // 只有请求失败导致的切换才发出 failover 事件；按健康分重新排序只更新当前节点
+  private switchTo(endpoint: EndpointState, error?: unknown): void {
+    if (endpoint === this.current) return;
+
+    const from = this.current.connection.rpcEndpoint;
+    this.current = endpoint;
+    if (error === undefined) return;
+
+    const event: FailoverEvent = {
+      from,
+      to: endpoint.connection.rpcEndpoint,
+      reason: error instanceof Error ? error.message : String(error),
+      timestamp: new Date()
+    };
+    console.warn(`RPC failover: ${event.from} -> ${event.to} (${event.reason})`);
+    this.emit('failover', event);
+  }
+
+  private record(endpoint: EndpointState, latency: number, failed: boolean, error?: unknown): void {
+    endpoint.latency = endpoint.outcomes.length === 0
+      ? latency
+      : endpoint.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+
+    endpoint.outcomes.push(failed);
+    if (endpoint.outcomes.length > this.options.windowSize) {
+      endpoint.outcomes.shift();
+    }
+
+    if (failed) {
+      endpoint.lastError = error instanceof Error ? error.message : String(error);
+      endpoint.lastErrorAt = new Date();
+    }
+
+    const healthy = this.isHealthy(endpoint);
+    if (!healthy && !endpoint.alerting) {
+      endpoint.alerting = true;
+      this.emit('alert', this.getHealth().find(h => h.endpoint === endpoint.connection.rpcEndpoint));
+    } else if (healthy) {
+      endpoint.alerting = false;
+    }
+  }
+
+  // 冷却期过后清空滑动窗口，让不健康节点重新获得流量
+  private tryRecover(endpoint: EndpointState): void {
+    if (
+      endpoint.lastErrorAt &&
+      Date.now() - endpoint.lastErrorAt.getTime() > this.options.recoveryTime &&
+      !this.isHealthy(endpoint)
+    ) {
+      endpoint.outcomes = [];
+      endpoint.alerting = false;
+    }
+  }
+
+  private checkConnectionCount(endpoint: EndpointState): void {
+    if (endpoint.inFlight > this.options.thresholds.connectionCount) {
+      console.warn(
+        `RPC endpoint ${endpoint.connection.rpcEndpoint} has ${endpoint.inFlight} concurrent requests`
+      );
+    }
+  }
+
+  private errorRate(endpoint: EndpointState): number {
+    if (endpoint.outcomes.length === 0) return 0;
+    return endpoint.outcomes.filter(failed => failed).length / endpoint.outcomes.length;
+  }
+
+  private isHealthy(endpoint: EndpointState): boolean {
+    if (endpoint.outcomes.length < this.options.minSamples) {
+      // 样本不足时，只有连续失败才视为不健康
+      return !(endpoint.outcomes.length > 0 && endpoint.outcomes.every(failed => failed));
+    }
+    return (
+      this.errorRate(endpoint) <= this.options.thresholds.errorRate &&
+      endpoint.latency <= this.options.thresholds.latency
+    );
+  }
+
+  // 健康分 = 平均延迟按错误率加权，错误率越高惩罚越重
+  private score(endpoint: EndpointState): number {
+    const errorPenalty = 1 + this.errorRate(endpoint) / Math.max(this.options.thresholds.errorRate, 0.0001);
+    return endpoint.latency * errorPenalty;
+  }
+
+  // 排序用的健康分：其他节点需优于当前节点 switchMargin 以上才会排到前面
+  private rankScore(endpoint: EndpointState): number {
+    const score = this.score(endpoint);
+    return endpoint === this.current ? score * (1 - this.options.switchMargin) : score;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * 数据库连接池
+ * 创建于: 2026-10-19
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+
+let pool: Pool | null = null;
+
+/**
+ * 获取共享的 PostgreSQL 连接池
+ * @returns 连接池实例
+ */
+export const getDbPool = (): Pool => {
+  if (!pool) {
+    pool = new Pool({
+      host: config.database.host,
+      port: config.database.port,
+      database: config.database.name,
+      user: config.database.user,
+      password: config.database.password,
+      max: config.database.maxConnections,
+      idleTimeoutMillis: config.database.idleTimeoutMillis
+    });
+    pool.on('error', error => {
+      console.error('Unexpected database pool error:', error);
+    });
+  }
+  return pool;
+};
+
+/**
+ * 关闭连接池
+ */
+export const closeDbPool = async (): Promise<void> => {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+};
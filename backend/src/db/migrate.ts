@@ -0,0 +1,89 @@
+/**
+ * SQL迁移执行器
+ * 创建于: 2026-10-19
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Pool } from 'pg';
+import { closeDbPool, getDbPool } from './index';
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+/**
+ * 按文件名顺序执行尚未执行的迁移脚本（跳过 -rollback 脚本）
+ * 每个脚本在独立事务中执行，执行记录保存在 schema_migrations 表
+ * @param db - 连接池，默认使用共享连接池（测试时可传入本地数据库）
+ * @returns 本次执行的迁移文件名
+ */
+export const runMigrations = async (db: Pool = getDbPool()): Promise<string[]> => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       name VARCHAR(255) PRIMARY KEY,
+       applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+     )`
+  );
+
+  const { rows } = await db.query<{ name: string }>('SELECT name FROM schema_migrations');
+  const applied = new Set(rows.map(row => row.name));
+  const files = (await fs.readdir(MIGRATIONS_DIR))
+    .filter(file => file.endsWith('.sql') && !file.endsWith('-rollback.sql'))
+    .sort();
+
+  const executed: string[] = [];
+  for (const file of files) {
+    if (applied.has(file)) continue;
+
+    await executeScript(db, file, 'INSERT INTO schema_migrations (name) VALUES ($1)', file);
+    executed.push(file);
+  }
+
+  return executed;
+};
+
+/**
+ * 回滚最近一次执行的迁移：执行对应的 -rollback 脚本并删除执行记录
+ * @param db - 连接池，默认使用共享连接池
+ * @returns 回滚的迁移文件名，没有已执行的迁移时为 null
+ */
+export const rollbackLastMigration = async (db: Pool = getDbPool()): Promise<string | null> => {
+  const { rows } = await db.query<{ name: string }>(
+    'SELECT name FROM schema_migrations ORDER BY name DESC LIMIT 1'
+  );
+  if (rows.length === 0) return null;
+
+  const file = rows[0].name;
+  await executeScript(db, file.replace(/\.sql$/, '-rollback.sql'), 'DELETE FROM schema_migrations WHERE name = $1', file);
+  return file;
+};
+
+// 在同一事务中执行脚本并更新执行记录
+const executeScript = async (db: Pool, file: string, recordSql: string, migration: string): Promise<void> => {
+  const sql = await fs.readFile(path.join(MIGRATIONS_DIR, file), 'utf8');
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(sql);
+    await client.query(recordSql, [migration]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(`Migration ${file} failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    client.release();
+  }
+};
+
+// 命令行执行：npm run migration:run 执行未执行的迁移，npm run migration:revert 回滚最近一次迁移
+if (require.main === module) {
+  const task = process.argv[2] === 'revert'
+    ? rollbackLastMigration().then(file => console.log(file ? `Reverted ${file}` : 'No migration to revert'))
+    : runMigrations().then(files => console.log(files.length > 0 ? `Applied ${files.join(', ')}` : 'No pending migrations'));
+
+  task
+    .catch(error => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    })
+    .finally(() => closeDbPool());
+}
@@ -0,0 +1,5 @@
+-- 池子等级变更历史回滚脚本
+-- 创建于: 2026-10-19
+-- 描述: 删除等级变更历史表
+
+DROP TABLE IF EXISTS tier_changes;
@@ -0,0 +1,29 @@
+-- 池子等级变更历史
+-- 创建于: 2026-10-19
+-- 描述: 记录信号引擎每次调整池子T1/T2/T3等级的历史
+
+-- TierChanges表（等级变更表）
+-- 不引用pools表：信号引擎评估的池子可能尚未入库
+CREATE TABLE tier_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pool_address VARCHAR(64) NOT NULL,
+  previous_tier VARCHAR(10) NOT NULL CHECK (previous_tier IN ('T1', 'T2', 'T3', 'none')),
+  new_tier VARCHAR(10) NOT NULL CHECK (new_tier IN ('T1', 'T2', 'T3', 'none')),
+  previous_score DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  new_score DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  strategy VARCHAR(20) NOT NULL CHECK (strategy IN ('conservative', 'balanced', 'aggressive')),
+  change_reason TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  -- 添加约束
+  CONSTRAINT check_tier_changed CHECK (previous_tier <> new_tier),
+  CONSTRAINT check_tier_scores CHECK (
+    previous_score BETWEEN 0 AND 100 AND
+    new_score BETWEEN 0 AND 100
+  )
+);
+
+-- TierChanges表索引
+CREATE INDEX idx_tier_changes_pool_time ON tier_changes(pool_address, created_at DESC);
+CREATE INDEX idx_tier_changes_time ON tier_changes(created_at DESC);
@@ -0,0 +1,7 @@
+-- 池子市场指标时间序列回滚脚本
+-- 创建于: 2026-10-19
+-- 描述: 删除市场指标原始、聚合和归档表
+
+DROP TABLE IF EXISTS market_metrics_archive;
+DROP TABLE IF EXISTS market_metrics_rollups;
+DROP TABLE IF EXISTS market_metrics;
@@ -0,0 +1,47 @@
+-- 池子市场指标时间序列
+-- 创建于: 2026-10-19
+-- 描述: 保存每次池子刷新时的价格、成交量、流动性和手续费，以及5m/1h/1d聚合数据
+
+-- MarketMetrics表（原始采样表）
+-- volume/fees 为采样时刻的24小时滚动值，liquidity 为TVL
+CREATE TABLE market_metrics (
+  pool_address VARCHAR(64) NOT NULL,
+  timestamp TIMESTAMP NOT NULL,
+  price DECIMAL(30, 15) NOT NULL,
+  volume DECIMAL(30, 9) NOT NULL DEFAULT 0,
+  liquidity DECIMAL(30, 9) NOT NULL DEFAULT 0,
+  fees DECIMAL(30, 9) NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (pool_address, timestamp)
+);
+
+-- MarketMetricsRollups表（聚合表）
+-- 价格为OHLC，成交量/流动性/手续费取时间桶内最后一次采样
+CREATE TABLE market_metrics_rollups (
+  pool_address VARCHAR(64) NOT NULL,
+  resolution VARCHAR(4) NOT NULL CHECK (resolution IN ('5m', '1h', '1d')),
+  bucket_start TIMESTAMP NOT NULL,
+  open DECIMAL(30, 15) NOT NULL,
+  high DECIMAL(30, 15) NOT NULL,
+  low DECIMAL(30, 15) NOT NULL,
+  close DECIMAL(30, 15) NOT NULL,
+  volume DECIMAL(30, 9) NOT NULL DEFAULT 0,
+  liquidity DECIMAL(30, 9) NOT NULL DEFAULT 0,
+  fees DECIMAL(30, 9) NOT NULL DEFAULT 0,
+  sample_count INT NOT NULL DEFAULT 0,
+  first_sample_at TIMESTAMP NOT NULL,
+  last_sample_at TIMESTAMP NOT NULL,
+
+  PRIMARY KEY (pool_address, resolution, bucket_start),
+  CONSTRAINT check_rollup_prices CHECK (low <= high)
+);
+
+-- MarketMetricsArchive表（归档表）
+CREATE TABLE market_metrics_archive (
+  LIKE market_metrics INCLUDING ALL,
+  archived_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- 索引
+CREATE INDEX idx_market_metrics_time ON market_metrics(timestamp);
+CREATE INDEX idx_market_metrics_rollups_time ON market_metrics_rollups(resolution, bucket_start);
@@ -0,0 +1,34 @@
+-- 数据仓储表结构回滚脚本
+-- 创建于: 2026-10-19
+-- 描述: 删除代币表、池子归档表和补充的池子字段
+
+DROP TABLE IF EXISTS pools_archive;
+DROP TABLE IF EXISTS tokens;
+
+DROP INDEX IF EXISTS idx_pools_token_x;
+DROP INDEX IF EXISTS idx_pools_token_y;
+
+ALTER TABLE pools
+  DROP COLUMN IF EXISTS token_x_reserve,
+  DROP COLUMN IF EXISTS token_x_amount,
+  DROP COLUMN IF EXISTS token_y_reserve,
+  DROP COLUMN IF EXISTS token_y_amount,
+  DROP COLUMN IF EXISTS protocol_fee,
+  DROP COLUMN IF EXISTS fees_today,
+  DROP COLUMN IF EXISTS cumulative_volume,
+  DROP COLUMN IF EXISTS reward_mint_x,
+  DROP COLUMN IF EXISTS reward_mint_y,
+  DROP COLUMN IF EXISTS farm_apr,
+  DROP COLUMN IF EXISTS farm_apy,
+  DROP COLUMN IF EXISTS hide,
+  DROP COLUMN IF EXISTS is_blacklisted,
+  DROP COLUMN IF EXISTS tags,
+  ALTER COLUMN token_x_symbol TYPE VARCHAR(10),
+  ALTER COLUMN token_y_symbol TYPE VARCHAR(10);
+
+-- 恢复原触发器
+DROP TRIGGER IF EXISTS update_pools_last_update ON pools;
+CREATE TRIGGER update_pools_last_update
+    BEFORE UPDATE ON pools
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,51 @@
+-- 数据仓储表结构
+-- 创建于: 2026-10-19
+-- 描述: 补充 IDataRepository 所需的池子字段、代币表和池子归档表
+
+-- 删除pools表触发器：pools表没有updated_at字段，触发器使任何更新都失败；
+-- last_update 表示池子数据的更新时间，由仓储写入时显式设置
+DROP TRIGGER IF EXISTS update_pools_last_update ON pools;
+
+-- Pools表补充字段
+ALTER TABLE pools
+  ALTER COLUMN token_x_symbol TYPE VARCHAR(32),
+  ALTER COLUMN token_y_symbol TYPE VARCHAR(32),
+  ADD COLUMN token_x_reserve VARCHAR(64),
+  ADD COLUMN token_x_amount DECIMAL(40, 9) NOT NULL DEFAULT 0,
+  ADD COLUMN token_y_reserve VARCHAR(64),
+  ADD COLUMN token_y_amount DECIMAL(40, 9) NOT NULL DEFAULT 0,
+  ADD COLUMN protocol_fee DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN fees_today DECIMAL(30, 9) NOT NULL DEFAULT 0,
+  ADD COLUMN cumulative_volume DECIMAL(40, 9) NOT NULL DEFAULT 0,
+  ADD COLUMN reward_mint_x VARCHAR(64),
+  ADD COLUMN reward_mint_y VARCHAR(64),
+  ADD COLUMN farm_apr DECIMAL(10, 6) NOT NULL DEFAULT 0,
+  ADD COLUMN farm_apy DECIMAL(10, 6) NOT NULL DEFAULT 0,
+  ADD COLUMN hide BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN is_blacklisted BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Tokens表（代币表）
+-- reserve/amount 为最近一次保存时所在池子的储备账户和储备量
+CREATE TABLE tokens (
+  mint VARCHAR(64) PRIMARY KEY,
+  symbol VARCHAR(32) NOT NULL,
+  decimals INT NOT NULL CHECK (decimals BETWEEN 0 AND 18),
+  price DECIMAL(30, 15) NOT NULL DEFAULT 0,
+  reserve VARCHAR(64),
+  amount DECIMAL(40, 9) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- PoolsArchive表（池子归档表）
+-- 只复制字段和默认值，同一池子可被多次归档
+CREATE TABLE pools_archive (
+  LIKE pools INCLUDING DEFAULTS,
+  archived_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- 索引
+CREATE INDEX idx_pools_token_x ON pools(token_x_mint);
+CREATE INDEX idx_pools_token_y ON pools(token_y_mint);
+CREATE INDEX idx_tokens_update ON tokens(updated_at);
+CREATE INDEX idx_pools_archive_address ON pools_archive(address, archived_at DESC);
@@ -0,0 +1,11 @@
+-- 池子领域模型版本回滚脚本
+-- 创建于: 2026-10-19
+-- 描述: 删除 apy 字段和模型版本号
+
+ALTER TABLE pools_archive
+  DROP COLUMN IF EXISTS apy,
+  DROP COLUMN IF EXISTS model_version;
+
+ALTER TABLE pools
+  DROP COLUMN IF EXISTS apy,
+  DROP COLUMN IF EXISTS model_version;
@@ -0,0 +1,11 @@
+-- 池子领域模型版本
+-- 创建于: 2026-10-19
+-- 描述: pools 表补充 apy 字段和模型版本号，池子归档表同步补充
+
+ALTER TABLE pools
+  ADD COLUMN apy DECIMAL(10, 6) NOT NULL DEFAULT 0,
+  ADD COLUMN model_version SMALLINT NOT NULL DEFAULT 1;
+
+ALTER TABLE pools_archive
+  ADD COLUMN apy DECIMAL(10, 6) NOT NULL DEFAULT 0,
+  ADD COLUMN model_version SMALLINT NOT NULL DEFAULT 1;
@@ -0,0 +1,5 @@
+-- 调度任务状态回滚脚本
+-- 创建于: 2026-10-19
+-- 描述: 删除调度任务状态表
+
+DROP TABLE IF EXISTS scheduler_tasks;
@@ -0,0 +1,19 @@
+-- 调度任务状态
+-- 创建于: 2026-10-19
+-- 描述: 保存 DataScheduler 各任务的暂停状态、执行时间和失败计数，服务重启后恢复；
+-- 管理接口通过本表暂停/恢复任务和请求手动执行，由主节点在下一次检查时读取
+
+CREATE TABLE scheduler_tasks (
+  task_id VARCHAR(64) PRIMARY KEY,
+  schedule VARCHAR(128) NOT NULL,
+  paused BOOLEAN NOT NULL DEFAULT FALSE,
+  run_requested_at TIMESTAMP, -- 尚未执行的手动执行请求，主节点开始执行后清除
+  last_run TIMESTAMP,
+  next_run TIMESTAMP,
+  last_success TIMESTAMP,
+  last_error TEXT,
+  consecutive_failures INT NOT NULL DEFAULT 0,
+  total_runs BIGINT NOT NULL DEFAULT 0,
+  total_failures BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
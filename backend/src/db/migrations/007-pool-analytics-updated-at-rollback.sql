@@ -0,0 +1,9 @@
+-- 池子分析时间回滚脚本
+-- 创建于: 2026-10-19
+-- 描述: 删除分析写入时间字段
+
+ALTER TABLE pools_archive
+  DROP COLUMN IF EXISTS analytics_updated_at;
+
+ALTER TABLE pools
+  DROP COLUMN IF EXISTS analytics_updated_at;
@@ -0,0 +1,9 @@
+-- 池子分析时间
+-- 创建于: 2026-10-19
+-- 描述: 分析任务的写入时间单独记录，last_update 只表示池子数据的更新时间
+
+ALTER TABLE pools
+  ADD COLUMN analytics_updated_at TIMESTAMP;
+
+ALTER TABLE pools_archive
+  ADD COLUMN analytics_updated_at TIMESTAMP;
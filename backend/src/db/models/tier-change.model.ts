@@ -3,39 +3,53 @@
  * 创建于: 2025-03-16
  */
 
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, BeforeInsert } from 'typeorm';
-import { IsNotEmpty, IsEnum } from 'class-validator';
-import { BaseEntity, PoolTier } from './types/base';
-import { Pool } from './pool.model';
+import { Entity, PrimaryGeneratedColumn, Column, BeforeInsert } from 'typeorm';
+import { IsNotEmpty, IsEnum, Min, Max } from 'class-validator';
+import { BaseEntity, PoolTier, Strategy } from './types/base';
 import { ValidationError } from '../errors/validation.error';
 
 @Entity('tier_changes')
 export class TierChange implements BaseEntity {
   @PrimaryGeneratedColumn('uuid')
-  id: string;
+  id!: string;
 
-  @ManyToOne(() => Pool)
-  pool: Pool;
+  @Column({ name: 'pool_address' })
+  @IsNotEmpty({ message: '池地址不能为空' })
+  poolAddress!: string;
 
   @Column({ name: 'previous_tier' })
   @IsNotEmpty()
   @IsEnum(PoolTier)
-  previousTier: PoolTier;
+  previousTier!: PoolTier;
 
   @Column({ name: 'new_tier' })
   @IsNotEmpty()
   @IsEnum(PoolTier)
-  newTier: PoolTier;
+  newTier!: PoolTier;
+
+  @Column({ name: 'previous_score', type: 'decimal', precision: 5, scale: 2 })
+  @Min(0)
+  @Max(100)
+  previousScore!: number;
+
+  @Column({ name: 'new_score', type: 'decimal', precision: 5, scale: 2 })
+  @Min(0)
+  @Max(100)
+  newScore!: number;
+
+  @Column()
+  @IsEnum(Strategy)
+  strategy!: Strategy;
 
   @Column({ name: 'change_reason' })
   @IsNotEmpty({ message: '变更原因不能为空' })
-  changeReason: string;
+  changeReason!: string;
 
   @Column({ name: 'created_at' })
-  createdAt: Date;
+  createdAt!: Date;
 
   @Column({ name: 'updated_at' })
-  updatedAt: Date;
+  updatedAt!: Date;
 
   @BeforeInsert()
   validateTierChange() {
@@ -51,10 +65,10 @@ export class TierChange implements BaseEntity {
    */
   isUpgrade(): boolean {
     const tierValues = {
-      bronze: 1,
-      silver: 2,
-      gold: 3,
-      platinum: 4
+      [PoolTier.NONE]: 0,
+      [PoolTier.T3]: 1,
+      [PoolTier.T2]: 2,
+      [PoolTier.T1]: 3
     };
     return tierValues[this.newTier] > tierValues[this.previousTier];
   }
@@ -65,6 +79,6 @@ export class TierChange implements BaseEntity {
    */
   getChangeDescription(): string {
     const direction = this.isUpgrade() ? '升级' : '降级';
-    return `池 ${this.pool.name} 从 ${this.previousTier} ${direction}到 ${this.newTier}，原因：${this.changeReason}`;
+    return `池 ${this.poolAddress} 从 ${this.previousTier} ${direction}到 ${this.newTier}，原因：${this.changeReason}`;
   }
 } 
\ No newline at end of file
@@ -5,6 +5,28 @@
 
 import 'reflect-metadata';
 import express from 'express';
+import { MeteoraFixtureStore } from './services/meteora-fixtures';
+import { MeteoraService } from './services/meteora';
+import { ConnectionManager } from './core/solana/connection-manager';
+import { PoolService } from './core/data/pool-service';
+import { PositionMonitor } from './core/data/position-monitor';
+import { DataManager } from './core/data/data-manager';
+import { CacheInvalidator } from './core/data/cache-invalidator';
+import { createDataRepository } from './core/data/repository-factory';
+import { MeteoraDataSource } from './services/meteora-data-source';
+import { DataScheduler } from './core/data/scheduler';
+import { PgMarketMetricsStore } from './core/data/metrics-store';
+import { PoolAnalyticsJob, PgPoolAnalyticsStore } from './core/analytics';
+import { WhaleActivityMonitor } from './core/data/services/WhaleActivityMonitor';
+import { SignalEngine, createTierChangeStore } from './core/signal';
+import { PoolTier } from './db/models/types/base';
+import { trackCircuitBreakers, trackScheduler } from './monitoring/metrics';
+import { createSchedulerRouter } from './api/scheduler/routes';
+import { createPoolRouter } from './api/pools/routes';
+import { createHealthRouter } from './api/health/routes';
+import { getLeaderElection } from './core/cluster/leader-election';
+import { config } from './config';
+import { Logger } from './utils/logger';
 
 // 创建 Express 应用
 const app = express();
@@ -13,22 +35,94 @@ const port = process.env.PORT || 3000;
 // 配置中间件
 app.use(express.json());
 
+// 核心服务
+const meteoraService = new MeteoraService();
+trackCircuitBreakers(meteoraService);
+const poolService = new PoolService(meteoraService);
+const positionMonitor = new PositionMonitor(poolService);
+// 池子接口与定时任务共用同一组服务，Meteora 请求的并发上限、限流和熔断在进程内共享
+app.use('/api/v1/pools', createPoolRouter(poolService, positionMonitor));
+const whaleMonitor = new WhaleActivityMonitor(ConnectionManager.getInstance(), meteoraService, new Logger());
+const signalEngine = new SignalEngine(createTierChangeStore());
+// 市场指标和池子分析写入数据库，无数据库的演示模式下不创建
+const metricsStore = config.dataRepository.mode === 'postgres' ? new PgMarketMetricsStore() : undefined;
+const analyticsJob = metricsStore
+  ? new PoolAnalyticsJob(poolService, metricsStore, new PgPoolAnalyticsStore())
+  : undefined;
+const scheduler = new DataScheduler(poolService, positionMonitor, { signalEngine, analyticsJob, metricsStore });
+trackScheduler(scheduler);
+app.use('/api/v1/admin/scheduler', createSchedulerRouter(scheduler));
+// 定时任务、数据更新和大户监控只在主节点上运行，主节点失联后由其他实例接管；健康检查显示当前主节点
+const election = getLeaderElection();
+app.use('/health', createHealthRouter(election));
+// 池子、代币和持仓数据变化时删除依赖它们的缓存
+const cacheInvalidator = new CacheInvalidator();
+cacheInvalidator.watchPositionUpdates(positionMonitor);
+// 数据仓储按配置创建：postgres 使用数据库，memory 为无数据库的演示模式
+const dataManager = createDataRepository().then(repository => {
+  const manager = new DataManager(repository, new MeteoraDataSource(meteoraService));
+  cacheInvalidator.watchDataUpdates(manager);
+  return manager;
+});
+dataManager.catch(error => {
+  console.error('Error creating data repository:', error);
+  process.exit(1);
+});
+
+// 大户活动计入信号评分；有等级的池子由大户监控跟踪
+whaleMonitor.subscribeToActivity(activity => signalEngine.recordWhaleActivity(activity));
+signalEngine.subscribeToEvaluations(signals => {
+  const tiered = signals.filter(signal => signal.tier !== PoolTier.NONE).map(signal => signal.poolAddress);
+  whaleMonitor.watchPools(tiered).catch(error => {
+    console.error('Error updating watched pools:', error);
+  });
+});
+
 // 启动服务器
 const server = app.listen(port, () => {
   console.log(`服务器运行在 http://localhost:${port}`);
 });
 
+// 注册主节点服务后开始参与选举；Top 100列表由调度器的 update_top_pools 任务刷新，不另外启动 PoolService 的更新服务
+Promise.all([
+  election.registerService({
+    name: 'DataScheduler',
+    start: () => scheduler.start(),
+    stop: () => scheduler.stop()
+  }),
+  election.registerService({
+    name: 'DataManager',
+    start: () => dataManager.then(manager => manager.startUpdateService()),
+    stop: () => dataManager.then(manager => manager.stopUpdateService())
+  }),
+  election.registerService({
+    name: 'WhaleActivityMonitor',
+    start: () => whaleMonitor.start(),
+    stop: () => whaleMonitor.stop()
+  })
+])
+  .then(() => election.start())
+  .catch(error => {
+    console.error('Error starting leader election:', error);
+  });
+
 // 优雅关闭
 const gracefulShutdown = (signal: string) => {
   console.log(`${signal} received. Starting graceful shutdown...`);
   
+  // 停止主节点服务并释放锁，其他实例随即可以接管
+  election.stop().catch(error => console.error('Error stopping leader election:', error));
+
   server.close(() => {
     console.log('HTTP server closed');
     
     // 关闭数据库连接等其他资源
     // TODO: 添加数据库连接关闭逻辑
-    
-    process.exit(0);
+
+    // 写入录制模式下尚未保存的快照
+    MeteoraFixtureStore.getInstance().flush()
+      .catch(error => console.error('Error writing fixture snapshots:', error))
+      .finally(() => process.exit(0));
   });
 
   // 如果10秒内没有完成关闭，强制退出
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { ApiError, ApiErrorCode } from '@liqpro/shared/src/types/api';
+
+const BEARER_PREFIX = 'Bearer ';
+
+const tokensMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * 管理接口鉴权：要求 Authorization: Bearer <token>
+ * 未配置令牌时拒绝所有请求，避免管理接口在未设置令牌的部署中暴露
+ * @param token - 管理令牌
+ */
+export const requireAdminToken = (token: string) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!token) {
+      next(new ApiError('Admin API is disabled', 403, ApiErrorCode.FORBIDDEN));
+      return;
+    }
+
+    const header = req.headers.authorization || '';
+    if (!header.startsWith(BEARER_PREFIX) || !tokensMatch(header.slice(BEARER_PREFIX.length), token)) {
+      next(new ApiError('Invalid admin token', 401, ApiErrorCode.UNAUTHORIZED));
+      return;
+    }
+    next();
+  };
+};
@@ -1,6 +1,9 @@
 import { Registry, Counter, Histogram, Gauge } from 'prom-client';
 import { Request, Response, NextFunction } from 'express';
 import config from '../config';
+import { CircuitState, CircuitStateChangeEvent } from '../utils/circuit-breaker';
+import { Cache, CachePrefixStats } from '../utils/cache';
+import { TaskErrorEvent, TaskRunEvent, TaskSkippedEvent, TaskStatus } from '../core/data/scheduler';
 
 // 创建指标注册表
 const register = new Registry();
@@ -27,10 +30,139 @@ const memoryUsage = new Gauge({
   labelNames: ['type'],
 });
 
+// 上游熔断器状态指标（0=closed, 1=half_open, 2=open）
+const circuitState = new Gauge({
+  name: 'upstream_circuit_state',
+  help: 'Circuit breaker state per upstream (0=closed, 1=half_open, 2=open)',
+  labelNames: ['upstream'],
+});
+
+// 上游熔断器状态变化次数
+const circuitTransitions = new Counter({
+  name: 'upstream_circuit_transitions_total',
+  help: 'Total number of circuit breaker state transitions',
+  labelNames: ['upstream', 'to'],
+});
+
+// 应用缓存指标，抓取时从缓存统计中读取
+const CACHE_EVENTS: Array<keyof CachePrefixStats> = ['hits', 'staleHits', 'misses', 'loadFailures', 'evictions', 'expirations'];
+
+const cacheEvents = new Counter({
+  name: 'cache_events_total',
+  help: 'Total number of cache hits, stale hits, misses, load failures, evictions and expirations per key prefix',
+  labelNames: ['prefix', 'event'],
+  collect() {
+    this.reset();
+    Object.entries(Cache.getInstance().getStats().prefixes).forEach(([prefix, stats]) => {
+      CACHE_EVENTS.forEach(event => this.inc({ prefix, event }, stats[event]));
+    });
+  },
+});
+
+const cacheEntries = new Gauge({
+  name: 'cache_entries',
+  help: 'Number of cache entries per key prefix',
+  labelNames: ['prefix'],
+  collect() {
+    Object.entries(Cache.getInstance().getStats().prefixes).forEach(([prefix, stats]) => {
+      this.set({ prefix }, stats.entries);
+    });
+  },
+});
+
+const cacheBytes = new Gauge({
+  name: 'cache_bytes',
+  help: 'Approximate cache size in bytes per key prefix',
+  labelNames: ['prefix'],
+  collect() {
+    Object.entries(Cache.getInstance().getStats().prefixes).forEach(([prefix, stats]) => {
+      this.set({ prefix }, stats.bytes);
+    });
+  },
+});
+
+// 调度任务指标
+const taskRuns = new Counter({
+  name: 'scheduler_task_runs_total',
+  help: 'Total number of scheduled task runs by result (success, error, skipped)',
+  labelNames: ['task', 'result'],
+});
+
+const taskDuration = new Histogram({
+  name: 'scheduler_task_duration_seconds',
+  help: 'Duration of scheduled task runs in seconds',
+  labelNames: ['task'],
+  buckets: [1, 5, 15, 60, 300, 900],
+});
+
+const taskConsecutiveFailures = new Gauge({
+  name: 'scheduler_task_consecutive_failures',
+  help: 'Consecutive failures per scheduled task',
+  labelNames: ['task'],
+});
+
+const taskPaused = new Gauge({
+  name: 'scheduler_task_paused',
+  help: 'Whether a scheduled task is paused (1) or active (0)',
+  labelNames: ['task'],
+});
+
 // 注册指标
 register.registerMetric(httpRequestDuration);
 register.registerMetric(errorCounter);
 register.registerMetric(memoryUsage);
+register.registerMetric(circuitState);
+register.registerMetric(circuitTransitions);
+register.registerMetric(cacheEvents);
+register.registerMetric(cacheEntries);
+register.registerMetric(cacheBytes);
+register.registerMetric(taskRuns);
+register.registerMetric(taskDuration);
+register.registerMetric(taskConsecutiveFailures);
+register.registerMetric(taskPaused);
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = {
+  [CircuitState.CLOSED]: 0,
+  [CircuitState.HALF_OPEN]: 1,
+  [CircuitState.OPEN]: 2,
+};
+
+// 订阅熔断器状态变化并记录到指标
+export const trackCircuitBreakers = (source: {
+  subscribeToCircuitState(callback: (event: CircuitStateChangeEvent) => void): () => void;
+}) => {
+  return source.subscribeToCircuitState(event => {
+    circuitState.set({ upstream: event.name }, CIRCUIT_STATE_VALUES[event.to]);
+    circuitTransitions.inc({ upstream: event.name, to: event.to });
+  });
+};
+
+// 订阅调度任务事件并记录到指标
+export const trackScheduler = (scheduler: {
+  subscribeToSuccess(callback: (event: TaskRunEvent) => void): () => void;
+  subscribeToError(callback: (event: TaskErrorEvent) => void): () => void;
+  subscribeToSkipped(callback: (event: TaskSkippedEvent) => void): () => void;
+  subscribeToTaskState(callback: (status: TaskStatus) => void): () => void;
+}) => {
+  const unsubscribers = [
+    scheduler.subscribeToSuccess(event => {
+      taskRuns.inc({ task: event.taskId, result: 'success' });
+      taskDuration.observe({ task: event.taskId }, event.duration / 1000);
+    }),
+    scheduler.subscribeToError(event => {
+      taskRuns.inc({ task: event.taskId, result: 'error' });
+      taskDuration.observe({ task: event.taskId }, event.duration / 1000);
+    }),
+    scheduler.subscribeToSkipped(event => {
+      taskRuns.inc({ task: event.taskId, result: 'skipped' });
+    }),
+    scheduler.subscribeToTaskState(status => {
+      taskConsecutiveFailures.set({ task: status.taskId }, status.consecutiveFailures);
+      taskPaused.set({ task: status.taskId }, status.paused ? 1 : 0);
+    }),
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
 
 // 请求监控中间件
 export const requestMetrics = (req: Request, res: Response, next: NextFunction) => {
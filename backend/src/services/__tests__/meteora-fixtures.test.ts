@@ -0,0 +1,111 @@
+/**
+ * @file Meteora 离线数据录制与回放测试
+ * @module services/__tests__/meteora-fixtures
+ * @description 按快照顺序回放 pair/all、DLMM 调用和代币价格，以及录制后的快照能被回放
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MeteoraFixtureStore } from '../meteora-fixtures';
+import { TokenMetadata } from '../token-registry';
+import { meteoraPairSchema } from '../schemas/meteora-pair.schema';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'meteora');
+const POOL = '3gLESRnfLgzAqu6PwGhBwsiBsnQ7BAtyWHhZ5zNcDPMF';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+const token = (mint: string, symbol: string): TokenMetadata => ({ mint, symbol, decimals: 6 });
+const tokens = [token(USDC, 'USDC'), token(USDT, 'USDT')];
+
+describe('MeteoraFixtureStore', () => {
+  describe('replay', () => {
+    let store: MeteoraFixtureStore;
+
+    beforeEach(() => {
+      store = new MeteoraFixtureStore({ mode: 'replay', dir: FIXTURE_DIR });
+    });
+
+    it('advances through the snapshots in file order and stops at the last one', () => {
+      expect(store.getSnapshotCount()).toBe(2);
+      expect(store.getSnapshotIndex()).toBe(0);
+
+      expect(store.advance()).toBe(true);
+      expect(store.getSnapshotIndex()).toBe(1);
+      expect(store.advance()).toBe(false);
+      expect(store.getSnapshotIndex()).toBe(1);
+
+      store.reset();
+      expect(store.getSnapshotIndex()).toBe(0);
+    });
+
+    it('returns the pair list, DLMM state and prices of the current snapshot', async () => {
+      const pairs = (): Array<{ trade_volume_24h: number }> => store.getPairs() as Array<{ trade_volume_24h: number }>;
+      const prices = store.wrapPriceSource({ getUsdPrices: () => Promise.reject(new Error('not used in replay')) });
+
+      let pool = store.getDlmmPool(POOL);
+      expect(meteoraPairSchema.safeParse(pairs()[0]).success).toBe(true);
+      expect(pairs()[0].trade_volume_24h).toBe(2500000);
+      expect(pool.tokenX.publicKey.toBase58()).toBe(USDC);
+      expect(pool.tokenX.amount).toBe(1500000000n);
+      expect(await pool.getActiveBin()).toEqual({ binId: 0, price: 1n });
+      expect((await pool.getFeeInfo()).baseFee).toBe(10000n);
+      expect((await prices.getUsdPrices(tokens)).get(USDT)).toBe(0.9998);
+
+      store.advance();
+      pool = store.getDlmmPool(POOL);
+      expect(pairs()[0].trade_volume_24h).toBe(2600000);
+      expect(pool.tokenX.amount).toBe(1200000000n);
+      expect(pool.lbPair.activeId).toBe(1);
+      expect((await pool.getActiveBin()).binId).toBe(1);
+      expect((await prices.getUsdPrices(tokens)).get(USDT)).toBe(0.9997);
+    });
+
+    it('cuts window queries that were not recorded from the recorded bin arrays', async () => {
+      store.advance();
+      const pool = store.getDlmmPool(POOL);
+
+      const around = await pool.getBinsAroundActiveBin(1, 1);
+      expect(around.activeBin).toBe(1);
+      expect(around.bins.map(bin => bin.binId)).toEqual([0, 1, 2]);
+
+      const range = await pool.getBinsBetweenLowerAndUpperBound(-5, 0);
+      expect(range.bins.map(bin => bin.binId)).toEqual([-1, 0]);
+    });
+
+    it('rejects pools that are not in the current snapshot', () => {
+      expect(() => store.getDlmmPool(USDC)).toThrow(`No DLMM fixture for pool ${USDC} in snapshot 0000.json`);
+    });
+  });
+
+  it('does not advance when fixtures are off', () => {
+    const store = new MeteoraFixtureStore({ mode: 'off', dir: FIXTURE_DIR });
+    expect(store.advance()).toBe(false);
+  });
+
+  it('replays what was recorded, one snapshot per advance()', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'meteora-fixtures-'));
+    try {
+      const recorder = new MeteoraFixtureStore({ mode: 'record', dir });
+      const source = recorder.wrapPriceSource({
+        getUsdPrices: async () => new Map([[USDC, 1], [USDT, 0.9999]])
+      });
+      recorder.recordPairs([{ address: POOL }]);
+      await source.getUsdPrices(tokens);
+      expect(recorder.advance()).toBe(true);
+      recorder.recordPairs([]);
+      await recorder.flush();
+
+      expect(fs.readdirSync(dir).sort()).toEqual(['0000.json', '0001.json']);
+
+      const replay = new MeteoraFixtureStore({ mode: 'replay', dir });
+      expect(replay.getPairs()).toEqual([{ address: POOL }]);
+      expect((await replay.wrapPriceSource(source).getUsdPrices(tokens)).get(USDT)).toBe(0.9999);
+      expect(replay.advance()).toBe(true);
+      expect(replay.getPairs()).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Meteora API 错误类
+ * 将 HTTP 状态码和 SDK/RPC 异常统一映射为网络错误码，并标记是否可重试
+ */
+
+import { NETWORK_ERROR_CODES } from '@liqpro/shared/src/constants/errorCodes';
+
+export type MeteoraErrorCode = typeof NETWORK_ERROR_CODES[keyof typeof NETWORK_ERROR_CODES];
+
+export interface MeteoraApiErrorOptions {
+  status?: number;      // HTTP状态码
+  retryable?: boolean;  // 是否可重试
+  retryAfter?: number;  // 服务端要求的重试等待时间（毫秒）
+  cause?: unknown;      // 原始异常
+}
+
+// 可重试的HTTP状态码
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// 可重试的底层网络错误特征
+const TRANSIENT_ERROR_PATTERN =
+  /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|network/i;
+
+export class MeteoraApiError extends Error {
+  readonly code: MeteoraErrorCode;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, code: MeteoraErrorCode, options: MeteoraApiErrorOptions = {}) {
+    super(message);
+    this.name = 'MeteoraApiError';
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfter = options.retryAfter;
+    this.cause = options.cause;
+  }
+
+  /**
+   * 根据HTTP响应创建错误
+   * @param status - HTTP状态码
+   * @param url - 请求地址
+   * @param retryAfterHeader - Retry-After 响应头
+   */
+  static fromResponse(status: number, url: string, retryAfterHeader?: string | null): MeteoraApiError {
+    const retryable = RETRYABLE_STATUSES.has(status);
+
+    if (status === 429) {
+      return new MeteoraApiError(`Rate limited by ${url}`, NETWORK_ERROR_CODES.API_RATE_LIMIT, {
+        status,
+        retryable,
+        retryAfter: parseRetryAfter(retryAfterHeader)
+      });
+    }
+    if (status === 408 || status === 504) {
+      return new MeteoraApiError(`Request to ${url} timed out (status ${status})`, NETWORK_ERROR_CODES.API_TIMEOUT, {
+        status,
+        retryable
+      });
+    }
+    return new MeteoraApiError(`Request to ${url} failed with status ${status}`, NETWORK_ERROR_CODES.API_ERROR, {
+      status,
+      retryable
+    });
+  }
+
+  /**
+   * 将任意异常归类为 MeteoraApiError
+   * @param error - 原始异常（fetch 异常、SDK/RPC 异常等）
+   */
+  static from(error: unknown): MeteoraApiError {
+    if (error instanceof MeteoraApiError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const name = error instanceof Error ? error.name : '';
+
+    if (name === 'AbortError' || name === 'TimeoutError' || /time(d)? ?out/i.test(message)) {
+      return new MeteoraApiError(message, NETWORK_ERROR_CODES.API_TIMEOUT, { retryable: true, cause: error });
+    }
+    if (/\b429\b|too many requests/i.test(message)) {
+      return new MeteoraApiError(message, NETWORK_ERROR_CODES.API_RATE_LIMIT, { retryable: true, cause: error });
+    }
+    if (/\b50[0234]\b/.test(message) || TRANSIENT_ERROR_PATTERN.test(message)) {
+      return new MeteoraApiError(message, NETWORK_ERROR_CODES.API_ERROR, { retryable: true, cause: error });
+    }
+    return new MeteoraApiError(message, NETWORK_ERROR_CODES.API_ERROR, { retryable: false, cause: error });
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或HTTP日期）
+ * @returns 等待时间（毫秒），无法解析时返回 undefined
+ */
+function parseRetryAfter(header?: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
@@ -0,0 +1,93 @@
+/**
+ * @file Meteora 数据源
+ * @module services/meteora-data-source
+ * @description DataManager 的默认数据源：池子数据取自 Meteora pair/all 列表，代币价格取自价格源
+ */
+
+import { IDataSource } from '../core/data/data-source';
+import { DataTransformers } from '../core/data/transformers';
+import { PoolData as DataPool, TokenInfo } from '../core/data/data-types';
+import { PoolData } from '../core/data/types/PoolData';
+import { RequestPriority } from '../utils/request-scheduler';
+import { config } from '../config';
+import { MeteoraService } from './meteora';
+import { PriceSource, JupiterPriceSource } from './price-source';
+import { TokenRegistry } from './token-registry';
+
+export class MeteoraDataSource implements IDataSource {
+  private readonly meteoraService: MeteoraService;
+  private readonly priceSource: PriceSource;
+  private readonly tokenRegistry: TokenRegistry;
+  private readonly listTtl: number;
+  private pools: Map<string, PoolData> | null = null;
+  private poolsFetchedAt = 0;
+  private pendingList: Promise<Map<string, PoolData>> | null = null;
+
+  constructor(
+    meteoraService: MeteoraService,
+    priceSource: PriceSource = new JupiterPriceSource(),
+    tokenRegistry: TokenRegistry = TokenRegistry.getInstance(),
+    listTtl: number = config.dataManager.sourceListTtl
+  ) {
+    this.meteoraService = meteoraService;
+    this.priceSource = priceSource;
+    this.tokenRegistry = tokenRegistry;
+    this.listTtl = listTtl;
+  }
+
+  /**
+   * 获取池子最新数据
+   * 一轮刷新中的所有池子共用一次 pair/all 请求
+   */
+  async fetchPoolData(poolId: string): Promise<DataPool | null> {
+    const pools = await this.getPoolList();
+    const pool = pools.get(poolId);
+    return pool ? DataTransformers.toPoolSummary(pool) : null;
+  }
+
+  /**
+   * 达到 TVL 和成交量门槛（与 PoolService 的Top 100列表相同）的池子地址
+   * 与同一轮的 fetchPoolData 共用一次 pair/all 请求
+   */
+  async listPoolIds(): Promise<string[]> {
+    const pools = await this.getPoolList();
+    return Array.from(pools.values())
+      .filter(pool => parseFloat(pool.liquidity.total) >= config.pools.minTVL && pool.volume.last24h >= config.pools.minVolume)
+      .map(pool => pool.address);
+  }
+
+  /**
+   * 获取代币最新元数据和 USD 价格
+   */
+  async fetchTokenData(tokenAddress: string): Promise<Partial<TokenInfo> | null> {
+    const metadata = this.tokenRegistry.resolve(tokenAddress);
+    const prices = await this.priceSource.getUsdPrices([metadata]);
+    const price = prices.get(tokenAddress);
+    if (price === undefined) return null;
+
+    return {
+      mint: metadata.mint,
+      symbol: metadata.symbol,
+      decimals: metadata.decimals,
+      price
+    };
+  }
+
+  private async getPoolList(): Promise<Map<string, PoolData>> {
+    if (this.pools && Date.now() - this.poolsFetchedAt < this.listTtl) {
+      return this.pools;
+    }
+    if (!this.pendingList) {
+      this.pendingList = this.meteoraService.getAllPools(RequestPriority.LOW)
+        .then(pools => {
+          this.pools = new Map(pools.map(pool => [pool.address, pool]));
+          this.poolsFetchedAt = Date.now();
+          return this.pools;
+        })
+        .finally(() => {
+          this.pendingList = null;
+        });
+    }
+    return this.pendingList;
+  }
+}
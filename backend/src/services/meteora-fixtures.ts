@@ -0,0 +1,389 @@
+/**
+ * @file Meteora 离线数据录制与回放
+ * @module services/meteora-fixtures
+ * @description 录制模式下把 pair/all 响应、DLMM 调用结果和代币价格保存为带版本号的 JSON 快照；
+ * 回放模式下按快照顺序确定性地返回这些数据，可逐个快照前进以模拟时间推移
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import type { DLMMPool, BinArrayAccount, BinsInRange, FeeInfo, LbPairState, TokenReserve } from '@meteora-ag/dlmm';
+import { config } from '../config';
+import { TokenMetadata } from './token-registry';
+import { PriceSource } from './price-source';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+// 快照格式版本，格式不兼容时递增
+// 2: activeBin 增加 binId
+export const FIXTURE_VERSION = 2;
+
+interface SerializedReserve {
+  publicKey: string;
+  reserve: string;
+  amount: bigint;
+  decimal: number;
+}
+
+/**
+ * 单个池子的 DLMM 调用结果
+ */
+export interface PoolFixture {
+  tokenX?: SerializedReserve;
+  tokenY?: SerializedReserve;
+  lbPair?: LbPairState;
+  activeBin?: { binId: number; price: bigint };
+  feeInfo?: FeeInfo;
+  binArrays?: BinArrayAccount[];
+  binWindows?: Record<string, BinsInRange>;  // 窗口查询结果，键为 "around:左:右" 或 "range:下:上"
+}
+
+/**
+ * 某一时刻的完整快照
+ */
+export interface FixtureSnapshot {
+  version: number;
+  recordedAt: string;
+  pairs?: unknown;                       // pair/all 原始响应
+  pools: Record<string, PoolFixture>;    // 池子地址 -> DLMM 调用结果
+  prices: Record<string, number>;        // mint -> USD 价格
+}
+
+export interface MeteoraFixtureOptions {
+  mode: FixtureMode;
+  dir: string;    // 快照目录，每个快照一个 JSON 文件，按文件名排序
+}
+
+// bigint 无法直接序列化为 JSON，用带标记的字符串保存
+const BIGINT_TAG = '$bigint:';
+
+const replacer = (_key: string, value: unknown): unknown =>
+  typeof value === 'bigint' ? `${BIGINT_TAG}${value.toString()}` : value;
+
+const reviver = (_key: string, value: unknown): unknown =>
+  typeof value === 'string' && value.startsWith(BIGINT_TAG) ? BigInt(value.slice(BIGINT_TAG.length)) : value;
+
+// 录制时合并写盘的间隔（毫秒），避免每次调用都重写整个快照
+const FLUSH_DELAY = 1000;
+
+export class MeteoraFixtureStore {
+  readonly mode: FixtureMode;
+  private readonly dir: string;
+  private snapshots: FixtureSnapshot[] = [];
+  private files: string[] = [];
+  private index = 0;
+  // 录制模式下有未写入改动的快照序号
+  private dirty = new Set<number>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private static instance: MeteoraFixtureStore | null = null;
+
+  constructor(options: MeteoraFixtureOptions) {
+    this.mode = options.mode;
+    this.dir = options.dir;
+
+    if (this.mode === 'replay') {
+      this.load();
+    } else if (this.mode === 'record') {
+      fs.mkdirSync(this.dir, { recursive: true });
+      // 追加在已有快照之后，不覆盖之前的录制
+      this.index = this.listFiles().length;
+      this.snapshots[this.index] = this.emptySnapshot();
+    }
+  }
+
+  // 进程共享的快照存储，多个 MeteoraService 实例录制到同一组快照
+  static getInstance(): MeteoraFixtureStore {
+    if (!MeteoraFixtureStore.instance) {
+      MeteoraFixtureStore.instance = new MeteoraFixtureStore(config.meteora.fixtures);
+    }
+    return MeteoraFixtureStore.instance;
+  }
+
+  /**
+   * 前进到下一个快照
+   * 录制模式下开始一个新快照；回放模式下切换到下一个快照，已是最后一个时返回 false
+   */
+  advance(): boolean {
+    if (this.mode === 'record') {
+      this.index++;
+      this.snapshots[this.index] = this.emptySnapshot();
+      return true;
+    }
+    if (this.mode === 'replay' && this.index < this.snapshots.length - 1) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  // 回放模式下回到第一个快照
+  reset(): void {
+    if (this.mode === 'replay') {
+      this.index = 0;
+    }
+  }
+
+  getSnapshotIndex(): number {
+    return this.index;
+  }
+
+  getSnapshotCount(): number {
+    return this.mode === 'replay' ? this.snapshots.length : this.index + 1;
+  }
+
+  recordPairs(payload: unknown): void {
+    this.current().pairs = payload;
+    this.markDirty();
+  }
+
+  getPairs(): unknown {
+    const pairs = this.current().pairs;
+    if (pairs === undefined) {
+      throw new Error(`No pair/all fixture in snapshot ${this.files[this.index]}`);
+    }
+    return pairs;
+  }
+
+  /**
+   * 包装真实的 DLMM 实例，记录每次调用的结果
+   */
+  recordDlmmPool(address: string, pool: DLMMPool): DLMMPool {
+    const record = (fixture: PoolFixture): void => {
+      const pools = this.current().pools;
+      pools[address] = { ...pools[address], ...fixture };
+      this.markDirty();
+    };
+    const recordWindow = (key: string, result: BinsInRange): void => {
+      const binWindows = this.current().pools[address]?.binWindows;
+      record({ binWindows: { ...binWindows, [key]: result } });
+    };
+
+    return {
+      get tokenX(): TokenReserve {
+        return pool.tokenX;
+      },
+      get tokenY(): TokenReserve {
+        return pool.tokenY;
+      },
+      get lbPair(): LbPairState {
+        return pool.lbPair;
+      },
+      refetchStates: async (): Promise<void> => {
+        await pool.refetchStates();
+        record({
+          tokenX: serializeReserve(pool.tokenX),
+          tokenY: serializeReserve(pool.tokenY),
+          lbPair: { activeId: pool.lbPair.activeId, binStep: pool.lbPair.binStep }
+        });
+      },
+      getActiveBin: async (): Promise<{ binId: number; price: bigint }> => {
+        const activeBin = await pool.getActiveBin();
+        record({ activeBin: { binId: activeBin.binId, price: activeBin.price } });
+        return activeBin;
+      },
+      getFeeInfo: async (): Promise<FeeInfo> => {
+        const feeInfo = await pool.getFeeInfo();
+        record({ feeInfo });
+        return feeInfo;
+      },
+      getBinArrays: async (): Promise<BinArrayAccount[]> => {
+        const binArrays = await pool.getBinArrays();
+        record({ binArrays });
+        return binArrays;
+      },
+      getBinsAroundActiveBin: async (left: number, right: number): Promise<BinsInRange> => {
+        const result = await pool.getBinsAroundActiveBin(left, right);
+        recordWindow(`around:${left}:${right}`, result);
+        return result;
+      },
+      getBinsBetweenLowerAndUpperBound: async (lower: number, upper: number): Promise<BinsInRange> => {
+        const result = await pool.getBinsBetweenLowerAndUpperBound(lower, upper);
+        recordWindow(`range:${lower}:${upper}`, result);
+        return result;
+      },
+      fromPricePerLamport: price => pool.fromPricePerLamport(price)
+    };
+  }
+
+  /**
+   * 用当前快照中的数据构造 DLMM 实例
+   * @throws Error 当前快照中没有该池子的录制数据时
+   */
+  getDlmmPool(address: string): DLMMPool {
+    const fixture = this.current().pools[address];
+    if (!fixture?.tokenX || !fixture.tokenY) {
+      throw new Error(`No DLMM fixture for pool ${address} in snapshot ${this.files[this.index]}`);
+    }
+
+    const tokenX = deserializeReserve(fixture.tokenX);
+    const tokenY = deserializeReserve(fixture.tokenY);
+    const recorded = <T>(value: T | undefined, method: string): Promise<T> =>
+      value === undefined
+        ? Promise.reject(new Error(`No ${method} fixture for pool ${address}`))
+        : Promise.resolve(value);
+
+    const lbPair: LbPairState = fixture.lbPair ?? {
+      activeId: fixture.activeBin?.binId ?? 0,
+      binStep: fixture.binArrays?.[0]?.binStep ?? 0
+    };
+    // 没有录制到的窗口查询从完整的bin数组中截取
+    const window = (key: string, lower: number, upper: number): Promise<BinsInRange> => {
+      const result = fixture.binWindows?.[key];
+      if (result) return Promise.resolve(result);
+      return recorded(fixture.binArrays, 'getBinArrays').then(binArrays => ({
+        activeBin: lbPair.activeId,
+        bins: binArrays
+          .flatMap(array => array.bins)
+          .filter(bin => bin.binId >= lower && bin.binId <= upper)
+      }));
+    };
+
+    return {
+      tokenX,
+      tokenY,
+      lbPair,
+      refetchStates: async () => undefined,
+      getActiveBin: () => recorded(fixture.activeBin, 'getActiveBin'),
+      getFeeInfo: () => recorded(fixture.feeInfo, 'getFeeInfo'),
+      getBinArrays: () => recorded(fixture.binArrays, 'getBinArrays'),
+      getBinsAroundActiveBin: (left, right) =>
+        window(`around:${left}:${right}`, lbPair.activeId - left, lbPair.activeId + right),
+      getBinsBetweenLowerAndUpperBound: (lower, upper) => window(`range:${lower}:${upper}`, lower, upper),
+      // 与 SDK 一致：每 lamport 价格按两侧精度差换算为实际价格
+      fromPricePerLamport: price => price * 10 ** (tokenX.decimal - tokenY.decimal)
+    };
+  }
+
+  /**
+   * 包装价格源：录制模式下记录价格，回放模式下只从快照返回价格
+   */
+  wrapPriceSource(source: PriceSource): PriceSource {
+    if (this.mode === 'replay') {
+      return {
+        getUsdPrices: async (tokens: TokenMetadata[]): Promise<Map<string, number>> => {
+          const prices = this.current().prices;
+          return new Map(
+            tokens.filter(token => prices[token.mint] !== undefined).map(token => [token.mint, prices[token.mint]])
+          );
+        }
+      };
+    }
+    if (this.mode === 'record') {
+      return {
+        getUsdPrices: async (tokens: TokenMetadata[]): Promise<Map<string, number>> => {
+          const prices = await source.getUsdPrices(tokens);
+          prices.forEach((price, mint) => {
+            this.current().prices[mint] = price;
+          });
+          this.markDirty();
+          return prices;
+        }
+      };
+    }
+    return source;
+  }
+
+  /**
+   * 立即写入所有未保存的快照，录制结束或进程退出前调用
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const indexes = [...this.dirty];
+    this.dirty.clear();
+    // 写入串行执行，同一快照的旧内容不会覆盖新内容
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => Promise.all(indexes.map(index => this.write(index))))
+      .then(() => undefined);
+    return this.writing;
+  }
+
+  private current(): FixtureSnapshot {
+    const snapshot = this.snapshots[this.index];
+    if (!snapshot) {
+      throw new Error(`No fixture snapshots available in ${this.dir}`);
+    }
+    return snapshot;
+  }
+
+  private load(): void {
+    this.files = this.listFiles();
+    this.snapshots = this.files.map(file => {
+      const snapshot = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8'), reviver) as FixtureSnapshot;
+      return migrateSnapshot(snapshot, file);
+    });
+  }
+
+  private listFiles(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir).filter(file => file.endsWith('.json')).sort();
+  }
+
+  private markDirty(): void {
+    this.dirty.add(this.index);
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => {
+        console.error('Error writing fixture snapshot:', error);
+      });
+    }, FLUSH_DELAY);
+  }
+
+  private async write(index: number): Promise<void> {
+    const file = `${String(index).padStart(4, '0')}.json`;
+    this.files[index] = file;
+    await fs.promises.writeFile(path.join(this.dir, file), JSON.stringify(this.snapshots[index], replacer, 2));
+  }
+
+  private emptySnapshot(): FixtureSnapshot {
+    return { version: FIXTURE_VERSION, recordedAt: new Date().toISOString(), pools: {}, prices: {} };
+  }
+}
+
+/**
+ * 把旧版本快照升级到当前版本
+ * @throws Error 版本未知或缺少升级所需的数据时，需要重新录制
+ */
+function migrateSnapshot(snapshot: FixtureSnapshot, file: string): FixtureSnapshot {
+  if (snapshot.version === FIXTURE_VERSION) {
+    return snapshot;
+  }
+  if (snapshot.version === 1) {
+    // 版本 1 的 activeBin 只有价格，binId 取自同一次录制的 lbPair.activeId
+    for (const [address, pool] of Object.entries(snapshot.pools)) {
+      if (!pool.activeBin || pool.activeBin.binId !== undefined) continue;
+      if (!pool.lbPair) {
+        throw new Error(`Fixture ${file} has no active bin id for pool ${address}; re-record it`);
+      }
+      pool.activeBin = { binId: pool.lbPair.activeId, price: pool.activeBin.price };
+    }
+    return { ...snapshot, version: FIXTURE_VERSION };
+  }
+  throw new Error(
+    `Fixture ${file} has version ${snapshot.version}, expected ${FIXTURE_VERSION}; re-record it`
+  );
+}
+
+function serializeReserve(token: TokenReserve): SerializedReserve {
+  return {
+    publicKey: token.publicKey.toBase58(),
+    reserve: token.reserve.toBase58(),
+    amount: token.amount,
+    decimal: token.decimal
+  };
+}
+
+function deserializeReserve(token: SerializedReserve): TokenReserve {
+  return {
+    publicKey: new PublicKey(token.publicKey),
+    reserve: new PublicKey(token.reserve),
+    amount: token.amount,
+    decimal: token.decimal
+  };
+}
@@ -1,147 +1,255 @@
 import { Connection, PublicKey } from '@solana/web3.js';
+import type { DLMMPool, BinLiquidity } from '@meteora-ag/dlmm';
 import { EventEmitter } from 'events';
 import { PoolData } from '../core/data/types/PoolData';
-import { TokenInfo, TimeSeriesData } from '../core/data/data-types';
+import { DataTransformers } from '../core/data/transformers';
 import { config } from '../config';
+import { RequestScheduler, RequestSchedulerStats, RequestPriority } from '../utils/request-scheduler';
+import { withRetry, RetryOptions } from '../utils/retry';
+import { MeteoraApiError } from './errors/meteora-api.error';
+import { ConnectionManager } from '../core/solana/connection-manager';
+import {
+  CircuitBreaker,
+  CircuitBreakerStats,
+  CircuitOpenError,
+  CircuitStateChangeEvent
+} from '../utils/circuit-breaker';
+import { NETWORK_ERROR_CODES } from '@liqpro/shared/src/constants/errorCodes';
+import { POOL_MODEL_VERSION } from '@liqpro/shared/src/types/poolModel';
+import { meteoraPairSchema } from './schemas/meteora-pair.schema';
+import { TokenRegistry, TokenMetadata } from './token-registry';
+import { PriceSource, JupiterPriceSource } from './price-source';
+import { MeteoraFixtureStore } from './meteora-fixtures';
+import { PoolChangeTracker, PoolChanges } from './pool-change-tracker';
+import { JsonArrayStream } from '../utils/json-array-stream';
+
+/**
+ * 上游依赖：Meteora HTTP API 与 DLMM SDK 使用的 RPC 节点
+ */
+export type MeteoraUpstream = 'api' | 'rpc';
+
+/**
+ * pair/all 解析统计
+ */
+export interface PairParseStats {
+  received: number;       // 最近一次拉取收到的条目数
+  accepted: number;       // 最近一次拉取通过校验的条目数
+  rejected: number;       // 最近一次拉取被拒绝的条目数
+  totalRejected: number;  // 累计被拒绝的条目数
+}
+
+/**
+ * pair/all 流式解析的过滤条件
+ */
+export interface PoolStreamFilter {
+  minTVL?: number;     // 最小TVL（美元）
+  minVolume?: number;  // 最小24小时成交量（美元）
+}
+
+/**
+ * pair/all 流式解析结果
+ */
+export interface PoolStreamResult extends PoolChanges {
+  filtered: number;    // 未达到过滤门槛的池子数
+}
+
+/**
+ * 详情接口的bin窗口
+ * binsPerSide：活跃bin两侧各取N个bin；lowerBinId/upperBinId：取给定区间（如持仓范围）的bin
+ */
+export type BinWindow =
+  | { binsPerSide: number }
+  | { lowerBinId: number; upperBinId: number };
+
+const binWindowKey = (window: BinWindow): string =>
+  'binsPerSide' in window ? `around:${window.binsPerSide}` : `range:${window.lowerBinId}:${window.upperBinId}`;
+
+// 链上原始数量转换为带精度的数量
+const toUiAmount = (amount: bigint, decimals: number): number => Number(amount) / 10 ** decimals;
 
 export class MeteoraService extends EventEmitter {
-  private readonly connection: Connection;
+  private readonly connectionManager: ConnectionManager;
+  private readonly priceSource: PriceSource;
+  private readonly tokenRegistry: TokenRegistry;
+  private readonly fixtures: MeteoraFixtureStore;
+  // DLMM实例绑定创建时的连接，按 "RPC节点|池子地址" 缓存；Map 按插入顺序遍历，命中时重新插入，最久未使用的实例排在最前
+  private readonly dlmmPools: Map<string, DLMMPool> = new Map();
   private readonly baseUrl: string;
   private readonly apiKey: string;
-  private readonly requestQueue: Promise<any>[] = [];
-  private readonly maxConcurrentRequests = 5;
-  private retryCount: number = 3;
-  private retryDelay: number = 1000;
+  private readonly scheduler: RequestScheduler;
+  private readonly retryOptions: RetryOptions;
+  private readonly breakers: Record<MeteoraUpstream, CircuitBreaker>;
+  // 熔断期间用于降级的最近一次成功数据
+  private readonly lastPoolDetails: Map<string, PoolData> = new Map();
+  private lastPoolList: PoolData[] | null = null;
+  // getAllPools 使用的变化跟踪器，用于复用未变化池子的解析结果
+  private readonly listTracker = new PoolChangeTracker();
+  // 每个跟踪器正在进行的一轮流式解析，并发调用共享结果
+  private readonly activeStreams = new WeakMap<PoolChangeTracker, Promise<PoolStreamResult>>();
+  private readonly parseStats: PairParseStats = { received: 0, accepted: 0, rejected: 0, totalRejected: 0 };
 
-  constructor() {
+  constructor(
+    connectionManager: ConnectionManager = ConnectionManager.getInstance(),
+    priceSource: PriceSource = new JupiterPriceSource(),
+    tokenRegistry: TokenRegistry = TokenRegistry.getInstance(),
+    fixtures: MeteoraFixtureStore = MeteoraFixtureStore.getInstance()
+  ) {
     super();
-    this.connection = new Connection(config.meteora.rpcUrl);
+    this.connectionManager = connectionManager;
+    this.fixtures = fixtures;
+    this.priceSource = fixtures.wrapPriceSource(priceSource);
+    this.tokenRegistry = tokenRegistry;
     this.baseUrl = config.meteora.baseUrl;
     this.apiKey = config.meteora.apiKey;
+    this.scheduler = new RequestScheduler({
+      maxConcurrent: config.meteora.maxConcurrentRequests,
+      rateLimit: config.meteora.rateLimit
+    });
+    this.retryOptions = {
+      maxAttempts: config.meteora.retry.maxAttempts,
+      backoff: config.meteora.retry.backoff,
+      shouldRetry: error => error instanceof MeteoraApiError && error.retryable,
+      getRetryAfter: error => (error instanceof MeteoraApiError ? error.retryAfter : undefined),
+      onRetry: (error, attempt, delay) => {
+        console.warn(`Meteora request failed (attempt ${attempt}), retrying in ${delay}ms:`, (error as Error).message);
+      }
+    };
+    this.breakers = {
+      api: this.createBreaker('api'),
+      rpc: this.createBreaker('rpc')
+    };
   }
 
-  private transformTokenInfo(data: any): TokenInfo {
+  // 获取各上游熔断器状态
+  getCircuitStats(): Record<MeteoraUpstream, CircuitBreakerStats> {
     return {
-      mint: data.mint,
-      reserve: data.reserve,
-      amount: data.amount,
-      symbol: data.symbol,
-      decimals: data.decimals,
-      price: data.price
+      api: this.breakers.api.getStats(),
+      rpc: this.breakers.rpc.getStats()
     };
   }
 
-  private transformTimeSeriesData(data: any): TimeSeriesData {
-    return {
-      min_30: data.min_30 || 0,
-      hour_1: data.hour_1 || 0,
-      hour_2: data.hour_2 || 0,
-      hour_4: data.hour_4 || 0,
-      hour_12: data.hour_12 || 0,
-      hour_24: data.hour_24 || 0
-    };
+  // 判断上游是否处于熔断状态
+  isUpstreamAvailable(upstream: MeteoraUpstream): boolean {
+    return !this.breakers[upstream].isOpen();
   }
 
-  private transformPoolData(data: any): PoolData {
-    return {
-      id: data.address,
-      address: data.address,
-      name: data.address.slice(0, 8),
-      tokens: {
-        tokenX: this.transformTokenInfo(data.tokenX),
-        tokenY: this.transformTokenInfo(data.tokenY)
-      },
-      fees: {
-        base: data.fees.base.toString(),
-        max: data.fees.max.toString(),
-        protocol: data.fees.protocol.toString(),
-        today: 0,
-        last24h: 0
-      },
-      volume: {
-        last24h: 0,
-        cumulative: '0'
-      },
-      liquidity: {
-        total: data.liquidity.total
-      },
-      rewards: {
-        mintX: data.rewards.mintX,
-        mintY: data.rewards.mintY,
-        farmApr: 0,
-        farmApy: 0
-      },
-      yields: {
-        apr: 0,
-        fees24hTvl: 0
-      },
-      parameters: {
-        binStep: data.parameters.binStep,
-        currentPrice: data.parameters.currentPrice.toString(),
-        hide: false,
-        isBlacklisted: false
-      },
-      bins: (data.bins || []).map((bin: any) => ({
-        binId: bin.binId.toString(),
-        price: bin.price.toString(),
-        totalLiquidity: bin.totalLiquidity.toString()
-      })),
-      tags: [],
-      lastUpdate: new Date().toISOString()
-    };
+  // 订阅熔断器状态变化
+  subscribeToCircuitState(callback: (event: CircuitStateChangeEvent) => void): () => void {
+    this.on('circuitStateChange', callback);
+    return () => this.off('circuitStateChange', callback);
   }
 
-  async getPoolDetail(address: string): Promise<PoolData> {
-    try {
-      // 创建DLMM实例
-      const DLMM = await import('@meteora-ag/dlmm');
-      const dlmmPool = await DLMM.default.create(this.connection, new PublicKey(address));
+  private createBreaker(upstream: MeteoraUpstream): CircuitBreaker {
+    const breaker = new CircuitBreaker(upstream, {
+      ...config.meteora.circuitBreaker,
+      // 不可重试的错误（如4xx）说明上游仍在正常响应，不计入熔断
+      isFailure: error => MeteoraApiError.from(error).retryable
+    });
+    breaker.on('stateChange', (event: CircuitStateChangeEvent) => {
+      console.warn(`Meteora ${event.name} circuit ${event.from} -> ${event.to}: ${event.reason}`);
+      this.emit('circuitStateChange', event);
+    });
+    return breaker;
+  }
+
+  // 获取请求调度器的队列深度和等待时间统计
+  getSchedulerStats(): RequestSchedulerStats {
+    return this.scheduler.getStats();
+  }
 
-      // 获取活跃bin和价格
-      const activeBin = await dlmmPool.getActiveBin();
-      const currentPrice = dlmmPool.fromPricePerLamport(Number(activeBin.price));
+  /**
+   * 获取 pair/all 解析统计
+   * @returns 最近一次拉取的接收/通过/拒绝数量，以及累计拒绝数量
+   */
+  getParseStats(): PairParseStats {
+    return { ...this.parseStats };
+  }
 
-      // 获取费用信息
-      const feeInfo = await dlmmPool.getFeeInfo();
+  /**
+   * 获取池子详情
+   * @param address - 池子地址
+   * @param priority - 请求优先级
+   * @param window - 只获取指定窗口内的bin；不传时获取池子的全部bin
+   */
+  async getPoolDetail(
+    address: string,
+    priority: RequestPriority = RequestPriority.NORMAL,
+    window?: BinWindow
+  ): Promise<PoolData> {
+    const cacheKey = window ? `${address}|${binWindowKey(window)}` : address;
+    try {
+      // 在同一个节点上刷新链上状态（DLMM实例按节点缓存，需先同步最新的lbPair状态）并读取全部数据，
+      // 避免重试或切换节点后在未刷新的实例上读取
+      const { reserves, activeBinId, currentPrice, feeInfo, rawBins } = await this.callDlmm(address, async dlmmPool => {
+        await dlmmPool.refetchStates();
+        // 两侧代币的mint、储备和精度
+        const reserves = { tokenX: dlmmPool.tokenX, tokenY: dlmmPool.tokenY, binStep: dlmmPool.lbPair.binStep };
+        // 活跃bin和价格（以tokenY计价的tokenX价格）
+        const activeBin = await dlmmPool.getActiveBin();
+        // 费用信息
+        const feeInfo = await dlmmPool.getFeeInfo();
+        // bin：指定窗口时只读取覆盖窗口的bin数组，否则读取全部bin数组
+        const bins = await this.fetchBins(dlmmPool, window);
+        return {
+          reserves,
+          activeBinId: activeBin.binId,
+          currentPrice: dlmmPool.fromPricePerLamport(Number(activeBin.price)),
+          feeInfo,
+          rawBins: bins.map(bin => ({
+            binId: bin.binId,
+            price: dlmmPool.fromPricePerLamport(Number(bin.pricePerLamport)),
+            liquidityX: bin.liquidityX,
+            liquidityY: bin.liquidityY
+          }))
+        };
+      }, priority);
+      const metaX = this.tokenRegistry.resolve(reserves.tokenX.publicKey.toBase58(), reserves.tokenX.decimal);
+      const metaY = this.tokenRegistry.resolve(reserves.tokenY.publicKey.toBase58(), reserves.tokenY.decimal);
 
-      // 获取bin数组
-      const binArrays = await dlmmPool.getBinArrays();
+      // 两侧代币的USD价格
+      const { priceX, priceY } = await this.resolveUsdPrices(metaX, metaY, currentPrice);
 
-      // 获取所有bin数据
-      const allBins = binArrays.flatMap(array => 
-        array.bins.map(bin => ({
+      // 按USD计算每个bin的流动性，两侧代币精度不同，不能直接相加
+      const allBins = rawBins.map(bin => {
+        const amountX = toUiAmount(bin.liquidityX, metaX.decimals);
+        const amountY = toUiAmount(bin.liquidityY, metaY.decimals);
+        return {
           binId: bin.binId,
-          price: dlmmPool.fromPricePerLamport(Number(bin.pricePerLamport)),
-          liquidityX: Number(bin.liquidityX),
-          liquidityY: Number(bin.liquidityY),
-          totalLiquidity: Number(bin.liquidityX) + Number(bin.liquidityY)
-        }))
-      );
+          price: bin.price,
+          amountX,
+          amountY,
+          valueX: amountX * priceX,
+          valueY: amountY * priceY
+        };
+      });
 
-      // 计算总流动性
-      const totalLiquidity = allBins.reduce((total, bin) => total + bin.totalLiquidity, 0);
+      // 按储备计算总流动性（USD），窗口模式下也反映整个池子
+      const totalLiquidity =
+        toUiAmount(reserves.tokenX.amount, metaX.decimals) * priceX +
+        toUiAmount(reserves.tokenY.amount, metaY.decimals) * priceY;
 
       // 构造PoolData对象
       const poolData: PoolData = {
+        version: POOL_MODEL_VERSION,
         id: address,
         address: address,
-        name: `Pool ${address.slice(0, 8)}...`,
+        name: `${metaX.symbol}-${metaY.symbol}`,
         tokens: {
           tokenX: {
-            mint: '',
-            reserve: '',
-            amount: 0,
-            symbol: '',
-            decimals: 0,
-            price: 0
+            mint: metaX.mint,
+            reserve: reserves.tokenX.reserve.toBase58(),
+            amount: Number(reserves.tokenX.amount),
+            symbol: metaX.symbol,
+            decimals: metaX.decimals,
+            price: priceX
           },
           tokenY: {
-            mint: '',
-            reserve: '',
-            amount: 0,
-            symbol: '',
-            decimals: 0,
-            price: 0
+            mint: metaY.mint,
+            reserve: reserves.tokenY.reserve.toBase58(),
+            amount: Number(reserves.tokenY.amount),
+            symbol: metaY.symbol,
+            decimals: metaY.decimals,
+            price: priceY
           }
         },
         fees: {
@@ -166,61 +274,374 @@ export class MeteoraService extends EventEmitter {
         },
         yields: {
           apr: 0,
+          apy: 0,
           fees24hTvl: 0
         },
         parameters: {
-          binStep: binArrays[0]?.binStep || 0,
-          currentPrice: currentPrice.toString(),
+          binStep: reserves.binStep,
+          currentPrice,
+          activeBinId,
           hide: false,
           isBlacklisted: false
         },
         bins: allBins.map(bin => ({
           binId: bin.binId.toString(),
           price: bin.price.toString(),
-          totalLiquidity: bin.totalLiquidity.toString()
+          amountX: bin.amountX.toString(),
+          amountY: bin.amountY.toString(),
+          valueX: bin.valueX.toString(),
+          valueY: bin.valueY.toString(),
+          totalLiquidity: (bin.valueX + bin.valueY).toString(),
+          isActive: bin.binId === activeBinId
         })),
         tags: [],
         lastUpdate: new Date().toISOString()
       };
 
+      this.lastPoolDetails.set(cacheKey, poolData);
       return poolData;
     } catch (error) {
+      const cached = this.lastPoolDetails.get(cacheKey);
+      if (this.isCircuitOpen(error) && cached) {
+        return { ...cached, stale: true };
+      }
       console.error('Error fetching pool detail:', error);
       throw error;
     }
   }
 
-  async getAllPools(): Promise<PoolData[]> {
-    // 从API获取所有池子列表
-    const response = await fetch('https://dlmm-api.meteora.ag/pair/all');
-    const data = await response.json() as any[];
-    return data.map(this.transformPoolData.bind(this));
+  private async fetchBins(dlmmPool: DLMMPool, window?: BinWindow): Promise<BinLiquidity[]> {
+    if (!window) {
+      const binArrays = await dlmmPool.getBinArrays();
+      return binArrays.flatMap(array => array.bins);
+    }
+    if ('binsPerSide' in window) {
+      const { bins } = await dlmmPool.getBinsAroundActiveBin(window.binsPerSide, window.binsPerSide);
+      return bins;
+    }
+    const { bins } = await dlmmPool.getBinsBetweenLowerAndUpperBound(window.lowerBinId, window.upperBinId);
+    return bins;
+  }
+
+  /**
+   * 获取两侧代币的USD价格
+   * 价格源只返回一侧时，用池子当前价格推算另一侧
+   */
+  private async resolveUsdPrices(
+    metaX: TokenMetadata,
+    metaY: TokenMetadata,
+    currentPrice: number
+  ): Promise<{ priceX: number; priceY: number }> {
+    let prices: Map<string, number>;
+    try {
+      prices = await this.priceSource.getUsdPrices([metaX, metaY]);
+    } catch (error) {
+      console.warn('Failed to fetch token prices:', (error as Error).message);
+      prices = new Map();
+    }
+
+    let priceX = prices.get(metaX.mint) ?? 0;
+    let priceY = prices.get(metaY.mint) ?? 0;
+    if (priceX === 0 && priceY > 0) {
+      priceX = currentPrice * priceY;
+    } else if (priceY === 0 && priceX > 0 && currentPrice > 0) {
+      priceY = priceX / currentPrice;
+    }
+    return { priceX, priceY };
+  }
+
+  async getAllPools(priority: RequestPriority = RequestPriority.LOW): Promise<PoolData[]> {
+    // 从API获取所有池子列表，内容未变化的池子直接复用上一轮的解析结果
+    try {
+      const { pools } = await this.streamPools({}, this.listTracker, priority);
+      this.lastPoolList = pools;
+      return pools;
+    } catch (error) {
+      if (this.isCircuitOpen(error) && this.lastPoolList) {
+        return this.lastPoolList.map(pool => ({ ...pool, stale: true }));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 流式解析 pair/all，在解析过程中按TVL和成交量过滤
+   * @param filter - 过滤条件，未达到门槛的池子不做校验和转换
+   * @param tracker - 变化跟踪器，内容哈希与上一轮相同的池子跳过解析；同一跟踪器应始终使用相同的过滤条件
+   * @param priority - 请求优先级
+   * @returns 本轮通过过滤的池子，以及相对上一轮的增量；同一跟踪器上的并发调用返回同一轮的结果
+   */
+  async streamPools(
+    filter: PoolStreamFilter = {},
+    tracker: PoolChangeTracker = new PoolChangeTracker(),
+    priority: RequestPriority = RequestPriority.LOW
+  ): Promise<PoolStreamResult> {
+    const active = this.activeStreams.get(tracker);
+    if (active) return active;
+
+    const stream = this.runPoolStream(filter, tracker, priority).finally(() => {
+      this.activeStreams.delete(tracker);
+    });
+    this.activeStreams.set(tracker, stream);
+    return stream;
+  }
+
+  private async runPoolStream(
+    filter: PoolStreamFilter,
+    tracker: PoolChangeTracker,
+    priority: RequestPriority
+  ): Promise<PoolStreamResult> {
+    const minTVL = filter.minTVL ?? 0;
+    const minVolume = filter.minVolume ?? 0;
+    let received = 0;
+    let filtered = 0;
+    let rejected = 0;
+    let firstIssue: string | undefined;
+
+    const reset = (): void => {
+      tracker.begin();
+      received = 0;
+      filtered = 0;
+      rejected = 0;
+      firstIssue = undefined;
+    };
+
+    const handle = (text: string): void => {
+      received++;
+      const hash = PoolChangeTracker.hash(text);
+      if (tracker.reuse(hash)) return;
+
+      let entry: Record<string, unknown>;
+      try {
+        entry = JSON.parse(text);
+      } catch {
+        rejected++;
+        firstIssue = firstIssue ?? 'invalid JSON element';
+        return;
+      }
+      // 先用原始字段过滤，无法转换为数字的交给schema校验
+      const tvl = Number(entry?.liquidity);
+      const volume = Number(entry?.trade_volume_24h);
+      if ((Number.isFinite(tvl) && tvl < minTVL) || (Number.isFinite(volume) && volume < minVolume)) {
+        filtered++;
+        return;
+      }
+
+      const result = meteoraPairSchema.safeParse(entry);
+      if (!result.success) {
+        rejected++;
+        if (!firstIssue) {
+          const issue = result.error.issues[0];
+          firstIssue = `${entry?.address ?? 'unknown'}: ${issue.path.join('.')} ${issue.message}`;
+        }
+        return;
+      }
+
+      const pair = result.data;
+      if (pair.liquidity < minTVL || pair.trade_volume_24h < minVolume) {
+        filtered++;
+        return;
+      }
+      // 从池子名称中学习代币符号，供详情接口解析元数据
+      const [symbolX, symbolY] = pair.name.split('-');
+      this.tokenRegistry.registerSymbol(pair.mint_x, symbolX);
+      this.tokenRegistry.registerSymbol(pair.mint_y, symbolY);
+      tracker.track(hash, DataTransformers.fromMeteoraPair(pair));
+    };
+
+    await this.streamPairs(handle, reset, priority);
+    const changes = tracker.commit();
+
+    this.parseStats.received = received;
+    this.parseStats.accepted = received - filtered - rejected;
+    this.parseStats.rejected = rejected;
+    this.parseStats.totalRejected += rejected;
+    if (rejected > 0) {
+      console.warn(`Rejected ${rejected}/${received} malformed pairs from pair/all (first: ${firstIssue})`);
+    }
+
+    return { ...changes, filtered };
+  }
+
+  /**
+   * 逐个产出 pair/all 数组中每个池子的原始文本，回放模式下从快照读取
+   * @param onElement - 元素处理函数
+   * @param reset - 每次（重新）开始读取前调用，用于丢弃重试前的部分结果
+   */
+  private async streamPairs(
+    onElement: (text: string) => void,
+    reset: () => void,
+    priority: RequestPriority
+  ): Promise<void> {
+    if (this.fixtures.mode === 'replay') {
+      const payload = this.fixtures.getPairs();
+      if (!Array.isArray(payload)) {
+        throw new MeteoraApiError('Unexpected pair/all fixture: expected an array', NETWORK_ERROR_CODES.API_ERROR);
+      }
+      reset();
+      payload.forEach(entry => onElement(JSON.stringify(entry)));
+      return;
+    }
+
+    const recorded: string[] = [];
+    await this.fetchStream('https://dlmm-api.meteora.ag/pair/all', {}, priority, () => {
+      reset();
+      recorded.length = 0;
+      const parser = new JsonArrayStream();
+      return {
+        push: chunk => parser.push(chunk).forEach(text => {
+          if (this.fixtures.mode === 'record') recorded.push(text);
+          onElement(text);
+        }),
+        end: () => parser.end()
+      };
+    });
+
+    if (this.fixtures.mode === 'record') {
+      this.fixtures.recordPairs(recorded.map(text => JSON.parse(text)));
+    }
   }
 
-  private async makeRequest<T>(endpoint: string): Promise<T> {
+  private async makeRequest<T>(endpoint: string, priority: RequestPriority = RequestPriority.NORMAL): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const headers = {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${this.apiKey}`
     };
+    return this.fetchJson<T>(url, headers, priority);
+  }
 
-    let retries = 0;
-    while (retries < config.pools.maxRetries) {
-      try {
-        const response = await fetch(url, { headers });
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+  // 经过调度器和重试策略发出HTTP请求，失败时抛出 MeteoraApiError
+  private async fetchJson<T>(
+    url: string,
+    headers: Record<string, string>,
+    priority: RequestPriority
+  ): Promise<T> {
+    return this.withCircuit('api', () => withRetry(
+      () => this.scheduler.schedule(async () => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), config.meteora.timeout);
+        try {
+          const response = await fetch(url, { headers, signal: controller.signal });
+          if (!response.ok) {
+            throw MeteoraApiError.fromResponse(response.status, url, response.headers.get('retry-after'));
+          }
+          return await response.json() as T;
+        } catch (error) {
+          throw MeteoraApiError.from(error);
+        } finally {
+          clearTimeout(timer);
         }
-        const data = await response.json();
-        return data as T;
-      } catch (error) {
-        retries++;
-        if (retries === config.pools.maxRetries) {
-          throw error;
+      }, priority),
+      this.retryOptions
+    ));
+  }
+
+  /**
+   * 经过调度器和重试策略以流的方式读取HTTP响应
+   * @param createConsumer - 每次尝试创建新的消费者，重试时之前的部分数据会被丢弃
+   */
+  private async fetchStream(
+    url: string,
+    headers: Record<string, string>,
+    priority: RequestPriority,
+    createConsumer: () => { push: (chunk: string) => void; end: () => void }
+  ): Promise<void> {
+    return this.withCircuit('api', () => withRetry(
+      () => this.scheduler.schedule(async () => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), config.meteora.timeout);
+        try {
+          const response = await fetch(url, { headers, signal: controller.signal });
+          if (!response.ok) {
+            throw MeteoraApiError.fromResponse(response.status, url, response.headers.get('retry-after'));
+          }
+          if (!response.body) {
+            throw new Error(`Empty response body from ${url}`);
+          }
+
+          const consumer = createConsumer();
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            consumer.push(decoder.decode(value, { stream: true }));
+          }
+          consumer.push(decoder.decode());
+          consumer.end();
+        } catch (error) {
+          throw MeteoraApiError.from(error);
+        } finally {
+          clearTimeout(timer);
         }
-        await new Promise(resolve => setTimeout(resolve, config.pools.retryDelay));
+      }, priority),
+      this.retryOptions
+    ));
+  }
+
+  /**
+   * 在最健康的RPC节点上调用DLMM SDK
+   * 经过调度器和重试策略，节点失败时由连接管理器切换到备用节点，最终失败时抛出 MeteoraApiError
+   */
+  private async callDlmm<T>(
+    address: string,
+    task: (dlmmPool: DLMMPool) => Promise<T>,
+    priority: RequestPriority
+  ): Promise<T> {
+    // 回放模式下不经过调度器和RPC节点
+    if (this.fixtures.mode === 'replay') {
+      return task(this.fixtures.getDlmmPool(address));
+    }
+
+    return this.withCircuit('rpc', () => withRetry(
+      () => this.scheduler.schedule(
+        () => this.connectionManager.execute(async connection => task(await this.loadDlmmPool(connection, address))),
+        priority
+      ).catch(error => {
+        throw MeteoraApiError.from(error);
+      }),
+      this.retryOptions
+    ));
+  }
+
+  // 通过上游熔断器执行调用，熔断中直接抛出 SERVICE_UNAVAILABLE
+  private async withCircuit<T>(upstream: MeteoraUpstream, task: () => Promise<T>): Promise<T> {
+    try {
+      return await this.breakers[upstream].execute(task);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        throw new MeteoraApiError(
+          `Meteora ${upstream} is unavailable (circuit open)`,
+          NETWORK_ERROR_CODES.SERVICE_UNAVAILABLE,
+          { retryable: false, cause: error }
+        );
       }
+      throw error;
+    }
+  }
+
+  private isCircuitOpen(error: unknown): boolean {
+    return error instanceof MeteoraApiError && error.code === NETWORK_ERROR_CODES.SERVICE_UNAVAILABLE;
+  }
+
+  private async loadDlmmPool(connection: Connection, address: string): Promise<DLMMPool> {
+    const key = `${connection.rpcEndpoint}|${address}`;
+    const cached = this.dlmmPools.get(key);
+    if (cached) {
+      this.dlmmPools.delete(key);
+      this.dlmmPools.set(key, cached);
+      return cached;
+    }
+
+    const DLMM = await import('@meteora-ag/dlmm');
+    const created = await DLMM.default.create(connection, new PublicKey(address));
+    const dlmmPool = this.fixtures.mode === 'record' ? this.fixtures.recordDlmmPool(address, created) : created;
+    this.dlmmPools.set(key, dlmmPool);
+    // 超出上限时淘汰最久未使用的实例
+    while (this.dlmmPools.size > config.meteora.dlmmPoolCacheSize) {
+      this.dlmmPools.delete(this.dlmmPools.keys().next().value as string);
     }
-    throw new Error('Max retries reached');
+    return dlmmPool;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+/**
+ * @file 池子变化跟踪器
+ * @module services/pool-change-tracker
+ * @description 以 pair/all 中每个池子原始文本的内容哈希识别未变化的池子，跳过重复解析并计算本轮的增量
+ */
+
+import { createHash } from 'crypto';
+import { PoolData } from '../core/data/types/PoolData';
+
+interface TrackedPool {
+  hash: string;
+  pool: PoolData;
+}
+
+/**
+ * 一轮跟踪的结果
+ */
+export interface PoolChanges {
+  pools: PoolData[];    // 本轮的全部池子
+  changed: PoolData[];  // 新增或内容变化的池子
+  removed: string[];    // 上一轮存在、本轮消失的池子地址
+  unchanged: number;    // 内容未变化的池子数
+}
+
+/**
+ * 池子变化跟踪器
+ * 每个使用方（以及每组过滤条件）应持有独立的实例，否则增量会互相干扰；
+ * 同一实例同一时间只能进行一轮跟踪，MeteoraService.streamPools 对同一跟踪器的并发调用共享同一轮结果
+ */
+export class PoolChangeTracker {
+  private previous: Map<string, TrackedPool> = new Map();  // 哈希 -> 上一轮的池子
+  private current: Map<string, TrackedPool> = new Map();
+  private changed: PoolData[] = [];
+  private roundStartedAt = new Date().toISOString();
+
+  static hash(text: string): string {
+    return createHash('sha1').update(text).digest('hex');
+  }
+
+  // 开始新一轮跟踪（上游请求重试时也会重新开始）
+  begin(): void {
+    this.current = new Map();
+    this.changed = [];
+    this.roundStartedAt = new Date().toISOString();
+  }
+
+  /**
+   * 查找内容未变化的池子
+   * @param hash - 原始文本的内容哈希
+   * @returns 上一轮解析出的池子（lastUpdate 更新为本轮时间），内容有变化时返回 undefined
+   */
+  reuse(hash: string): PoolData | undefined {
+    const tracked = this.previous.get(hash);
+    if (!tracked) return undefined;
+
+    const pool = { ...tracked.pool, lastUpdate: this.roundStartedAt };
+    this.current.set(hash, { hash, pool });
+    return pool;
+  }
+
+  // 记录本轮新解析的池子
+  track(hash: string, pool: PoolData): void {
+    this.current.set(hash, { hash, pool });
+    this.changed.push(pool);
+  }
+
+  // 结束本轮跟踪，计算增量并作为下一轮的基准
+  commit(): PoolChanges {
+    const pools = Array.from(this.current.values()).map(tracked => tracked.pool);
+    const addresses = new Set(pools.map(pool => pool.address));
+    const removed = Array.from(this.previous.values())
+      .map(tracked => tracked.pool.address)
+      .filter(address => !addresses.has(address));
+
+    const changes: PoolChanges = {
+      pools,
+      changed: this.changed,
+      removed: Array.from(new Set(removed)),
+      unchanged: pools.length - this.changed.length
+    };
+
+    this.previous = this.current;
+    this.begin();
+    return changes;
+  }
+}
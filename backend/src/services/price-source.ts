@@ -0,0 +1,98 @@
+/**
+ * @file 代币价格源
+ * @module services/price-source
+ * @description 可替换的 USD 价格源接口，默认实现通过 Jupiter 报价接口将 1 个代币兑换为 USDC 估价
+ */
+
+import { config } from '../config';
+import { TokenMetadata, USDC_MINT } from './token-registry';
+
+/**
+ * 价格源
+ * 返回 mint -> USD 价格；取不到价格的代币不出现在结果中
+ */
+export interface PriceSource {
+  getUsdPrices(tokens: TokenMetadata[]): Promise<Map<string, number>>;
+}
+
+/**
+ * Jupiter 价格源配置
+ */
+export interface JupiterPriceSourceOptions {
+  apiUrl: string;     // Jupiter 报价 API 地址
+  timeout: number;    // 单次请求超时（毫秒）
+  cacheTtl: number;   // 价格缓存时间（毫秒）
+}
+
+interface CachedPrice {
+  price: number;
+  timestamp: number;
+}
+
+const USDC_DECIMALS = 6;
+
+export class JupiterPriceSource implements PriceSource {
+  private readonly options: JupiterPriceSourceOptions;
+  private readonly prices: Map<string, CachedPrice> = new Map();
+
+  constructor(options: Partial<JupiterPriceSourceOptions> = {}) {
+    this.options = {
+      apiUrl: config.jupiter.apiUrl,
+      timeout: config.jupiter.timeout,
+      cacheTtl: config.jupiter.priceCacheTtl,
+      ...options
+    };
+  }
+
+  async getUsdPrices(tokens: TokenMetadata[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+
+    await Promise.all(tokens.map(async token => {
+      const cached = this.prices.get(token.mint);
+      if (cached && Date.now() - cached.timestamp < this.options.cacheTtl) {
+        result.set(token.mint, cached.price);
+        return;
+      }
+
+      try {
+        const price = await this.fetchPrice(token);
+        this.prices.set(token.mint, { price, timestamp: Date.now() });
+        result.set(token.mint, price);
+      } catch (error) {
+        console.warn(`Failed to fetch USD price for ${token.symbol} (${token.mint}):`, (error as Error).message);
+      }
+    }));
+
+    return result;
+  }
+
+  // 询价 1 个完整单位的代币能换多少 USDC
+  private async fetchPrice(token: TokenMetadata): Promise<number> {
+    if (token.mint === USDC_MINT) return 1;
+
+    const amount = BigInt(10) ** BigInt(token.decimals);
+    const params = new URLSearchParams({
+      inputMint: token.mint,
+      outputMint: USDC_MINT,
+      amount: amount.toString(),
+      slippageBps: '50'
+    });
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+    try {
+      const response = await fetch(`${this.options.apiUrl}/quote?${params}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Jupiter quote request failed with status ${response.status}`);
+      }
+      const quote = await response.json() as { outAmount?: string };
+      const outAmount = Number(quote.outAmount);
+      if (!Number.isFinite(outAmount) || outAmount <= 0) {
+        throw new Error('Jupiter quote returned no route');
+      }
+      return outAmount / 10 ** USDC_DECIMALS;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
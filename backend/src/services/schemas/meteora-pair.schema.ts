@@ -0,0 +1,55 @@
+/**
+ * Meteora pair/all 接口返回数据的校验schema
+ * 字段命名与接口原始payload保持一致（snake_case）
+ */
+
+import { z } from 'zod';
+
+// 数值字段在接口中可能以字符串或数字返回
+const numeric = z.union([z.number(), z.string()]).pipe(z.coerce.number().finite());
+
+const timeSeriesSchema = z.object({
+  min_30: numeric.default(0),
+  hour_1: numeric.default(0),
+  hour_2: numeric.default(0),
+  hour_4: numeric.default(0),
+  hour_12: numeric.default(0),
+  hour_24: numeric.default(0)
+});
+
+export const meteoraPairSchema = z.object({
+  address: z.string().min(32),
+  name: z.string(),
+  mint_x: z.string().min(32),
+  mint_y: z.string().min(32),
+  reserve_x: z.string(),
+  reserve_y: z.string(),
+  reserve_x_amount: numeric,
+  reserve_y_amount: numeric,
+  bin_step: z.number().int().positive(),
+  base_fee_percentage: numeric,
+  max_fee_percentage: numeric,
+  protocol_fee_percentage: numeric,
+  liquidity: numeric,
+  reward_mint_x: z.string().default(''),
+  reward_mint_y: z.string().default(''),
+  fees_24h: numeric.default(0),
+  today_fees: numeric.default(0),
+  trade_volume_24h: numeric.default(0),
+  cumulative_trade_volume: numeric.default(0),
+  cumulative_fee_volume: numeric.default(0),
+  current_price: numeric,
+  apr: numeric.default(0),
+  apy: numeric.default(0),
+  farm_apr: numeric.default(0),
+  farm_apy: numeric.default(0),
+  hide: z.boolean().default(false),
+  is_blacklisted: z.boolean().default(false),
+  fees: timeSeriesSchema.optional(),
+  fee_tvl_ratio: timeSeriesSchema.optional(),
+  volume: timeSeriesSchema.optional(),
+  tags: z.array(z.string()).default([])
+});
+
+export type MeteoraPair = z.infer<typeof meteoraPairSchema>;
+export type MeteoraTimeSeries = z.infer<typeof timeSeriesSchema>;
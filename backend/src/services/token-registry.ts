@@ -0,0 +1,92 @@
+/**
+ * @file 代币注册表
+ * @module services/token-registry
+ * @description 按 mint 地址解析代币符号和精度：内置常用代币，其余从 pair/all 的池子名称中学习
+ */
+
+/**
+ * 代币元数据
+ */
+export interface TokenMetadata {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// 常用代币
+const KNOWN_TOKENS: TokenMetadata[] = [
+  { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 },
+  { mint: USDC_MINT, symbol: 'USDC', decimals: 6 },
+  { mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', symbol: 'USDT', decimals: 6 },
+  { mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So', symbol: 'mSOL', decimals: 9 },
+  { mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn', symbol: 'JitoSOL', decimals: 9 },
+  { mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', symbol: 'JUP', decimals: 6 },
+  { mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', symbol: 'BONK', decimals: 5 }
+];
+
+// 未知代币以 mint 地址前缀作为符号
+const fallbackSymbol = (mint: string): string => mint.slice(0, 4);
+
+export class TokenRegistry {
+  private static instance: TokenRegistry;
+  private readonly tokens: Map<string, TokenMetadata> = new Map();
+  // 只知道符号、尚未从链上得知精度的代币
+  private readonly symbols: Map<string, string> = new Map();
+
+  constructor(tokens: TokenMetadata[] = KNOWN_TOKENS) {
+    tokens.forEach(token => this.tokens.set(token.mint, token));
+  }
+
+  static getInstance(): TokenRegistry {
+    if (!TokenRegistry.instance) {
+      TokenRegistry.instance = new TokenRegistry();
+    }
+    return TokenRegistry.instance;
+  }
+
+  /**
+   * 登记代币元数据，已有的条目会被覆盖
+   */
+  register(token: TokenMetadata): void {
+    this.tokens.set(token.mint, token);
+    this.symbols.delete(token.mint);
+  }
+
+  /**
+   * 登记代币符号（例如从池子名称 "SOL-USDC" 中得到），不覆盖已知代币
+   */
+  registerSymbol(mint: string, symbol: string): void {
+    if (!mint || !symbol) return;
+
+    const known = this.tokens.get(mint);
+    if (!known) {
+      this.symbols.set(mint, symbol);
+    } else if (known.symbol === fallbackSymbol(mint)) {
+      this.tokens.set(mint, { ...known, symbol });
+    }
+  }
+
+  get(mint: string): TokenMetadata | undefined {
+    return this.tokens.get(mint);
+  }
+
+  /**
+   * 解析代币元数据
+   * @param mint - 代币 mint 地址
+   * @param decimals - 链上读取的精度，优先于注册表中的值
+   * @returns 代币元数据，未知符号时使用 mint 地址前缀
+   */
+  resolve(mint: string, decimals?: number): TokenMetadata {
+    const known = this.tokens.get(mint);
+    const symbol = known?.symbol ?? this.symbols.get(mint) ?? fallbackSymbol(mint);
+    const resolved: TokenMetadata = { mint, symbol, decimals: decimals ?? known?.decimals ?? 0 };
+
+    // 链上精度是权威值，顺便补全注册表
+    if (decimals !== undefined && known?.decimals !== decimals) {
+      this.register(resolved);
+    }
+    return resolved;
+  }
+}
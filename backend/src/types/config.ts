@@ -54,11 +54,32 @@ export interface JupiterConfig {
 export interface MeteoraConfig {
   baseUrl: string;
   apiKey?: string;
+  timeout?: string | number;
+  maxConcurrentRequests?: number;
+  retry?: {
+    maxAttempts: number;
+    backoff: {
+      initialDelay: number;
+      maxDelay: number;
+      factor: number;
+    };
+  };
+  rateLimit?: {
+    maxRequests: number;
+    windowMs: number;
+  };
+  circuitBreaker?: {
+    failureThreshold: number;
+    errorRateThreshold: number;
+    minimumRequests: number;
+    windowSize: number;
+    openTimeout: number;
+    halfOpenMaxCalls: number;
+  };
 }
 
 export interface CacheConfig {
   ttl: number;
-  max?: number;
   enabled?: boolean;
   redis?: {
     host: string | undefined;
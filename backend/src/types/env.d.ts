@@ -2,6 +2,5 @@ declare namespace NodeJS {
   interface ProcessEnv {
     METEORA_API_URL: string;
     METEORA_API_KEY: string;
-    SOLANA_RPC_URL: string;
   }
 } 
\ No newline at end of file
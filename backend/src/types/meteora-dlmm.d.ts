@@ -1,29 +1,52 @@
 declare module '@meteora-ag/dlmm' {
   import { Connection, PublicKey } from '@solana/web3.js';
 
-  interface BinLiquidity {
+  export interface BinLiquidity {
     binId: number;
     pricePerLamport: bigint;
     liquidityX: bigint;
     liquidityY: bigint;
   }
 
-  interface BinArrayAccount {
+  export interface BinArrayAccount {
     bins: BinLiquidity[];
     binStep: number;
   }
 
-  interface FeeInfo {
+  export interface TokenReserve {
+    publicKey: PublicKey;
+    reserve: PublicKey;
+    amount: bigint;
+    decimal: number;
+  }
+
+  export interface LbPairState {
+    activeId: number;
+    binStep: number;
+  }
+
+  export interface BinsInRange {
+    activeBin: number;
+    bins: BinLiquidity[];
+  }
+
+  export interface FeeInfo {
     baseFee: bigint;
     maxFee: bigint;
     protocolFee: bigint;
   }
 
-  interface DLMMPool {
-    getActiveBin(): Promise<{ price: bigint }>;
+  export interface DLMMPool {
+    tokenX: TokenReserve;
+    tokenY: TokenReserve;
+    lbPair: LbPairState;
+    refetchStates(): Promise<void>;
+    getActiveBin(): Promise<{ binId: number; price: bigint }>;
     fromPricePerLamport(price: number): number;
     getFeeInfo(): Promise<FeeInfo>;
     getBinArrays(): Promise<BinArrayAccount[]>;
+    getBinsAroundActiveBin(numberOfBinsToTheLeft: number, numberOfBinsToTheRight: number): Promise<BinsInRange>;
+    getBinsBetweenLowerAndUpperBound(lowerBinId: number, upperBinId: number): Promise<BinsInRange>;
   }
 
   interface DLMM {
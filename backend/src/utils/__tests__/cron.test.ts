@@ -0,0 +1,54 @@
+/**
+ * @file Cron 表达式测试
+ * @module utils/__tests__/cron
+ * @description 字段解析、日/周的或语义和跨月、跨年的下一次触发时间
+ */
+
+import { CronExpression } from '../cron';
+
+const next = (expression: string, after: string): string =>
+  CronExpression.parse(expression).next(new Date(after)).toISOString();
+
+describe('CronExpression', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(next('30 3 * * *', '2026-10-19T03:29:59.999Z')).toBe('2026-10-19T03:30:00.000Z');
+    expect(next('30 3 * * *', '2026-10-19T03:30:00.000Z')).toBe('2026-10-20T03:30:00.000Z');
+  });
+
+  it('expands ranges and lists', () => {
+    expect(next('0 9-11,15 * * *', '2026-10-19T11:00:00.000Z')).toBe('2026-10-19T15:00:00.000Z');
+    expect(next('0 9-11,15 * * *', '2026-10-19T15:00:00.000Z')).toBe('2026-10-20T09:00:00.000Z');
+  });
+
+  it('expands steps over the whole field, a range or from a single value', () => {
+    expect(next('*/15 * * * *', '2026-10-19T10:46:00.000Z')).toBe('2026-10-19T11:00:00.000Z');
+    expect(next('10-30/10 * * * *', '2026-10-19T10:30:00.000Z')).toBe('2026-10-19T11:10:00.000Z');
+    expect(next('0 20/2 * * *', '2026-10-19T22:00:00.000Z')).toBe('2026-10-20T20:00:00.000Z');
+  });
+
+  it('fires when either the day of month or the day of week matches if both are restricted', () => {
+    // 2026-10-19 是周一：下一个 15 号在 11 月，下一个周五是 10-23
+    expect(next('0 0 15 * 5', '2026-10-19T00:00:00.000Z')).toBe('2026-10-23T00:00:00.000Z');
+    expect(next('0 0 15 * 5', '2026-11-14T00:00:00.000Z')).toBe('2026-11-15T00:00:00.000Z');
+  });
+
+  it('only uses the restricted one of day of month and day of week', () => {
+    expect(next('0 0 * * 0', '2026-10-19T00:00:00.000Z')).toBe('2026-10-25T00:00:00.000Z');
+    expect(next('0 0 * * 7', '2026-10-19T00:00:00.000Z')).toBe('2026-10-25T00:00:00.000Z');
+    expect(next('0 0 1 * *', '2026-10-19T00:00:00.000Z')).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('rolls over month and year ends', () => {
+    expect(next('0 0 31 * *', '2026-10-31T00:00:00.000Z')).toBe('2026-12-31T00:00:00.000Z');
+    expect(next('59 23 * * *', '2026-12-31T23:59:00.000Z')).toBe('2027-01-01T23:59:00.000Z');
+    expect(next('0 0 29 2 *', '2026-10-19T00:00:00.000Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('rejects malformed expressions and expressions that never fire', () => {
+    expect(() => CronExpression.parse('0 3 * *')).toThrow('expected 5 fields');
+    expect(() => CronExpression.parse('60 * * * *')).toThrow('bad field "60"');
+    expect(() => CronExpression.parse('0 5-3 * * *')).toThrow('bad field "5-3"');
+    expect(() => CronExpression.parse('*/0 * * * *')).toThrow('bad field "*/0"');
+    expect(() => CronExpression.parse('0 0 30 2 *').next(new Date('2026-10-19T00:00:00.000Z'))).toThrow('no run time');
+  });
+});
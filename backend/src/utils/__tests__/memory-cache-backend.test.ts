@@ -0,0 +1,76 @@
+/**
+ * @file 进程内缓存后端测试
+ * @module utils/__tests__/memory-cache-backend
+ * @description LRU 淘汰、字节预算和按标签删除
+ */
+
+import { CacheEntry } from '../cache-backend';
+import { MemoryCacheBackend, MemoryCacheBackendOptions } from '../memory-cache-backend';
+
+const entry = <T>(value: T, tags: string[] = []): CacheEntry<T> => ({
+  value,
+  timestamp: Date.now(),
+  ttl: 60000,
+  staleTtl: 0,
+  tags
+});
+
+describe('MemoryCacheBackend', () => {
+  let backend: MemoryCacheBackend;
+
+  const create = (options: Partial<MemoryCacheBackendOptions> = {}): MemoryCacheBackend => {
+    backend = new MemoryCacheBackend({ maxEntries: 100, maxBytes: 0, cleanupInterval: 60000, ...options });
+    return backend;
+  };
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  it('evicts the least recently used entry beyond the entry limit', async () => {
+    const cache = create({ maxEntries: 2 });
+    await cache.set('pool:a', entry(1));
+    await cache.set('pool:b', entry(2));
+    await cache.get('pool:a');
+
+    await cache.set('pool:c', entry(3));
+
+    expect(await cache.get('pool:b')).toBeNull();
+    expect((await cache.get('pool:a'))?.value).toBe(1);
+    expect(cache.getStats().prefixes.pool.evictions).toBe(1);
+  });
+
+  it('evicts entries beyond the byte budget and skips values larger than the budget', async () => {
+    const cache = create({ maxBytes: 64 });
+    await cache.set('pool:a', entry('x'.repeat(30)));
+    await cache.set('pool:b', entry('y'.repeat(30)));
+
+    expect(await cache.get('pool:a')).toBeNull();
+    expect(cache.getStats().bytes).toBeLessThanOrEqual(64);
+
+    await cache.set('pool:c', entry('z'.repeat(100)));
+    expect(await cache.get('pool:c')).toBeNull();
+  });
+
+  it('does not estimate entry sizes without a byte budget', async () => {
+    const cache = create();
+    const stringify = jest.spyOn(JSON, 'stringify');
+
+    await cache.set('pool:a', entry({ name: 'SOL-USDC' }));
+
+    expect(stringify).not.toHaveBeenCalled();
+    expect(cache.getStats()).toMatchObject({ size: 1, bytes: 0 });
+    stringify.mockRestore();
+  });
+
+  it('deletes entries by tag and by prefix', async () => {
+    const cache = create();
+    await cache.set('pool:a', entry(1, ['pool-a']));
+    await cache.set('pools:list', entry([1], ['pool-a']));
+    await cache.set('token:sol', entry(2));
+
+    expect(await cache.deleteByTag('pool-a')).toBe(2);
+    expect(await cache.deleteByPrefix('token:')).toBe(1);
+    expect(cache.getStats().size).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @file Redis 缓存后端测试
+ * @module utils/__tests__/redis-cache-backend
+ * @description 使用进程内的 ioredis-mock 代替 Redis 服务
+ */
+
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { CacheEntry } from '../cache-backend';
+import { RedisCacheBackend } from '../redis-cache-backend';
+
+const OPTIONS = { host: 'localhost', port: 6379, keyPrefix: 'test:cache:' };
+
+const entry = <T>(value: T, overrides: Partial<CacheEntry<T>> = {}): CacheEntry<T> => ({
+  value,
+  timestamp: Date.now(),
+  ttl: 60000,
+  staleTtl: 0,
+  tags: [],
+  ...overrides
+});
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RedisCacheBackend', () => {
+  let client: Redis;
+  let backend: RedisCacheBackend;
+
+  beforeEach(async () => {
+    client = new RedisMock() as unknown as Redis;
+    await client.flushall();
+    backend = new RedisCacheBackend(OPTIONS, client);
+  });
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  it('expires entries after ttl plus staleTtl', async () => {
+    await backend.set('pool:a', entry(1, { ttl: 30, staleTtl: 20 }));
+
+    expect(await client.pttl('test:cache:entry:pool:a')).toBeGreaterThan(0);
+    expect((await backend.get('pool:a'))?.value).toBe(1);
+
+    await sleep(80);
+    expect(await backend.get('pool:a')).toBeNull();
+  });
+
+  it('restores Date values nested in the cached value', async () => {
+    const lastUpdate = new Date('2026-10-01T00:00:00.000Z');
+    await backend.set('pool:a', entry({ name: 'SOL-USDC', lastUpdate, history: [lastUpdate] }));
+
+    const cached = await backend.get<{ name: string; lastUpdate: Date; history: Date[] }>('pool:a');
+
+    expect(cached?.value.lastUpdate).toBeInstanceOf(Date);
+    expect(cached?.value.lastUpdate.getTime()).toBe(lastUpdate.getTime());
+    expect(cached?.value.history[0]).toEqual(lastUpdate);
+  });
+
+  it('deletes the entries of a tag and the tag set', async () => {
+    await backend.set('pool:a', entry(1, { tags: ['pool-a'] }));
+    await backend.set('pools:list', entry([1], { tags: ['pool-a'] }));
+    await backend.set('pool:b', entry(2, { tags: ['pool-b'] }));
+
+    expect(await backend.deleteByTag('pool-a')).toBe(2);
+
+    expect(await backend.get('pool:a')).toBeNull();
+    expect(await backend.get('pools:list')).toBeNull();
+    expect((await backend.get('pool:b'))?.value).toBe(2);
+    expect(await client.exists('test:cache:tag:pool-a')).toBe(0);
+  });
+
+  it('deletes only entries under the prefix', async () => {
+    await backend.set('repo:pool:a', entry(1));
+    await backend.set('repo:pool:b', entry(2));
+    await backend.set('repo:pools', entry([1, 2]));
+    await backend.set('repo:token:sol', entry(3));
+
+    expect(await backend.deleteByPrefix('repo:pool:')).toBe(2);
+
+    expect(await backend.get('repo:pools')).not.toBeNull();
+    expect(await backend.get('repo:token:sol')).not.toBeNull();
+  });
+
+  it('clears its own keys without touching other namespaces', async () => {
+    await client.set('other:key', 'kept');
+    await backend.set('pool:a', entry(1, { tags: ['pool-a'] }));
+
+    await backend.clear();
+
+    expect(await client.keys('test:cache:*')).toEqual([]);
+    expect(await client.get('other:key')).toBe('kept');
+  });
+});
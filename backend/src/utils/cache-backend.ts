@@ -0,0 +1,64 @@
+/**
+ * @file 缓存存储后端
+ * @module utils/cache-backend
+ * @description Cache 的存储接口：条目的读写、按前缀和标签删除；新鲜度判断和加载去重由 Cache 负责
+ */
+
+/**
+ * 缓存条目
+ * 后端在 ttl + staleTtl 之后删除条目，ttl 之后的宽限期内条目仍可作为旧值返回
+ */
+export interface CacheEntry<T> {
+  value: T;
+  timestamp: number;  // 写入时间（毫秒）
+  ttl: number;        // 有效期（毫秒）
+  staleTtl: number;   // 过期后的宽限期（毫秒）
+  tags: string[];     // 失效标签
+}
+
+// 单个键前缀在后端中的统计，evictions/expirations 为累计值
+export interface CacheStorageStats {
+  evictions: number;
+  expirations: number;
+  entries: number;
+  bytes: number;      // 近似字节数，memory 后端未设置字节预算时为 0
+}
+
+export interface CacheBackendStats {
+  size: number;
+  bytes: number;
+  prefixes: Record<string, CacheStorageStats>;
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * 删除键以 prefix 开头的条目
+   * @returns 删除的条目数
+   */
+  deleteByPrefix(prefix: string): Promise<number>;
+  /**
+   * 删除带有该标签的条目
+   * @returns 删除的条目数
+   */
+  deleteByTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+  /**
+   * 本进程可见的存储统计，共享后端（Redis）的淘汰和过期由服务端统计，不包含在内
+   * Redis 后端不统计条目数和字节数，均为 0
+   */
+  getStats(): CacheBackendStats;
+  close(): Promise<void>;
+}
+
+/**
+ * 缓存键的统计前缀
+ * 键约定为 <前缀>:<id>（如 repo:pool:<address> 的前缀为 repo），没有冒号时整个键作为前缀
+ */
+export const cacheKeyPrefix = (key: string): string => {
+  const index = key.indexOf(':');
+  return index === -1 ? key : key.slice(0, index);
+};
@@ -1,17 +1,63 @@
-interface CacheItem<T> {
-  value: T;
-  timestamp: number;
-  ttl: number;
+import { config } from '../config';
+import { CacheBackend, CacheEntry, CacheStorageStats, cacheKeyPrefix } from './cache-backend';
+import { MemoryCacheBackend } from './memory-cache-backend';
+import { RedisCacheBackend } from './redis-cache-backend';
+
+export { cacheKeyPrefix } from './cache-backend';
+
+export interface EntryOptions {
+  staleTtl?: number;  // 过期后继续返回旧值的宽限期（毫秒），只对 getOrLoad 生效
+  tags?: string[];    // 失效标签，见 invalidateByTag
+}
+
+export interface LoadOptions<T> {
+  ttl?: number;       // 加载结果的有效期（毫秒），默认5分钟
+  staleTtl?: number;
+  tags?: string[] | ((value: T) => string[]);  // 依赖加载结果的标签（如列表中每个池子）可按结果计算
 }
 
+// 进行中的加载；加载期间键被删除、或结果带有的标签被失效时，结果不再写入缓存
+interface PendingLoad {
+  promise: Promise<unknown>;
+  tags: string[];                 // 加载开始时已知的标签
+  invalidated: boolean;
+  invalidatedTags: Set<string>;   // 加载期间失效的标签，按结果计算标签时用于比对
+}
+
+// 本进程的读取统计，均为累计值
+interface AccessStats {
+  hits: number;
+  staleHits: number;    // getOrLoad 返回的过期旧值
+  misses: number;
+  loadFailures: number; // getOrLoad 加载失败
+}
+
+// 单个键前缀的统计：本进程的读取统计加上后端的存储统计
+export interface CachePrefixStats extends AccessStats, CacheStorageStats {}
+
+export interface CacheStats {
+  backend: string;
+  size: number;
+  bytes: number;
+  prefixes: Record<string, CachePrefixStats>;
+}
+
+const DEFAULT_TTL = 300000; // 5分钟
+
+// 按配置创建存储后端：memory 为进程内缓存，redis 在多个副本间共享
+const createCacheBackend = (): CacheBackend =>
+  config.cache.backend === 'redis'
+    ? new RedisCacheBackend(config.cache.redis)
+    : new MemoryCacheBackend(config.cache);
+
 export class Cache {
   private static instance: Cache;
-  private cache: Map<string, CacheItem<any>> = new Map();
-  private cleanupInterval: NodeJS.Timeout;
+  private readonly backend: CacheBackend;
+  private accessStats: Map<string, AccessStats> = new Map();
+  private pending: Map<string, PendingLoad> = new Map();
 
-  private constructor() {
-    // 每5分钟清理一次过期缓存
-    this.cleanupInterval = setInterval(() => this.cleanup(), 300000);
+  private constructor(backend: CacheBackend = createCacheBackend()) {
+    this.backend = backend;
   }
 
   static getInstance(): Cache {
@@ -21,65 +67,200 @@ export class Cache {
     return Cache.instance;
   }
 
-  set<T>(key: string, value: T, ttl: number = 300000): void { // 默认5分钟
-    this.cache.set(key, {
-      value,
-      timestamp: Date.now(),
-      ttl
-    });
+  // 缓存写入失败只记录警告，调用方照常使用已加载的数据
+  async set<T>(key: string, value: T, ttl: number = DEFAULT_TTL, options: EntryOptions = {}): Promise<void> {
+    try {
+      await this.backend.set(key, {
+        value,
+        timestamp: Date.now(),
+        ttl,
+        staleTtl: options.staleTtl ?? 0,
+        tags: options.tags ?? []
+      });
+    } catch (error) {
+      console.warn(`Cache write failed for key ${key}:`, error);
+    }
   }
 
-  get<T>(key: string): T | null {
-    const item = this.cache.get(key);
-    if (!item) return null;
-
-    if (this.isExpired(item)) {
-      this.cache.delete(key);
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key);
+    const stats = this.statsFor(cacheKeyPrefix(key));
+    if (!entry || this.isExpired(entry)) {
+      stats.misses++;
       return null;
     }
 
-    return item.value as T;
+    stats.hits++;
+    return entry.value;
   }
 
-  delete(key: string): void {
-    this.cache.delete(key);
+  /**
+   * 读取缓存，未命中时加载并写入缓存
+   * 同一个键在本进程内同时只有一个加载在进行，并发调用共用同一次加载结果；
+   * 条目过期但仍在宽限期内时直接返回旧值，并在后台刷新，刷新失败时继续返回旧值；
+   * 加载期间键被删除或失效时，本次结果照常返回给调用方，但不写入缓存
+   * @param key - 缓存键
+   * @param loader - 加载函数
+   * @param options - 有效期、宽限期和失效标签
+   */
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, options: LoadOptions<T> = {}): Promise<T> {
+    const entryOptions: Required<LoadOptions<T>> = {
+      ttl: options.ttl ?? DEFAULT_TTL,
+      staleTtl: options.staleTtl ?? config.cache.staleTtl,
+      tags: options.tags ?? []
+    };
+    const stats = this.statsFor(cacheKeyPrefix(key));
+    const entry = await this.read<T>(key);
+
+    if (entry && !this.isExpired(entry)) {
+      stats.hits++;
+      return entry.value;
+    }
+    if (entry) {
+      stats.staleHits++;
+      this.load(key, loader, entryOptions).catch(error => {
+        console.warn(`Background refresh failed for cache key ${key}, serving stale value:`, error);
+      });
+      return entry.value;
+    }
+
+    stats.misses++;
+    return this.load(key, loader, entryOptions);
   }
 
-  clear(): void {
-    this.cache.clear();
+  async delete(key: string): Promise<void> {
+    this.invalidatePending((pendingKey) => pendingKey === key);
+    await this.backend.delete(key);
   }
 
-  private isExpired(item: CacheItem<any>): boolean {
-    return Date.now() - item.timestamp > item.ttl;
+  /**
+   * 删除键以 prefix 开头的条目
+   * @returns 删除的条目数
+   */
+  async invalidateByPrefix(prefix: string): Promise<number> {
+    this.invalidatePending((pendingKey) => pendingKey.startsWith(prefix));
+    return this.backend.deleteByPrefix(prefix);
   }
 
-  private cleanup(): void {
-    for (const [key, item] of this.cache.entries()) {
-      if (this.isExpired(item)) {
-        this.cache.delete(key);
-      }
-    }
+  /**
+   * 删除写入时带有该标签的条目
+   * @returns 删除的条目数
+   */
+  async invalidateByTag(tag: string): Promise<number> {
+    this.pending.forEach(pending => pending.invalidatedTags.add(tag));
+    this.invalidatePending((_key, pending) => pending.tags.includes(tag));
+    return this.backend.deleteByTag(tag);
+  }
+
+  async clear(): Promise<void> {
+    this.invalidatePending(() => true);
+    await this.backend.clear();
+  }
+
+  // 检查键是否存在且未过期
+  async has(key: string): Promise<boolean> {
+    const entry = await this.read(key);
+    return entry ? !this.isExpired(entry) : false;
+  }
+
+  // 获取剩余过期时间（毫秒）
+  async getTTL(key: string): Promise<number> {
+    const entry = await this.read(key);
+    if (!entry || this.isExpired(entry)) return 0;
+    return entry.ttl - (Date.now() - entry.timestamp);
   }
 
   // 获取缓存统计信息
-  getStats(): { size: number; keys: string[] } {
+  getStats(): CacheStats {
+    const storage = this.backend.getStats();
+    const prefixes: Record<string, CachePrefixStats> = {};
+    const emptyStorage: CacheStorageStats = { evictions: 0, expirations: 0, entries: 0, bytes: 0 };
+    const emptyAccess: AccessStats = { hits: 0, staleHits: 0, misses: 0, loadFailures: 0 };
+
+    new Set([...this.accessStats.keys(), ...Object.keys(storage.prefixes)]).forEach(prefix => {
+      prefixes[prefix] = {
+        ...emptyAccess,
+        ...this.accessStats.get(prefix),
+        ...emptyStorage,
+        ...storage.prefixes[prefix]
+      };
+    });
+
     return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
+      backend: this.backend.name,
+      size: storage.size,
+      bytes: storage.bytes,
+      prefixes
     };
   }
 
-  // 检查键是否存在且未过期
-  has(key: string): boolean {
-    const item = this.cache.get(key);
-    return item ? !this.isExpired(item) : false;
+  async close(): Promise<void> {
+    await this.backend.close();
   }
 
-  // 获取剩余过期时间（毫秒）
-  getTTL(key: string): number {
-    const item = this.cache.get(key);
-    if (!item) return 0;
-    if (this.isExpired(item)) return 0;
-    return item.ttl - (Date.now() - item.timestamp);
+  private isExpired(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.timestamp > entry.ttl;
+  }
+
+  // 后端不可用时按未命中处理
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.backend.get<T>(key);
+    } catch (error) {
+      console.warn(`Cache read failed for key ${key}:`, error);
+      return null;
+    }
   }
-} 
\ No newline at end of file
+
+  private load<T>(key: string, loader: () => Promise<T>, options: Required<LoadOptions<T>>): Promise<T> {
+    const existing = this.pending.get(key);
+    if (existing) return existing.promise as Promise<T>;
+
+    const pending: PendingLoad = {
+      promise: Promise.resolve(),
+      tags: Array.isArray(options.tags) ? options.tags : [],
+      invalidated: false,
+      invalidatedTags: new Set()
+    };
+    const promise = Promise.resolve()
+      .then(loader)
+      .then(async value => {
+        const tags = typeof options.tags === 'function' ? options.tags(value) : options.tags;
+        if (!pending.invalidated && !tags.some(tag => pending.invalidatedTags.has(tag))) {
+          await this.set(key, value, options.ttl, { staleTtl: options.staleTtl, tags });
+        }
+        return value;
+      })
+      .catch(error => {
+        this.statsFor(cacheKeyPrefix(key)).loadFailures++;
+        throw error;
+      })
+      .finally(() => {
+        if (this.pending.get(key) === pending) {
+          this.pending.delete(key);
+        }
+      });
+    pending.promise = promise;
+    this.pending.set(key, pending);
+    return promise;
+  }
+
+  // 标记匹配的加载已失效，之后的 getOrLoad 重新加载而不是共用旧的加载
+  private invalidatePending(matches: (key: string, pending: PendingLoad) => boolean): void {
+    for (const [key, pending] of this.pending.entries()) {
+      if (matches(key, pending)) {
+        pending.invalidated = true;
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  private statsFor(prefix: string): AccessStats {
+    let stats = this.accessStats.get(prefix);
+    if (!stats) {
+      stats = { hits: 0, staleHits: 0, misses: 0, loadFailures: 0 };
+      this.accessStats.set(prefix, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * @file 熔断器
+ * @module utils/circuit-breaker
+ * @description 按连续失败次数或滑动窗口错误率熔断上游调用（closed / open / half-open）
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * 熔断器状态
+ */
+export enum CircuitState {
+  CLOSED = 'closed',       // 正常放行
+  OPEN = 'open',           // 熔断中，直接拒绝
+  HALF_OPEN = 'half_open'  // 试探中，放行少量请求
+}
+
+/**
+ * 熔断器配置
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number;    // 连续失败多少次后熔断
+  errorRateThreshold: number;  // 滑动窗口错误率达到多少后熔断（0-1）
+  minimumRequests: number;     // 按错误率熔断所需的最少请求数
+  windowSize: number;          // 滑动窗口大小（请求数）
+  openTimeout: number;         // 熔断持续时间，之后进入半开状态（毫秒）
+  halfOpenMaxCalls: number;    // 半开状态下允许同时试探的请求数
+  isFailure?: (error: unknown) => boolean; // 哪些异常计入失败，默认全部计入
+}
+
+/**
+ * 状态变化事件
+ */
+export interface CircuitStateChangeEvent {
+  name: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * 熔断器统计信息
+ */
+export interface CircuitBreakerStats {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  errorRate: number;
+  samples: number;
+  openedAt?: Date;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * 熔断中拒绝请求时抛出的错误
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly circuit: string, public readonly nextAttemptAt?: Date) {
+    super(`Circuit "${circuit}" is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker extends EventEmitter {
+  private readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private state: CircuitState = CircuitState.CLOSED;
+  private outcomes: boolean[] = []; // true 表示失败
+  private consecutiveFailures = 0;
+  private halfOpenCalls = 0;
+  private openedAt?: Date;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    super();
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * 通过熔断器执行调用
+   * @param task - 上游调用
+   * @throws CircuitOpenError 熔断中或半开试探名额已满时
+   */
+  async execute<T>(task: () => Promise<T>): Promise<T> {
+    const isTrial = this.acquire();
+
+    try {
+      const result = await task();
+      this.onSuccess(isTrial);
+      return result;
+    } catch (error) {
+      const counted = this.options.isFailure ? this.options.isFailure(error) : true;
+      if (counted) {
+        this.onFailure(isTrial);
+      } else {
+        this.onSuccess(isTrial);
+      }
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  isOpen(): boolean {
+    return this.getState() === CircuitState.OPEN;
+  }
+
+  getStats(): CircuitBreakerStats {
+    return {
+      name: this.name,
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.errorRate(),
+      samples: this.outcomes.length,
+      openedAt: this.openedAt,
+      nextAttemptAt: this.nextAttemptAt()
+    };
+  }
+
+  // 获取执行许可，返回本次调用是否为半开状态下的试探请求
+  private acquire(): boolean {
+    this.refreshState();
+
+    if (this.state === CircuitState.OPEN) {
+      throw new CircuitOpenError(this.name, this.nextAttemptAt());
+    }
+    if (this.state === CircuitState.HALF_OPEN) {
+      if (this.halfOpenCalls >= this.options.halfOpenMaxCalls) {
+        throw new CircuitOpenError(this.name, this.nextAttemptAt());
+      }
+      this.halfOpenCalls++;
+      return true;
+    }
+    return false;
+  }
+
+  private onSuccess(isTrial: boolean): void {
+    this.consecutiveFailures = 0;
+    this.pushOutcome(false);
+
+    if (isTrial && this.state === CircuitState.HALF_OPEN) {
+      this.halfOpenCalls--;
+      if (this.halfOpenCalls === 0) {
+        this.transition(CircuitState.CLOSED, 'trial request succeeded');
+      }
+    }
+  }
+
+  private onFailure(isTrial: boolean): void {
+    this.consecutiveFailures++;
+    this.pushOutcome(true);
+
+    if (isTrial && this.state === CircuitState.HALF_OPEN) {
+      this.transition(CircuitState.OPEN, 'trial request failed');
+      return;
+    }
+
+    if (this.state === CircuitState.CLOSED) {
+      if (this.consecutiveFailures >= this.options.failureThreshold) {
+        this.transition(CircuitState.OPEN, `${this.consecutiveFailures} consecutive failures`);
+      } else if (
+        this.outcomes.length >= this.options.minimumRequests &&
+        this.errorRate() >= this.options.errorRateThreshold
+      ) {
+        this.transition(CircuitState.OPEN, `error rate ${(this.errorRate() * 100).toFixed(1)}%`);
+      }
+    }
+  }
+
+  // 熔断时间到期后进入半开状态
+  private refreshState(): void {
+    if (
+      this.state === CircuitState.OPEN &&
+      this.openedAt &&
+      Date.now() - this.openedAt.getTime() >= this.options.openTimeout
+    ) {
+      this.transition(CircuitState.HALF_OPEN, 'open timeout elapsed');
+    }
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    if (from === to) return;
+
+    this.state = to;
+    if (to === CircuitState.OPEN) {
+      this.openedAt = new Date();
+    } else if (to === CircuitState.HALF_OPEN) {
+      this.halfOpenCalls = 0;
+    } else {
+      this.openedAt = undefined;
+      this.outcomes = [];
+      this.consecutiveFailures = 0;
+    }
+
+    const event: CircuitStateChangeEvent = { name: this.name, from, to, reason, timestamp: new Date() };
+    this.emit('stateChange', event);
+  }
+
+  private pushOutcome(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private errorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(failed => failed).length / this.outcomes.length;
+  }
+
+  private nextAttemptAt(): Date | undefined {
+    if (this.state !== CircuitState.OPEN || !this.openedAt) return undefined;
+    return new Date(this.openedAt.getTime() + this.options.openTimeout);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * @file Cron 表达式
+ * @module utils/cron
+ * @description 解析五段式 cron 表达式（分 时 日 月 周）并计算下一次触发时间，时间按 UTC 计算
+ */
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+// 分、时、日、月、周的取值范围，周的 0 和 7 都表示周日
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 }
+];
+
+// 最多向后查找的年数，超出时认为表达式不会触发（如 2月30日）
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE = 60000;
+
+export class CronExpression {
+  readonly source: string;
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly days: Set<number>;
+  private readonly months: Set<number>;
+  private readonly weekdays: Set<number>;
+  // 日和周同时被限定时，任一满足即触发（与标准 cron 一致）
+  private readonly dayRestricted: boolean;
+  private readonly weekdayRestricted: boolean;
+
+  private constructor(source: string, fields: Set<number>[], restricted: boolean[]) {
+    this.source = source;
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = fields;
+    this.dayRestricted = restricted[2];
+    this.weekdayRestricted = restricted[4];
+  }
+
+  /**
+   * 解析 cron 表达式，支持 *、数值、范围（a-b）、步长（星号/n、a-b/n）和逗号分隔的列表
+   * @param expression - 如 "0 3 * * *"（每天 03:00 UTC）
+   */
+  static parse(expression: string): CronExpression {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`Invalid cron expression "${expression}": expected ${FIELDS.length} fields`);
+    }
+
+    const fields = parts.map((part, index) => CronExpression.parseField(part, FIELDS[index], expression));
+    // 周日统一记为 0
+    if (fields[4].delete(7)) {
+      fields[4].add(0);
+    }
+    return new CronExpression(expression, fields, parts.map(part => part !== '*'));
+  }
+
+  /**
+   * 计算严格晚于 after 的下一次触发时间
+   */
+  next(after: Date): Date {
+    const time = new Date(Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE);
+    const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 86400000;
+
+    while (time.getTime() <= limit) {
+      if (!this.months.has(time.getUTCMonth() + 1)) {
+        time.setUTCMonth(time.getUTCMonth() + 1, 1);
+        time.setUTCHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(time)) {
+        time.setUTCDate(time.getUTCDate() + 1);
+        time.setUTCHours(0, 0, 0, 0);
+      } else if (!this.hours.has(time.getUTCHours())) {
+        time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(time.getUTCMinutes())) {
+        time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+      } else {
+        return time;
+      }
+    }
+    throw new Error(`Cron expression "${this.source}" has no run time in the next ${MAX_SEARCH_YEARS} years`);
+  }
+
+  private matchesDay(time: Date): boolean {
+    const day = this.days.has(time.getUTCDate());
+    const weekday = this.weekdays.has(time.getUTCDay());
+    if (this.dayRestricted && this.weekdayRestricted) {
+      return day || weekday;
+    }
+    return day && weekday;
+  }
+
+  private static parseField(part: string, field: CronField, expression: string): Set<number> {
+    const values = new Set<number>();
+    const invalid = () => new Error(`Invalid cron expression "${expression}": bad field "${part}"`);
+
+    part.split(',').forEach(item => {
+      const [range, stepText] = item.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) throw invalid();
+
+      let start: number;
+      let end: number;
+      if (range === '*') {
+        start = field.min;
+        end = field.max;
+      } else if (range.includes('-')) {
+        [start, end] = range.split('-').map(Number);
+      } else {
+        start = Number(range);
+        // 单个数值带步长时表示从该值到上限
+        end = stepText === undefined ? start : field.max;
+      }
+
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+        throw invalid();
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    });
+    return values;
+  }
+}
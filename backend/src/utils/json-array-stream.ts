@@ -0,0 +1,98 @@
+/**
+ * @file JSON 数组流式切分器
+ * @module utils/json-array-stream
+ * @description 按数据块增量扫描顶层 JSON 数组，逐个产出完整的元素文本，无需缓冲整个响应
+ */
+
+/**
+ * JSON 数组流式切分器
+ * 只跟踪嵌套深度和字符串状态，元素本身由调用方 JSON.parse
+ */
+export class JsonArrayStream {
+  private started = false;
+  private finished = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private buffer = '';
+
+  /**
+   * 写入一个数据块
+   * @param chunk - 响应文本片段
+   * @returns 本数据块内结束的完整元素文本
+   */
+  push(chunk: string): string[] {
+    const elements: string[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (!this.started) {
+        if (char === '[') {
+          this.started = true;
+        } else if (!isWhitespace(char)) {
+          throw new Error(`Expected JSON array, found "${char}"`);
+        }
+        continue;
+      }
+      if (this.finished) {
+        if (!isWhitespace(char)) {
+          throw new Error('Unexpected data after end of JSON array');
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        this.buffer += char;
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (this.depth === 0) {
+        // 顶层：元素之间的逗号和数组结束符
+        if (char === ',' || char === ']') {
+          const element = this.buffer.trim();
+          if (element) {
+            elements.push(element);
+          } else if (char === ',') {
+            throw new Error('Unexpected "," in JSON array');
+          }
+          this.buffer = '';
+          this.finished = char === ']';
+          continue;
+        }
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+      }
+      this.buffer += char;
+    }
+
+    return elements;
+  }
+
+  /**
+   * 结束输入
+   * @throws Error 数组不完整时
+   */
+  end(): void {
+    if (!this.started || !this.finished) {
+      throw new Error('Unexpected end of JSON array');
+    }
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
@@ -1,8 +1,8 @@
 import winston from 'winston';
-import config from '../config';
+import { config } from '../config';
 
 const logger = winston.createLogger({
-  level: config.logLevel || 'info',
+  level: config.logLevel,
   format: winston.format.combine(
     winston.format.timestamp(),
     winston.format.json()
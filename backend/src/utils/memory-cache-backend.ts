@@ -0,0 +1,192 @@
+/**
+ * @file 进程内缓存后端
+ * @module utils/memory-cache-backend
+ * @description 按条目数和近似字节预算做 LRU 淘汰，并维护标签到键的索引；未设置字节预算时不估算条目大小
+ */
+
+import {
+  CacheBackend,
+  CacheBackendStats,
+  CacheEntry,
+  CacheStorageStats,
+  cacheKeyPrefix
+} from './cache-backend';
+
+export interface MemoryCacheBackendOptions {
+  maxEntries: number;      // 最大条目数
+  maxBytes: number;        // 近似内存预算（字节），0 表示不限制
+  cleanupInterval: number; // 过期条目清理间隔（毫秒）
+}
+
+interface StoredEntry extends CacheEntry<unknown> {
+  size: number;
+  prefix: string;
+}
+
+// 无法序列化的值（循环引用、BigInt）按固定大小估算
+const UNSERIALIZABLE_SIZE = 1024;
+
+// 按 JSON 序列化后的长度估算条目大小
+const estimateSize = (key: string, value: unknown): number => {
+  let valueSize: number;
+  try {
+    const json = JSON.stringify(value);
+    valueSize = json === undefined ? 0 : Buffer.byteLength(json);
+  } catch {
+    valueSize = UNSERIALIZABLE_SIZE;
+  }
+  return Buffer.byteLength(key) + valueSize;
+};
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private readonly options: MemoryCacheBackendOptions;
+  // Map 按插入顺序遍历，读取时重新插入，最久未使用的条目排在最前
+  private entries: Map<string, StoredEntry> = new Map();
+  private tagIndex: Map<string, Set<string>> = new Map();
+  private prefixStats: Map<string, CacheStorageStats> = new Map();
+  private totalBytes = 0;
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(options: MemoryCacheBackendOptions) {
+    this.options = options;
+    this.cleanupInterval = setInterval(() => this.cleanup(), options.cleanupInterval);
+    this.cleanupInterval.unref();
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (this.isDead(entry)) {
+      this.expire(key, entry);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  // 超出条目数或字节预算时淘汰最久未使用的条目，单个条目超出字节预算时不缓存
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.remove(key);
+
+    const prefix = cacheKeyPrefix(key);
+    // 估算需要序列化整个值，只在设置了字节预算时进行
+    const size = this.options.maxBytes > 0 ? estimateSize(key, entry.value) : 0;
+    if (this.options.maxBytes > 0 && size > this.options.maxBytes) {
+      this.statsFor(prefix).evictions++;
+      return;
+    }
+
+    this.entries.set(key, { ...entry, size, prefix });
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.tagIndex.set(tag, keys);
+    });
+    this.track(prefix, 1, size);
+    this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const keys = Array.from(this.entries.keys()).filter(key => key.startsWith(prefix));
+    keys.forEach(key => this.remove(key));
+    return keys.length;
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const keys = Array.from(this.tagIndex.get(tag) ?? []);
+    keys.forEach(key => this.remove(key));
+    this.tagIndex.delete(tag);
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+    this.totalBytes = 0;
+    this.prefixStats.forEach(stats => {
+      stats.entries = 0;
+      stats.bytes = 0;
+    });
+  }
+
+  getStats(): CacheBackendStats {
+    const prefixes: Record<string, CacheStorageStats> = {};
+    this.prefixStats.forEach((stats, prefix) => {
+      prefixes[prefix] = { ...stats };
+    });
+    return { size: this.entries.size, bytes: this.totalBytes, prefixes };
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+  }
+
+  // 超过宽限期，不能再作为旧值返回
+  private isDead(entry: StoredEntry): boolean {
+    return Date.now() - entry.timestamp > entry.ttl + entry.staleTtl;
+  }
+
+  private expire(key: string, entry: StoredEntry): void {
+    this.remove(key);
+    this.statsFor(entry.prefix).expirations++;
+  }
+
+  private cleanup(): void {
+    for (const [key, entry] of this.entries.entries()) {
+      if (this.isDead(entry)) {
+        this.expire(key, entry);
+      }
+    }
+  }
+
+  private evict(): void {
+    const overBudget = (): boolean => this.options.maxBytes > 0 && this.totalBytes > this.options.maxBytes;
+    while (this.entries.size > this.options.maxEntries || overBudget()) {
+      const oldest = this.entries.keys().next().value as string;
+      const entry = this.remove(oldest);
+      if (entry) {
+        this.statsFor(entry.prefix).evictions++;
+      }
+    }
+  }
+
+  private remove(key: string): StoredEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    });
+    this.track(entry.prefix, -1, -entry.size);
+    return entry;
+  }
+
+  private track(prefix: string, entries: number, bytes: number): void {
+    const stats = this.statsFor(prefix);
+    stats.entries += entries;
+    stats.bytes += bytes;
+    this.totalBytes += bytes;
+  }
+
+  private statsFor(prefix: string): CacheStorageStats {
+    let stats = this.prefixStats.get(prefix);
+    if (!stats) {
+      stats = { evictions: 0, expirations: 0, entries: 0, bytes: 0 };
+      this.prefixStats.set(prefix, stats);
+    }
+    return stats;
+  }
+}
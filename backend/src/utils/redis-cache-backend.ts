@@ -0,0 +1,158 @@
+/**
+ * @file Redis 缓存后端
+ * @module utils/redis-cache-backend
+ * @description 多个 API 副本共享的缓存：条目以 JSON 保存并由 Redis 按有效期删除，标签用集合记录对应的键
+ */
+
+import Redis, { Result } from 'ioredis';
+import { CacheBackend, CacheBackendStats, CacheEntry } from './cache-backend';
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    cacheTagAdd(tagKey: string, entryKey: string, lifetime: number): Result<number, Context>;
+  }
+}
+
+export interface RedisCacheBackendOptions {
+  host: string;
+  port: number;
+  password?: string;
+  keyPrefix: string;  // 所有缓存键的命名空间，如 liqpro:cache:
+}
+
+const SCAN_BATCH = 200;
+
+// JSON 不保留 Date 类型，序列化时转成带标记的对象
+const DATE_MARKER = '$date';
+
+// 把键加入标签集合，标签集合的有效期不短于其中任一条目；注册为 cacheTagAdd 命令，按 EVALSHA 执行
+const TAG_ADD_SCRIPT = `
+redis.call('SADD', KEYS[1], ARGV[1])
+if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 1`;
+
+const serialize = (entry: CacheEntry<unknown>): string =>
+  JSON.stringify(entry, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { [DATE_MARKER]: raw.toISOString() } : value;
+  });
+
+const deserialize = <T>(json: string): CacheEntry<T> =>
+  JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const keys = Object.keys(value);
+      if (keys.length === 1 && keys[0] === DATE_MARKER && typeof value[DATE_MARKER] === 'string') {
+        return new Date(value[DATE_MARKER]);
+      }
+    }
+    return value;
+  });
+
+// SCAN MATCH 使用 glob 语法，键中的特殊字符需要转义
+const escapeGlob = (text: string): string => text.replace(/[*?[\]\\]/g, '\\$&');
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  private readonly client: Redis;
+  private readonly entryPrefix: string;
+  private readonly tagPrefix: string;
+
+  /**
+   * @param options - 连接参数和键命名空间
+   * @param client - Redis 客户端，不提供时按 options 创建（测试时可传入兼容 Redis 协议的本地服务）
+   */
+  constructor(options: RedisCacheBackendOptions, client?: Redis) {
+    // 缓存不可用时快速失败，由 Cache 降级为直接加载，不在离线队列中等待重连
+    this.client = client ?? new Redis({
+      host: options.host,
+      port: options.port,
+      password: options.password,
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false
+    });
+    this.client.defineCommand('cacheTagAdd', { numberOfKeys: 1, lua: TAG_ADD_SCRIPT });
+    this.client.on('error', error => {
+      console.error('Redis cache connection error:', error.message);
+    });
+    this.entryPrefix = `${options.keyPrefix}entry:`;
+    this.tagPrefix = `${options.keyPrefix}tag:`;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const json = await this.client.get(this.entryKey(key));
+    return json === null ? null : deserialize<T>(json);
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const entryKey = this.entryKey(key);
+    const lifetime = Math.max(1, entry.ttl + entry.staleTtl);
+    const pipeline = this.client.pipeline().set(entryKey, serialize(entry), 'PX', lifetime);
+    entry.tags.forEach(tag => {
+      pipeline.cacheTagAdd(this.tagKey(tag), entryKey, lifetime);
+    });
+
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.entryKey(key));
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    return this.deleteMatching(`${escapeGlob(this.entryKey(prefix))}*`);
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const tagKey = this.tagKey(tag);
+    const keys = await this.client.smembers(tagKey);
+    if (keys.length === 0) return 0;
+
+    const deleted = await this.client.del(...keys);
+    await this.client.del(tagKey);
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteMatching(`${escapeGlob(this.entryPrefix)}*`);
+    await this.deleteMatching(`${escapeGlob(this.tagPrefix)}*`);
+  }
+
+  /**
+   * 条目分布在多个副本共享的 Redis 中，按前缀统计条目数和字节数需要 SCAN 全部键，这里不统计，均返回 0
+   * 缓存占用通过 Redis 的 INFO memory、DBSIZE 查看
+   */
+  getStats(): CacheBackendStats {
+    return { size: 0, bytes: 0, prefixes: {} };
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private async deleteMatching(pattern: string): Promise<number> {
+    let cursor = '0';
+    let deleted = 0;
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH);
+      if (keys.length > 0) {
+        deleted += await this.client.unlink(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+    return deleted;
+  }
+
+  private entryKey(key: string): string {
+    return `${this.entryPrefix}${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.tagPrefix}${tag}`;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * @file 请求调度器
+ * @module utils/request-scheduler
+ * @description 为外部 HTTP/RPC 请求提供并发上限、令牌桶限流和优先级队列
+ */
+
+/**
+ * 请求优先级
+ * 同一时刻有空闲槽位时，总是先执行高优先级队列中的请求
+ */
+export enum RequestPriority {
+  HIGH = 'high',     // 持仓监控
+  NORMAL = 'normal', // 池子详情、大户监控
+  LOW = 'low'        // Top 100 列表刷新
+}
+
+const PRIORITY_ORDER: RequestPriority[] = [
+  RequestPriority.HIGH,
+  RequestPriority.NORMAL,
+  RequestPriority.LOW
+];
+
+/**
+ * 调度器配置
+ */
+export interface RequestSchedulerOptions {
+  maxConcurrent: number;   // 最大并发请求数
+  rateLimit: {
+    maxRequests: number;   // 时间窗口内最大请求数（令牌桶容量）
+    windowMs: number;      // 时间窗口（毫秒）
+  };
+}
+
+/**
+ * 等待时间统计
+ */
+export interface WaitTimeStats {
+  count: number;  // 已出队请求数
+  avg: number;    // 平均等待时间（毫秒）
+  max: number;    // 最大等待时间（毫秒）
+}
+
+/**
+ * 调度器统计信息
+ */
+export interface RequestSchedulerStats {
+  active: number;                                  // 正在执行的请求数
+  queued: number;                                  // 排队中的请求总数
+  queueDepth: Record<RequestPriority, number>;     // 各优先级队列深度
+  completed: number;                               // 成功完成的请求数
+  failed: number;                                  // 失败的请求数
+  availableTokens: number;                         // 当前可用令牌数
+  waitTime: WaitTimeStats;                         // 全部请求的等待时间
+  waitTimeByPriority: Record<RequestPriority, WaitTimeStats>;
+}
+
+interface QueuedRequest {
+  execute: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  priority: RequestPriority;
+  enqueuedAt: number;
+}
+
+interface WaitTimeAccumulator {
+  count: number;
+  total: number;
+  max: number;
+}
+
+/**
+ * 请求调度器
+ * 所有请求先进入对应优先级的队列，只有同时拿到并发槽位和限流令牌时才会真正发出
+ */
+export class RequestScheduler {
+  private readonly maxConcurrent: number;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly queues: Record<RequestPriority, QueuedRequest[]> = {
+    [RequestPriority.HIGH]: [],
+    [RequestPriority.NORMAL]: [],
+    [RequestPriority.LOW]: []
+  };
+  private readonly waitTimes: Record<RequestPriority, WaitTimeAccumulator> = {
+    [RequestPriority.HIGH]: { count: 0, total: 0, max: 0 },
+    [RequestPriority.NORMAL]: { count: 0, total: 0, max: 0 },
+    [RequestPriority.LOW]: { count: 0, total: 0, max: 0 }
+  };
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private completed = 0;
+  private failed = 0;
+  private refillTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: RequestSchedulerOptions) {
+    if (options.maxConcurrent < 1) {
+      throw new Error('maxConcurrent must be at least 1');
+    }
+    if (options.rateLimit.maxRequests < 1 || options.rateLimit.windowMs <= 0) {
+      throw new Error('Invalid rate limit configuration');
+    }
+    this.maxConcurrent = options.maxConcurrent;
+    this.capacity = options.rateLimit.maxRequests;
+    this.refillPerMs = options.rateLimit.maxRequests / options.rateLimit.windowMs;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * 提交一个请求
+   * @param task - 实际发出请求的函数
+   * @param priority - 请求优先级
+   * @returns 请求结果
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = RequestPriority.NORMAL): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        execute: task,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        priority,
+        enqueuedAt: Date.now()
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * 获取调度器统计信息
+   */
+  getStats(): RequestSchedulerStats {
+    this.refill();
+
+    const queueDepth = {} as Record<RequestPriority, number>;
+    const waitTimeByPriority = {} as Record<RequestPriority, WaitTimeStats>;
+    const overall: WaitTimeAccumulator = { count: 0, total: 0, max: 0 };
+
+    for (const priority of PRIORITY_ORDER) {
+      const acc = this.waitTimes[priority];
+      queueDepth[priority] = this.queues[priority].length;
+      waitTimeByPriority[priority] = this.toWaitTimeStats(acc);
+      overall.count += acc.count;
+      overall.total += acc.total;
+      overall.max = Math.max(overall.max, acc.max);
+    }
+
+    return {
+      active: this.active,
+      queued: PRIORITY_ORDER.reduce((sum, priority) => sum + queueDepth[priority], 0),
+      queueDepth,
+      completed: this.completed,
+      failed: this.failed,
+      availableTokens: Math.floor(this.tokens),
+      waitTime: this.toWaitTimeStats(overall),
+      waitTimeByPriority
+    };
+  }
+
+  private drain(): void {
+    while (this.active < this.maxConcurrent) {
+      const priority = PRIORITY_ORDER.find(p => this.queues[p].length > 0);
+      if (!priority) return;
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.scheduleRefill();
+        return;
+      }
+
+      const request = this.queues[priority].shift() as QueuedRequest;
+      this.tokens -= 1;
+      this.run(request);
+    }
+  }
+
+  private run(request: QueuedRequest): void {
+    const waited = Date.now() - request.enqueuedAt;
+    const acc = this.waitTimes[request.priority];
+    acc.count++;
+    acc.total += waited;
+    acc.max = Math.max(acc.max, waited);
+
+    this.active++;
+    Promise.resolve()
+      .then(() => request.execute())
+      .then(
+        value => {
+          this.completed++;
+          request.resolve(value);
+        },
+        error => {
+          this.failed++;
+          request.reject(error);
+        }
+      )
+      .finally(() => {
+        this.active--;
+        this.drain();
+      });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  // 令牌不足时，在下一个令牌可用的时间点重新调度
+  private scheduleRefill(): void {
+    if (this.refillTimer) return;
+
+    const delay = Math.ceil((1 - this.tokens) / this.refillPerMs);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.drain();
+    }, delay);
+  }
+
+  private toWaitTimeStats(acc: WaitTimeAccumulator): WaitTimeStats {
+    return {
+      count: acc.count,
+      avg: acc.count > 0 ? acc.total / acc.count : 0,
+      max: acc.max
+    };
+  }
+}
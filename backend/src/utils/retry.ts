@@ -0,0 +1,71 @@
+/**
+ * @file 重试工具
+ * @module utils/retry
+ * @description 指数退避 + 全抖动（full jitter）的通用重试策略
+ */
+
+/**
+ * 退避参数
+ */
+export interface BackoffOptions {
+  initialDelay: number; // 首次重试的延迟上限（毫秒）
+  maxDelay: number;     // 单次延迟上限（毫秒）
+  factor: number;       // 指数增长因子
+}
+
+/**
+ * 重试参数
+ */
+export interface RetryOptions {
+  maxAttempts: number;  // 最大尝试次数（包含首次请求）
+  backoff: BackoffOptions;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;        // 判断异常是否可重试
+  getRetryAfter?: (error: unknown) => number | undefined;            // 服务端指定的等待时间（毫秒），超过 backoff.maxDelay 时不再重试
+  onRetry?: (error: unknown, attempt: number, delay: number) => void; // 每次重试前的回调
+}
+
+/**
+ * 计算第 attempt 次失败后的等待时间
+ * 全抖动：在 [0, min(maxDelay, initialDelay * factor^(attempt-1))) 中均匀随机
+ * @param attempt - 已失败的次数（从1开始）
+ * @param backoff - 退避参数
+ * @param random - 随机数生成函数
+ * @returns 等待时间（毫秒）
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  backoff: BackoffOptions,
+  random: () => number = Math.random
+): number {
+  const exponential = backoff.initialDelay * Math.pow(backoff.factor, Math.max(0, attempt - 1));
+  const ceiling = Math.min(backoff.maxDelay, exponential);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * 按重试策略执行异步任务
+ * 不可重试的异常、达到最大尝试次数或服务端要求的等待时间超过 backoff.maxDelay 时，直接抛出最后一次的异常
+ * @param task - 待执行的任务，参数为当前尝试次数（从1开始）
+ * @param options - 重试参数
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      const canRetry = options.shouldRetry ? options.shouldRetry(error, attempt) : true;
+      if (!canRetry || attempt >= options.maxAttempts) {
+        throw error;
+      }
+
+      const retryAfter = options.getRetryAfter?.(error);
+      // 提前重试只会再次被限流，等待时间超出上限时直接失败
+      if (retryAfter !== undefined && retryAfter > options.backoff.maxDelay) {
+        throw error;
+      }
+      const delay = retryAfter !== undefined ? retryAfter : computeBackoffDelay(attempt, options.backoff);
+      options.onRetry?.(error, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -38,6 +38,7 @@ module.exports = {
     network: 'mainnet-beta',
     rpcEndpoint: process.env.SOLANA_RPC_ENDPOINT || 'https://soft-snowy-asphalt.solana-mainnet.quiknode.pro/48639631c6e4e81af5a0b8e228f6f9a0329154b7/',
     wsEndpoint: process.env.SOLANA_WS_ENDPOINT || 'wss://soft-snowy-asphalt.solana-mainnet.quiknode.pro/48639631c6e4e81af5a0b8e228f6f9a0329154b7/',
+    backupRpcEndpoint: process.env.SOLANA_BACKUP_RPC_ENDPOINT,
     timeout: 30000,
   },
 
@@ -61,23 +62,12 @@ module.exports = {
   },
 
   // Meteora API基础配置
+  // 请求调度、重试、限流和熔断参数由 backend/src/config.ts 提供，不在此处配置
   meteora: {
     apiKey: process.env.METEORA_API_KEY,
     baseUrl: process.env.METEORA_API_URL || 'https://dlmm-api.meteora.ag',
     version: 'v1',
     timeout: process.env.METEORA_API_TIMEOUT || 30000,
-    retry: {
-      maxAttempts: 3,
-      backoff: {
-        initialDelay: 1000,
-        maxDelay: 5000,
-        factor: 2
-      }
-    },
-    rateLimit: {
-      maxRequests: 100,
-      windowMs: 60000 // 1分钟
-    },
     // DLMM SDK配置
     sdk: {
       programId: process.env.METEORA_PROGRAM_ID || 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo',
@@ -109,7 +99,6 @@ module.exports = {
   cache: {
     enabled: true,
     ttl: 300,
-    max: 1000,
   },
 
   // 安全基础配置
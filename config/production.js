@@ -56,7 +56,6 @@ module.exports = {
   cache: {
     ...require('./default').cache,
     ttl: 600,
-    max: 5000,
     redis: {
       host: process.env.REDIS_HOST,
       port: process.env.REDIS_PORT,
@@ -1,4 +1,5 @@
 export * from './types/api';
 export * from './types/agent';
 export * from './types/pool';
-export * from './types/config'; 
\ No newline at end of file
+export * from './types/config'; 
+export * from './types/poolModel';
\ No newline at end of file
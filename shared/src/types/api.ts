@@ -1,3 +1,5 @@
+import { PoolModel, PoolParameters } from './poolModel';
+
 /**
  * API错误码
  */
@@ -56,8 +58,34 @@ export interface SortParams {
  * 池子查询参数接口
  */
 export interface PoolQueryParams extends PaginationParams, SortParams {
+  sortBy?: 'volume' | 'apy' | 'tvl';
   minTvl?: number;
   minVolume?: number;
+  tokenMint?: string;             // 池子任一侧代币的mint地址
+  minBinStep?: number;
+  maxBinStep?: number;
+  maxBaseFee?: number;            // 最大基础费率（百分比）
+  excludeHidden?: boolean;        // 排除被隐藏的池子
+  excludeBlacklisted?: boolean;   // 排除黑名单池子
+}
+
+/**
+ * 池子接口响应
+ * 价格以字符串返回，客户端解析时不丢失精度
+ */
+export interface PoolResponse extends Omit<PoolModel, 'parameters'> {
+  parameters: Omit<PoolParameters, 'currentPrice'> & {
+    currentPrice: string;
+  };
+}
+
+/**
+ * 池子详情查询参数接口
+ */
+export interface PoolDetailQueryParams {
+  binWindow?: number;   // 只返回活跃bin两侧各N个bin
+  lowerBinId?: number;  // 只返回给定区间的bin
+  upperBinId?: number;
 }
 
 /**
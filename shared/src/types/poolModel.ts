@@ -0,0 +1,140 @@
+/**
+ * 池子领域模型版本
+ * 模型结构发生不兼容变化时递增，并在 DataTransformers 中补充旧版本的升级逻辑
+ */
+export const POOL_MODEL_VERSION = 1;
+
+/**
+ * 时间窗口统计
+ */
+export interface TimeSeriesData {
+  min_30: number;        // 30分钟数据
+  hour_1: number;        // 1小时数据
+  hour_2: number;        // 2小时数据
+  hour_4: number;        // 4小时数据
+  hour_12: number;       // 12小时数据
+  hour_24: number;       // 24小时数据
+}
+
+/**
+ * 池子中的代币
+ */
+export interface TokenModel {
+  mint: string;          // 代币合约地址
+  reserve: string;       // 储备账户地址
+  amount: number;        // 当前储备量
+  symbol: string;        // 代币符号
+  decimals: number;      // 代币精度
+  price: number;         // 代币USD价格
+}
+
+/**
+ * 池子中的bin
+ */
+export interface PoolBin {
+  binId: string;
+  price: string;
+  amountX: string;        // tokenX 数量（已按精度换算）
+  amountY: string;        // tokenY 数量（已按精度换算）
+  valueX: string;         // tokenX 的USD价值
+  valueY: string;         // tokenY 的USD价值
+  totalLiquidity: string; // bin内两侧代币的USD价值
+  isActive: boolean;      // 是否为当前活跃bin
+}
+
+/**
+ * 池子费用（费率为百分比）
+ */
+export interface PoolFees {
+  base: string;          // 基础费率
+  max: string;           // 最大费率
+  protocol: string;      // 协议费率
+  today: number;         // 今日手续费
+  last24h: number;       // 24小时手续费
+}
+
+/**
+ * 池子交易量
+ */
+export interface PoolVolume {
+  last24h: number;       // 24小时交易量
+  cumulative: string;    // 累计交易量
+}
+
+/**
+ * 池子流动性
+ */
+export interface PoolLiquidity {
+  total: string;         // 总流动性（USD）
+}
+
+/**
+ * 池子农场奖励
+ */
+export interface PoolRewards {
+  mintX: string;         // 奖励代币X
+  mintY: string;         // 奖励代币Y
+  farmApr: number;
+  farmApy: number;
+}
+
+/**
+ * 池子收益率
+ */
+export interface PoolYields {
+  apr: number;
+  apy: number;
+  fees24hTvl: number;    // 24小时手续费/TVL
+}
+
+/**
+ * 池子参数
+ */
+export interface PoolParameters {
+  binStep: number;
+  currentPrice: number;  // 以tokenY计价的tokenX价格
+  activeBinId?: number;  // 当前活跃bin，仅详情数据提供
+  hide: boolean;
+  isBlacklisted: boolean;
+}
+
+/**
+ * 池子时间窗口统计
+ */
+export interface PoolTimeSeries {
+  fees: TimeSeriesData;
+  volume: TimeSeriesData;
+  feeTvlRatio: TimeSeriesData;
+}
+
+/**
+ * 池子汇总数据
+ * 数据仓储保存的字段，不包含bin分布和时间窗口统计
+ */
+export interface PoolSummary {
+  version: typeof POOL_MODEL_VERSION; // 模型版本
+  id: string;
+  address: string;
+  name: string;
+  tokens: {
+    tokenX: TokenModel;
+    tokenY: TokenModel;
+  };
+  fees: PoolFees;
+  volume: PoolVolume;
+  liquidity: PoolLiquidity;
+  rewards: PoolRewards;
+  yields: PoolYields;
+  parameters: PoolParameters;
+  tags: string[];
+  lastUpdate: string;    // ISO时间
+}
+
+/**
+ * 池子完整模型
+ */
+export interface PoolModel extends PoolSummary {
+  bins: PoolBin[];              // 列表数据中为空数组
+  timeSeries?: PoolTimeSeries;  // 仅列表数据提供
+  stale?: boolean;              // 上游熔断时返回的缓存数据
+}
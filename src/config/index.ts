@@ -16,6 +16,7 @@ const envSchema = z.object({
   DB_PASSWORD: z.string(),
   SOLANA_RPC_ENDPOINT: z.string().url(),
   SOLANA_WS_ENDPOINT: z.string().url(),
+  SOLANA_BACKUP_RPC_ENDPOINT: z.string().url().optional(),
   SOLANA_NETWORK: z.literal('mainnet-beta'),
   SOLANA_TIMEOUT: z.string().transform(Number).default('30000'),
   JUPITER_API_URL: z.string().url(),